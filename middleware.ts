@@ -11,20 +11,33 @@ export async function middleware(req: NextRequest) {
     data: { session },
   } = await supabase.auth.getSession();
 
+  // Invitation links can be opened before signing in or signing up
+  const isPublicPath = req.nextUrl.pathname.startsWith("/invite/");
+
   // If user is not signed in and the current path is not /auth,
-  // redirect the user to /auth
-  if (!session && req.nextUrl.pathname !== "/auth") {
+  // redirect the user to /auth and remember where they were going
+  if (!session && req.nextUrl.pathname !== "/auth" && !isPublicPath) {
     const redirectUrl = req.nextUrl.clone();
     redirectUrl.pathname = "/auth";
+    redirectUrl.search = "";
+    redirectUrl.searchParams.set(
+      "redirectTo",
+      req.nextUrl.pathname + req.nextUrl.search
+    );
     return NextResponse.redirect(redirectUrl);
   }
 
   // If user is signed in and the current path is /auth,
-  // redirect the user to /dashboard
+  // redirect the user to where they were going, or /dashboard
   if (session && req.nextUrl.pathname === "/auth") {
-    const redirectUrl = req.nextUrl.clone();
-    redirectUrl.pathname = "/dashboard";
-    return NextResponse.redirect(redirectUrl);
+    const redirectTo = req.nextUrl.searchParams.get("redirectTo");
+    // Resolved against this site, so "//evil.com" and the like fall back
+    const redirectUrl = new URL(redirectTo || "/dashboard", req.nextUrl);
+    return NextResponse.redirect(
+      redirectUrl.origin === req.nextUrl.origin
+        ? redirectUrl
+        : new URL("/dashboard", req.nextUrl)
+    );
   }
 
   return res;
@@ -0,0 +1,154 @@
+// app/api/attachments/[...path]/route.ts
+import { NextResponse } from "next/server";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { createUserClient } from "@/lib/supabase-server";
+import { MAX_ATTACHMENT_SIZE, servedContentType } from "@/lib/attachments";
+
+// Local stand-in for the "attachments" storage bucket, used when
+// NEXT_PUBLIC_ATTACHMENT_STORAGE=local. Access follows the task_attachments
+// row for the path, checked through RLS as the caller.
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const root = path.resolve(process.env.ATTACHMENT_DIR || ".attachments");
+
+// RFC 6266: the name itself for browsers that read filename*, and an ASCII
+// stand-in for those that don't
+const contentDisposition = (name: string) => {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// The file for a storage path, or null when it would escape the directory
+function resolveFile(segments: string[]) {
+  const file = path.resolve(root, ...segments);
+  return file.startsWith(root + path.sep) ? file : null;
+}
+
+async function authorize(request: Request, { params }: RouteContext) {
+  const { client, user } = await createUserClient(request);
+  const segments = (await params).path;
+  const storagePath = segments.join("/");
+  const file = resolveFile(segments);
+
+  if (!user) {
+    return {
+      error: NextResponse.json({ error: "Not authenticated" }, { status: 401 }),
+    };
+  }
+
+  const { data: attachment } = await client
+    .from("task_attachments")
+    .select("*")
+    .eq("storage_path", storagePath)
+    .maybeSingle();
+
+  if (!attachment || !file) {
+    return {
+      error: NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { client, user, attachment, file };
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = await authorize(request, context);
+  if (auth.error) return auth.error;
+
+  try {
+    const contents = await readFile(auth.file);
+
+    return new Response(contents, {
+      headers: {
+        "Content-Type": servedContentType(auth.attachment),
+        "Content-Disposition": contentDisposition(auth.attachment.name),
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Attachment file is missing" },
+      { status: 404 }
+    );
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const auth = await authorize(request, context);
+  if (auth.error) return auth.error;
+
+  // Only the uploader stores the file, once, for the row they just created
+  if (auth.attachment.user_id !== auth.user.id) {
+    return NextResponse.json(
+      { error: "You can't upload this attachment" },
+      { status: 403 }
+    );
+  }
+
+  const contents = Buffer.from(await request.arrayBuffer());
+
+  if (
+    contents.length > MAX_ATTACHMENT_SIZE ||
+    contents.length !== auth.attachment.size
+  ) {
+    return NextResponse.json(
+      { error: "File size doesn't match the attachment" },
+      { status: 413 }
+    );
+  }
+
+  try {
+    await mkdir(path.dirname(auth.file), { recursive: true });
+    await writeFile(auth.file, contents, { flag: "wx" });
+  } catch (err) {
+    const exists = (err as NodeJS.ErrnoException).code === "EEXIST";
+    return NextResponse.json(
+      {
+        error: exists ? "Attachment already uploaded" : "Failed to store file",
+      },
+      { status: exists ? 409 : 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const auth = await authorize(request, context);
+  if (auth.error) return auth.error;
+
+  if (auth.attachment.user_id !== auth.user.id) {
+    const { data: canEdit } = await auth.client.rpc("can_edit_task", {
+      p_task_id: auth.attachment.task_id,
+    });
+
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: "You can't delete this attachment" },
+        { status: 403 }
+      );
+    }
+  }
+
+  try {
+    await unlink(auth.file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      return NextResponse.json(
+        { error: "Failed to delete file" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({ ok: true });
+}
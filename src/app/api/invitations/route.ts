@@ -0,0 +1,94 @@
+// app/api/invitations/route.ts
+import { NextResponse } from "next/server";
+import { createUserClient } from "@/lib/supabase-server";
+import { sendMail } from "@/lib/mailer";
+import { invitationEmail } from "@/lib/mailer/templates";
+import { assignableRoles, can, toWorkspaceRole } from "@/lib/permissions";
+
+export async function POST(request: Request) {
+  const { client, user } = await createUserClient(request);
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { workspaceId, email, role } = await request.json();
+  const normalizedEmail = String(email || "")
+    .trim()
+    .toLowerCase();
+
+  if (!workspaceId || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    return NextResponse.json(
+      { error: "A workspace and a valid email address are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: callerRole, error: roleError } = await client.rpc(
+      "workspace_role",
+      { p_workspace_id: workspaceId }
+    );
+
+    if (roleError) throw roleError;
+
+    const inviterRole = callerRole ? toWorkspaceRole(callerRole) : null;
+
+    if (!can(inviterRole, "members.invite")) {
+      return NextResponse.json(
+        { error: "You don't have permission to invite members" },
+        { status: 403 }
+      );
+    }
+
+    if (!assignableRoles(inviterRole).includes(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    // RLS enforces the same rules on the insert itself
+    const { data: invitation, error: insertError } = await client
+      .from("workspace_invitations")
+      .insert([{ workspace_id: workspaceId, email: normalizedEmail, role }])
+      .select("*, workspaces (name)")
+      .single();
+
+    if (insertError) {
+      const message =
+        insertError.code === "23505"
+          ? "This address already has a pending invitation"
+          : insertError.message;
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const { data: inviter } = await client
+      .from("profiles")
+      .select("username")
+      .eq("id", user.id)
+      .single();
+
+    const { workspaces, ...invitationRow } = invitation;
+    const siteUrl =
+      process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin;
+
+    await sendMail(
+      invitationEmail({
+        to: normalizedEmail,
+        workspaceName: workspaces?.name || "a workspace",
+        inviterName: inviter?.username || user.email || "A teammate",
+        role,
+        link: `${siteUrl}/invite/${invitationRow.token}`,
+        expiresAt: invitationRow.expires_at,
+      })
+    );
+
+    return NextResponse.json({ invitation: invitationRow }, { status: 201 });
+  } catch (err: unknown) {
+    console.error("Failed to send invitation:", err);
+    return NextResponse.json(
+      {
+        error: err instanceof Error ? err.message : "Failed to send invitation",
+      },
+      { status: 500 }
+    );
+  }
+}
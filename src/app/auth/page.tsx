@@ -1,4 +1,5 @@
 // app/auth/page.tsx
+import { Suspense } from "react";
 import AuthForm from "@/components/auth/AuthForm";
 
 export default function AuthPage() {
@@ -14,7 +15,9 @@ export default function AuthPage() {
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
-        <AuthForm />
+        <Suspense>
+          <AuthForm />
+        </Suspense>
       </div>
     </div>
   );
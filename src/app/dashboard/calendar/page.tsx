@@ -0,0 +1,12 @@
+// app/dashboard/calendar/page.tsx
+import TaskCalendar from "@/components/calendar/TaskCalendar";
+
+export default function CalendarPage() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Calendar</h1>
+
+      <TaskCalendar />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-// app/dashboard/page.tsx
+// app/dashboard/focus/page.tsx
 import ContextView from "@/components/smart-contexts/ContextView";
+import ContextManager from "@/components/smart-contexts/ContextManager";
 
 export default function SmartContextPage() {
   return (
@@ -13,7 +14,12 @@ export default function SmartContextPage() {
         </div>
       </div>
 
-      <ContextView />
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <ContextView />
+        </div>
+        <ContextManager />
+      </div>
     </div>
   );
 }
@@ -1,10 +1,17 @@
 // app/dashboard/layout.tsx
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Suspense } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { supabase } from "@/lib/supabase";
+import { useRepositories } from "@/lib/repositories/context";
+import { ActiveWorkspaceProvider } from "@/components/workspaces/ActiveWorkspaceContext";
+import WorkspaceSwitcher from "@/components/workspaces/WorkspaceSwitcher";
+import SavedViewsNav from "@/components/views/SavedViewsNav";
+import GlobalSearch from "@/components/search/GlobalSearch";
+import { ShortcutsProvider } from "@/components/shortcuts/ShortcutsContext";
+import GlobalShortcuts from "@/components/shortcuts/GlobalShortcuts";
 
 // Icons (using simple SVG for example)
 const HomeIcon = () => (
@@ -41,6 +48,57 @@ const TasksIcon = () => (
   </svg>
 );
 
+const FocusIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-6 w-6"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M13 10V3L4 14h7v7l9-11h-7z"
+    />
+  </svg>
+);
+
+const PlannerIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-6 w-6"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+    />
+  </svg>
+);
+
+const CalendarIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-6 w-6"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+    />
+  </svg>
+);
+
 const AnalyticsIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -111,28 +169,20 @@ export default function DashboardLayout({
 }) {
   const [username, setUsername] = useState<string | null>(null);
   const pathname = usePathname();
+  const { profiles } = useRepositories();
 
   useEffect(() => {
     const getUser = async () => {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (user) {
-        const { data } = await supabase
-          .from("profiles")
-          .select("username")
-          .eq("id", user.id)
-          .single();
-
-        if (data) {
-          setUsername(data.username);
-        }
+      try {
+        const profile = await profiles.getCurrent();
+        setUsername(profile.username);
+      } catch (err) {
+        console.error("Error fetching profile:", err);
       }
     };
 
     getUser();
-  }, []);
+  }, [profiles]);
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
@@ -142,72 +192,87 @@ export default function DashboardLayout({
   const navigation: NavItem[] = [
     { name: "Dashboard", href: "/dashboard", icon: HomeIcon },
     { name: "Tasks", href: "/dashboard/tasks", icon: TasksIcon },
+    { name: "Smart Focus", href: "/dashboard/focus", icon: FocusIcon },
+    { name: "Today's Plan", href: "/dashboard/planner", icon: PlannerIcon },
+    { name: "Calendar", href: "/dashboard/calendar", icon: CalendarIcon },
     { name: "Analytics", href: "/dashboard/analytics", icon: AnalyticsIcon },
     { name: "Workspaces", href: "/dashboard/workspaces", icon: WorkspacesIcon },
     { name: "Settings", href: "/dashboard/settings", icon: SettingsIcon },
   ];
 
   return (
-    <div className="h-screen flex overflow-hidden bg-gray-100">
-      {/* Sidebar */}
-      <div className="hidden md:flex md:flex-shrink-0">
-        <div className="flex flex-col w-64">
-          <div className="flex flex-col h-0 flex-1 bg-indigo-800">
-            <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
-              <div className="flex items-center flex-shrink-0 px-4">
-                <h1 className="text-white text-2xl font-bold">TaskFlow</h1>
-              </div>
-              <nav className="mt-8 flex-1 px-2 space-y-1">
-                {navigation.map((item) => {
-                  const isActive = pathname === item.href;
-                  return (
-                    <Link
-                      key={item.name}
-                      href={item.href}
-                      className={`group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
-                        isActive
-                          ? "bg-indigo-900 text-white"
-                          : "text-indigo-100 hover:bg-indigo-700"
-                      }`}
-                    >
-                      <item.icon />
-                      <span className="ml-3">{item.name}</span>
-                    </Link>
-                  );
-                })}
-              </nav>
-            </div>
-            <div className="flex-shrink-0 flex border-t border-indigo-700 p-4">
-              <div className="flex-shrink-0 w-full group block">
-                <div className="flex items-center">
-                  <div className="ml-3">
-                    <p className="text-sm font-medium text-white">
-                      {username || "User"}
-                    </p>
-                    <button
-                      onClick={handleSignOut}
-                      className="text-xs font-medium text-indigo-200 group-hover:text-white"
-                    >
-                      Sign out
-                    </button>
+    <ActiveWorkspaceProvider>
+      <ShortcutsProvider>
+        <div className="h-screen flex overflow-hidden bg-gray-100">
+          {/* Sidebar */}
+          <div className="hidden md:flex md:flex-shrink-0">
+            <div className="flex flex-col w-64">
+              <div className="flex flex-col h-0 flex-1 bg-indigo-800">
+                <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
+                  <div className="flex items-center flex-shrink-0 px-4">
+                    <h1 className="text-white text-2xl font-bold">TaskFlow</h1>
+                  </div>
+                  <WorkspaceSwitcher />
+                  <nav className="mt-8 flex-1 px-2 space-y-1">
+                    {navigation.map((item) => {
+                      const isActive = pathname === item.href;
+                      return (
+                        <Link
+                          key={item.name}
+                          href={item.href}
+                          className={`group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
+                            isActive
+                              ? "bg-indigo-900 text-white"
+                              : "text-indigo-100 hover:bg-indigo-700"
+                          }`}
+                        >
+                          <item.icon />
+                          <span className="ml-3">{item.name}</span>
+                        </Link>
+                      );
+                    })}
+                  </nav>
+                  <Suspense>
+                    <SavedViewsNav />
+                  </Suspense>
+                </div>
+                <div className="flex-shrink-0 flex border-t border-indigo-700 p-4">
+                  <div className="flex-shrink-0 w-full group block">
+                    <div className="flex items-center">
+                      <div className="ml-3">
+                        <p className="text-sm font-medium text-white">
+                          {username || "User"}
+                        </p>
+                        <button
+                          onClick={handleSignOut}
+                          className="text-xs font-medium text-indigo-200 group-hover:text-white"
+                        >
+                          Sign out
+                        </button>
+                      </div>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
-      </div>
-
-      {/* Main content */}
-      <div className="flex flex-col w-0 flex-1 overflow-hidden">
-        <main className="flex-1 relative z-0 overflow-y-auto focus:outline-none">
-          <div className="py-6">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
-              {children}
+
+          {/* Main content */}
+          <div className="flex flex-col w-0 flex-1 overflow-hidden">
+            <div className="relative z-10 flex-shrink-0 flex h-16 items-center bg-white shadow px-4 sm:px-6 md:px-8">
+              <GlobalSearch />
             </div>
+            <main className="flex-1 relative z-0 overflow-y-auto focus:outline-none">
+              <div className="py-6">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+                  {children}
+                </div>
+              </div>
+            </main>
           </div>
-        </main>
-      </div>
-    </div>
+        </div>
+        <GlobalShortcuts routes={navigation} />
+      </ShortcutsProvider>
+    </ActiveWorkspaceProvider>
   );
 }
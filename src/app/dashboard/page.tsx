@@ -1,31 +1,53 @@
 // app/dashboard/page.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import type { Task } from "@/lib/supabase";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import QuickAddBar from "@/components/tasks/QuickAddBar";
+import { can } from "@/lib/permissions";
+import { addDays, dueDay, todayIn } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import { isAtRisk, taskRisk, typicalCompletionTime } from "@/lib/task-risk";
 
 // Simple dashboard components
 const TaskCountCard = ({
   title,
   count,
   color,
+  href,
 }: {
   title: string;
   count: number;
   color: string;
-}) => (
-  <div
-    className={`bg-white overflow-hidden shadow rounded-lg border-l-4 ${color}`}
-  >
-    <div className="px-4 py-5 sm:p-6">
-      <dl>
-        <dt className="text-sm font-medium text-gray-500 truncate">{title}</dt>
-        <dd className="mt-1 text-3xl font-semibold text-gray-900">{count}</dd>
-      </dl>
+  // Where the counted tasks are listed
+  href?: string;
+}) => {
+  const card = (
+    <div
+      className={`bg-white overflow-hidden shadow rounded-lg border-l-4 ${color}`}
+    >
+      <div className="px-4 py-5 sm:p-6">
+        <dl>
+          <dt className="text-sm font-medium text-gray-500 truncate">
+            {title}
+          </dt>
+          <dd className="mt-1 text-3xl font-semibold text-gray-900">{count}</dd>
+        </dl>
+      </div>
     </div>
-  </div>
-);
+  );
+
+  return href ? (
+    <Link href={href} className="block hover:opacity-90">
+      {card}
+    </Link>
+  ) : (
+    card
+  );
+};
 
 export default function DashboardPage() {
   const [stats, setStats] = useState({
@@ -34,82 +56,85 @@ export default function DashboardPage() {
     inProgressTasks: 0,
     completedTasks: 0,
     upcomingDueTasks: 0,
+    atRiskTasks: 0,
   });
   const [loading, setLoading] = useState(true);
   const [recentTasks, setRecentTasks] = useState<Task[]>([]);
   const [username, setUsername] = useState("");
   const [currentTime, setCurrentTime] = useState(new Date());
+  const { activeWorkspaceId, roleFor } = useActiveWorkspace();
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
 
-  const fetchDashboardData = async () => {
-    setLoading(true);
-
-    try {
-      // Get user details
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (user) {
-        const { data: profileData } = await supabase
-          .from("profiles")
-          .select("username")
-          .eq("id", user.id)
-          .single();
-
-        if (profileData) {
-          setUsername(profileData.username);
-        }
-      }
+  // Refreshes after a quick add keep the page (and the input) in place
+  const fetchDashboardData = useCallback(
+    async (showSpinner = true) => {
+      if (showSpinner) setLoading(true);
 
-      // Get task counts
-      const { data: tasksData, error: tasksError } = await supabase
-        .from("tasks")
-        .select("*");
-
-      if (tasksError) throw tasksError;
-
-      // Calculate stats
-      const now = new Date();
-      const upcoming = new Date();
-      upcoming.setDate(now.getDate() + 7); // Next 7 days
-
-      const stats = {
-        totalTasks: tasksData.length,
-        pendingTasks: tasksData.filter((t) => t.status === "pending").length,
-        inProgressTasks: tasksData.filter((t) => t.status === "in_progress")
-          .length,
-        completedTasks: tasksData.filter((t) => t.status === "completed")
-          .length,
-        upcomingDueTasks: tasksData.filter((t) => {
-          if (!t.due_date) return false;
-          const dueDate = new Date(t.due_date);
-          return (
-            dueDate > now && dueDate <= upcoming && t.status !== "completed"
-          );
-        }).length,
-      };
-
-      setStats(stats);
-
-      // Get recent tasks
-      const { data: recentTasksData, error: recentError } = await supabase
-        .from("tasks")
-        .select("*")
-        .order("created_at", { ascending: false })
-        .limit(5);
-
-      if (recentError) throw recentError;
-      setRecentTasks(recentTasksData);
-    } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+      try {
+        // Get user details and task counts
+        const [profile, tasksData, activities] = await Promise.all([
+          repositories.profiles.getCurrent(),
+          repositories.tasks.list({ workspaceId: activeWorkspaceId }),
+          repositories.activities.list({ workspaceId: activeWorkspaceId }),
+        ]);
+
+        setUsername(profile.username);
+
+        // Calculate stats; "upcoming" is today and the next 7 days in the
+        // user's timezone
+        const today = todayIn(timeZone);
+        const upcoming = addDays(today, 7);
+        const riskEnv = {
+          now: new Date(),
+          timeZone,
+          completionTime: typicalCompletionTime(activities, profile.id),
+        };
+
+        const stats = {
+          totalTasks: tasksData.length,
+          pendingTasks: tasksData.filter((t) => t.status === "pending").length,
+          inProgressTasks: tasksData.filter((t) => t.status === "in_progress")
+            .length,
+          completedTasks: tasksData.filter((t) => t.status === "completed")
+            .length,
+          upcomingDueTasks: tasksData.filter((t) => {
+            const day = dueDay(t, timeZone);
+            return (
+              !!day &&
+              day >= today &&
+              day <= upcoming &&
+              t.status !== "completed"
+            );
+          }).length,
+          // Overdue ones included, whenever they were due
+          atRiskTasks: tasksData.filter((t) => isAtRisk(taskRisk(t, riskEnv)))
+            .length,
+        };
+
+        setStats(stats);
+
+        // Get recent tasks
+        setRecentTasks(
+          await repositories.tasks.list({
+            workspaceId: activeWorkspaceId,
+            limit: 5,
+          })
+        );
+      } catch (error) {
+        console.error("Error fetching dashboard data:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [activeWorkspaceId, timeZone, repositories]
+  );
 
   useEffect(() => {
     fetchDashboardData();
+  }, [fetchDashboardData]);
 
+  useEffect(() => {
     // Update time every minute
     const intervalId = setInterval(() => {
       setCurrentTime(new Date());
@@ -168,7 +193,16 @@ export default function DashboardPage() {
         <p className="text-gray-500">{formattedDate}</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+      {can(roleFor(activeWorkspaceId), "tasks.create") && (
+        <div className="bg-white shadow rounded-lg p-4 mb-8">
+          <QuickAddBar
+            workspaceId={activeWorkspaceId ?? undefined}
+            onCreated={() => fetchDashboardData(false)}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-8">
         <TaskCountCard
           title="Total Tasks"
           count={stats.totalTasks}
@@ -189,6 +223,12 @@ export default function DashboardPage() {
           count={stats.completedTasks}
           color="border-green-500"
         />
+        <TaskCountCard
+          title="At Risk"
+          count={stats.atRiskTasks}
+          color="border-red-500"
+          href="/dashboard/tasks?risk=1&sort=risk"
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
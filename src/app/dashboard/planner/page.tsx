@@ -0,0 +1,21 @@
+// app/dashboard/planner/page.tsx
+import DailyPlanner from "@/components/planner/DailyPlanner";
+
+export default function PlannerPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Today&apos;s Plan
+          </h1>
+          <p className="text-gray-600">
+            Your open tasks, time-blocked into the rest of your work day.
+          </p>
+        </div>
+      </div>
+
+      <DailyPlanner />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // app/dashboard/settings/page.tsx
 import ProfileSettings from '@/components/settings/ProfileSettings';
 import ProductivitySettings from '@/components/settings/ProductivitySettings';
+import ShortcutSettings from '@/components/settings/ShortcutSettings';
 
 export default function SettingsPage() {
   return (
@@ -10,6 +11,7 @@ export default function SettingsPage() {
       <div className="space-y-6">
         <ProfileSettings />
         <ProductivitySettings />
+        <ShortcutSettings />
       </div>
     </div>
   );
@@ -1,6 +1,8 @@
 // app/dashboard/tasks/page.tsx
-import TaskList from "@/components/tasks/TaskList";
+import { Suspense } from "react";
+import RoutedTaskList from "@/components/tasks/RoutedTaskList";
 import CategoryManager from "@/components/categories/CategoryManager";
+import TagManager from "@/components/tags/TagManager";
 
 export default function TasksPage() {
   return (
@@ -9,10 +11,14 @@ export default function TasksPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
-          <TaskList />
+          {/* Filters live in the query string */}
+          <Suspense>
+            <RoutedTaskList />
+          </Suspense>
         </div>
-        <div>
+        <div className="space-y-6">
           <CategoryManager />
+          <TagManager />
         </div>
       </div>
     </div>
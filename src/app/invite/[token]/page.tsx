@@ -0,0 +1,24 @@
+// app/invite/[token]/page.tsx
+import InvitationResponse from "@/components/invitations/InvitationResponse";
+
+export default async function InvitePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center py-12 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h1 className="text-center text-3xl font-extrabold text-gray-900">
+          TaskFlow
+        </h1>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <InvitationResponse token={token} />
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 // components/analytics/CategoryBreakdown.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
 import {
   PieChart,
   Pie,
@@ -22,29 +24,19 @@ export default function CategoryBreakdown() {
   const [data, setData] = useState<CategoryCount[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { activeWorkspaceId } = useActiveWorkspace();
+  const repositories = useRepositories();
 
-  useEffect(() => {
-    fetchCategoryData();
-  }, []);
-
-  const fetchCategoryData = async () => {
+  const fetchCategoryData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // First get all categories
-      const { data: categories, error: catError } = await supabase
-        .from("categories")
-        .select("*");
-
-      if (catError) throw catError;
-
-      // Then get task counts by category
-      const { data: tasks, error: taskError } = await supabase
-        .from("tasks")
-        .select("category_id");
-
-      if (taskError) throw taskError;
+      // Get all categories and the tasks to count against them
+      const [categories, tasks] = await Promise.all([
+        repositories.categories.list(activeWorkspaceId),
+        repositories.tasks.list({ workspaceId: activeWorkspaceId }),
+      ]);
 
       // Count tasks by category
       const categoryCounts = new Map<string, number>();
@@ -78,16 +70,16 @@ export default function CategoryBreakdown() {
 
       setData(chartData);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to fetch category breakdown");
-      } else {
-        setError("Failed to fetch category breakdown");
-      }
+      setError(errorMessage(err, "Failed to fetch category breakdown"));
       console.error("Failed to fetch category breakdown:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    fetchCategoryData();
+  }, [fetchCategoryData]);
 
   if (loading) {
     return (
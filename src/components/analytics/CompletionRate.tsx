@@ -1,8 +1,10 @@
 // components/analytics/CompletionRate.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
 
 export default function CompletionRate() {
   const [stats, setStats] = useState({
@@ -13,29 +15,19 @@ export default function CompletionRate() {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { activeWorkspaceId } = useActiveWorkspace();
+  const repositories = useRepositories();
 
-  useEffect(() => {
-    fetchCompletionStats();
-  }, []);
-
-  const fetchCompletionStats = async () => {
+  const fetchCompletionStats = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Get all tasks
-      const { data: tasks, error: tasksError } = await supabase
-        .from("tasks")
-        .select("*");
-
-      if (tasksError) throw tasksError;
-
-      // Get task activities for completion time calculation
-      const { data: activities, error: activitiesError } = await supabase
-        .from("task_activities")
-        .select("*");
-
-      if (activitiesError) throw activitiesError;
+      // Get all tasks, and their activity for completion time calculation
+      const [tasks, activities] = await Promise.all([
+        repositories.tasks.list({ workspaceId: activeWorkspaceId }),
+        repositories.activities.list({ workspaceId: activeWorkspaceId }),
+      ]);
 
       // Calculate completion stats
       const totalTasks = tasks.length;
@@ -88,13 +80,17 @@ export default function CompletionRate() {
         completionRate,
         averageCompletionTime,
       });
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Error fetching completion stats:", err);
-      setError(err.message || "Failed to fetch completion statistics");
+      setError(errorMessage(err, "Failed to fetch completion statistics"));
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    fetchCompletionStats();
+  }, [fetchCompletionStats]);
 
   if (loading) {
     return (
@@ -2,7 +2,11 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { supabase } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { addDays, dayIn, startOfDayIn, todayIn } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
 import {
   BarChart,
   Bar,
@@ -25,46 +29,33 @@ export default function ProductivityChart() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeframe, setTimeframe] = useState<"week" | "month">("week");
+  const { activeWorkspaceId } = useActiveWorkspace();
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
 
   const fetchProductivityData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Get current date
+      // Days run midnight to midnight in the user's timezone
       const now = new Date();
-      const startDate = new Date();
-
-      // Calculate start date based on timeframe
-      if (timeframe === "week") {
-        startDate.setDate(now.getDate() - 7);
-      } else {
-        startDate.setDate(now.getDate() - 30);
-      }
-
-      // Format dates for Supabase query
-      const startDateStr = startDate.toISOString();
-      const endDateStr = now.toISOString();
-
-      // Get created tasks
-      const { data: createdTasks, error: createdError } = await supabase
-        .from("task_activities")
-        .select("*")
-        .eq("activity_type", "create")
-        .gte("created_at", startDateStr)
-        .lte("created_at", endDateStr);
-
-      if (createdError) throw createdError;
-
-      // Get completed tasks
-      const { data: completedTasks, error: completedError } = await supabase
-        .from("task_activities")
-        .select("*")
-        .eq("activity_type", "complete")
-        .gte("created_at", startDateStr)
-        .lte("created_at", endDateStr);
-
-      if (completedError) throw completedError;
+      const today = todayIn(timeZone, now);
+      const firstDay = addDays(today, timeframe === "week" ? -7 : -30);
+
+      const activitiesInRange = (type: "create" | "complete") =>
+        repositories.activities.list({
+          workspaceId: activeWorkspaceId,
+          type,
+          from: startOfDayIn(firstDay, timeZone).toISOString(),
+          to: now.toISOString(),
+        });
+
+      // Get created and completed tasks
+      const [createdTasks, completedTasks] = await Promise.all([
+        activitiesInRange("create"),
+        activitiesInRange("complete"),
+      ]);
 
       // Process data for chart
       const productivityByDay = new Map<
@@ -73,16 +64,13 @@ export default function ProductivityChart() {
       >();
 
       // Initialize dates in range
-      const currentDate = new Date(startDate);
-      while (currentDate <= now) {
-        const dateKey = currentDate.toISOString().split("T")[0];
-        productivityByDay.set(dateKey, { created: 0, completed: 0 });
-        currentDate.setDate(currentDate.getDate() + 1);
+      for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+        productivityByDay.set(day, { created: 0, completed: 0 });
       }
 
       // Count created tasks
-      createdTasks?.forEach((task) => {
-        const dateKey = new Date(task.created_at).toISOString().split("T")[0];
+      createdTasks.forEach((task) => {
+        const dateKey = dayIn(new Date(task.created_at), timeZone);
         if (productivityByDay.has(dateKey)) {
           const dayData = productivityByDay.get(dateKey)!;
           productivityByDay.set(dateKey, {
@@ -93,8 +81,8 @@ export default function ProductivityChart() {
       });
 
       // Count completed tasks
-      completedTasks?.forEach((task) => {
-        const dateKey = new Date(task.created_at).toISOString().split("T")[0];
+      completedTasks.forEach((task) => {
+        const dateKey = dayIn(new Date(task.created_at), timeZone);
         if (productivityByDay.has(dateKey)) {
           const dayData = productivityByDay.get(dateKey)!;
           productivityByDay.set(dateKey, {
@@ -108,25 +96,22 @@ export default function ProductivityChart() {
       const chartData: ProductivityData[] = Array.from(
         productivityByDay.entries()
       )
+        // Sort on the date itself; labels don't sort across months
+        .sort(([a], [b]) => a.localeCompare(b))
         .map(([day, counts]) => ({
           day: formatDate(day),
           created: counts.created,
           completed: counts.completed,
-        }))
-        .sort((a, b) => a.day.localeCompare(b.day));
+        }));
 
       setData(chartData);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to fetch productivity data");
-      } else {
-        setError("Failed to fetch productivity data");
-      }
+      setError(errorMessage(err, "Failed to fetch productivity data"));
       console.error("Error fetching productivity data:", err);
     } finally {
       setLoading(false);
     }
-  }, [timeframe]); // Include timeframe as a dependency here
+  }, [timeframe, activeWorkspaceId, timeZone, repositories]); // Refetch when the timeframe, workspace or timezone changes
 
   useEffect(() => {
     fetchProductivityData();
@@ -134,10 +119,11 @@ export default function ProductivityChart() {
 
   // Format date as "Apr 7" or "Apr 07"
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
+    const date = new Date(`${dateStr}T00:00:00Z`);
     return date.toLocaleDateString("en-US", {
       month: "short",
       day: "2-digit",
+      timeZone: "UTC",
     });
   };
 
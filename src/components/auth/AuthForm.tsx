@@ -3,18 +3,31 @@
 
 import { useState } from "react";
 import { supabase } from "@/lib/supabase";
-import { useRouter } from "next/navigation";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useRouter, useSearchParams } from "next/navigation";
 
 type AuthMode = "signin" | "signup";
 
+// Only follow same-origin paths, e.g. an /invite/<token> link. Browsers read
+// backslashes as slashes and drop tabs and newlines, so "/\evil.com" or
+// "/\t/evil.com" would leave the site like "//evil.com" does.
+const safeRedirect = (path: string | null) =>
+  path && /^\/(?!\/)[^\\\x00-\x1f\x7f]*$/.test(path) ? path : "/dashboard";
+
 export default function AuthForm() {
-  const [email, setEmail] = useState("");
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState(searchParams.get("email") || "");
   const [password, setPassword] = useState("");
   const [username, setUsername] = useState("");
-  const [mode, setMode] = useState<AuthMode>("signin");
+  const [mode, setMode] = useState<AuthMode>(
+    searchParams.get("mode") === "signup" ? "signup" : "signin"
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { profiles } = useRepositories();
+  const redirectTo = safeRedirect(searchParams.get("redirectTo"));
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,23 +49,9 @@ export default function AuthForm() {
 
         if (signUpError) throw signUpError;
 
-        // Create profile
+        // Create profile with the default productivity settings
         if (data.user) {
-          const { error: profileError } = await supabase
-            .from("profiles")
-            .insert([
-              {
-                id: data.user.id,
-                username,
-                productivity_settings: {
-                  peak_hours: ["09:00", "14:00"],
-                  work_days: [1, 2, 3, 4, 5], // Monday to Friday
-                  focus_duration: 25, // Minutes
-                },
-              },
-            ]);
-
-          if (profileError) throw profileError;
+          await profiles.create({ id: data.user.id, username });
         }
       } else {
         // Sign in
@@ -65,14 +64,10 @@ export default function AuthForm() {
       }
 
       // Refresh the page to update auth state
-      router.push("/dashboard");
+      router.push(redirectTo);
       router.refresh();
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        setError(error.message || "An error occurred during authentication");
-      } else {
-        setError("An error occurred during authentication");
-      }
+      setError(errorMessage(error, "An error occurred during authentication"));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,339 @@
+// components/calendar/TaskCalendar.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage, type TaskWithCategory } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { can, canOnTask } from "@/lib/permissions";
+import {
+  isWorkDay,
+  reschedule,
+  shiftAnchor,
+  visibleDays,
+  type CalendarMode,
+} from "@/lib/calendar";
+import { dueDateBounds, dueDay, todayIn } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import TaskForm from "@/components/tasks/TaskForm";
+
+// Tasks shown per day in the month view before "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const PRIORITY_BORDERS = {
+  low: "border-green-500",
+  medium: "border-yellow-500",
+  high: "border-red-600",
+};
+
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+
+const formatTime = (dueDate: string, timeZone: string) =>
+  new Date(dueDate).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+
+export default function TaskCalendar() {
+  const { activeWorkspaceId, roleFor, userId } = useActiveWorkspace();
+  const role = roleFor(activeWorkspaceId);
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(() => todayIn(timeZone));
+  const [tasks, setTasks] = useState<TaskWithCategory[]>([]);
+  const [workDays, setWorkDays] = useState<number[] | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  // Task being created or edited in the form; null while the form is closed
+  const [formTask, setFormTask] = useState<Partial<TaskWithCategory> | null>(
+    null
+  );
+
+  const days = visibleDays(anchor, mode);
+  const firstDay = days[0];
+  const lastDay = days[days.length - 1];
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      setTasks(
+        await repositories.tasks.list({
+          workspaceId: activeWorkspaceId,
+          ...dueDateBounds(firstDay, lastDay, timeZone),
+          orderBy: "title",
+          ascending: true,
+        })
+      );
+      setError(null);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error fetching tasks"));
+    } finally {
+      setLoading(false);
+    }
+  }, [activeWorkspaceId, firstDay, lastDay, timeZone, repositories]);
+
+  useEffect(() => {
+    fetchTasks();
+
+    return repositories.tasks.subscribe(activeWorkspaceId, () => {
+      fetchTasks();
+    });
+  }, [fetchTasks, activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    const fetchWorkDays = async () => {
+      try {
+        const profile = await repositories.profiles.getCurrent();
+        setWorkDays(profile.productivity_settings?.work_days);
+      } catch (err) {
+        console.error("Error fetching work days:", err);
+      }
+    };
+
+    fetchWorkDays();
+  }, [repositories]);
+
+  const handleDrop = async (day: string) => {
+    const task = tasks.find((t) => t.id === draggedId);
+    setDraggedId(null);
+    setDropDay(null);
+
+    if (!task?.due_date || dueDay(task, timeZone) === day) return;
+
+    const due = reschedule(task, day, timeZone);
+
+    // Move the task right away; the realtime refresh confirms it
+    setTasks((prev) =>
+      prev.map((t) => (t.id === task.id ? { ...t, ...due } : t))
+    );
+
+    try {
+      await repositories.tasks.update(task.id, due);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error rescheduling task"));
+      fetchTasks();
+    }
+  };
+
+  const tasksOn = (day: string) =>
+    tasks.filter((task) => dueDay(task, timeZone) === day);
+
+  if (formTask) {
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-medium text-gray-900">
+            {formTask.id ? "Edit Task" : "Create New Task"}
+          </h2>
+        </div>
+        <TaskForm
+          initialTask={formTask}
+          workspaceId={activeWorkspaceId ?? undefined}
+          onSuccess={() => {
+            setFormTask(null);
+            fetchTasks();
+          }}
+          onCancel={() => setFormTask(null)}
+        />
+      </div>
+    );
+  }
+
+  const month = anchor.slice(0, 7);
+  const heading =
+    mode === "month"
+      ? formatDay(anchor, { month: "long", year: "numeric" })
+      : `${formatDay(firstDay, {
+          month: "short",
+          day: "numeric",
+        })} – ${formatDay(lastDay, {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        })}`;
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-4 p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setAnchor(shiftAnchor(anchor, mode, -1))}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            aria-label={`Previous ${mode}`}
+          >
+            ‹
+          </button>
+          <button
+            onClick={() => setAnchor(todayIn(timeZone))}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setAnchor(shiftAnchor(anchor, mode, 1))}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            aria-label={`Next ${mode}`}
+          >
+            ›
+          </button>
+          <h2 className="ml-2 text-xl font-medium text-gray-900">{heading}</h2>
+        </div>
+        <div className="flex rounded-md shadow-sm">
+          {(["month", "week"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+              className={`px-3 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                mode === option
+                  ? "bg-indigo-50 text-indigo-700"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {option === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-red-50 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="spinner"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading calendar...</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 border-l border-t border-gray-200">
+          {WEEKDAY_LABELS.map((label) => (
+            <div
+              key={label}
+              className="px-2 py-1 text-xs font-medium text-gray-500 border-r border-b border-gray-200 bg-gray-50"
+            >
+              {label}
+            </div>
+          ))}
+
+          {days.map((day) => {
+            const dayTasks = tasksOn(day);
+            const shown =
+              mode === "month" ? dayTasks.slice(0, MONTH_CELL_LIMIT) : dayTasks;
+            const hidden = dayTasks.length - shown.length;
+
+            return (
+              <div
+                key={day}
+                onClick={() => {
+                  if (can(role, "tasks.create")) {
+                    setFormTask({
+                      due_date: new Date(`${day}T00:00:00Z`).toISOString(),
+                    });
+                  }
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  if (dropDay !== day) setDropDay(day);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(day);
+                }}
+                title={
+                  can(role, "tasks.create") ? "Click to add a task" : undefined
+                }
+                className={`p-1 border-r border-b border-gray-200 ${
+                  mode === "month" ? "min-h-[6.5rem]" : "min-h-[24rem]"
+                } ${
+                  dropDay === day && draggedId
+                    ? "bg-indigo-50"
+                    : isWorkDay(day, workDays)
+                    ? "bg-white"
+                    : "bg-gray-100"
+                } ${can(role, "tasks.create") ? "cursor-pointer" : ""}`}
+              >
+                <div
+                  className={`mb-1 text-xs ${
+                    day === todayIn(timeZone)
+                      ? "inline-flex h-5 w-5 items-center justify-center rounded-full bg-indigo-600 text-white"
+                      : mode === "month" && !day.startsWith(month)
+                      ? "text-gray-400"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {Number(day.slice(8))}
+                </div>
+                <ul className="space-y-1">
+                  {shown.map((task) => (
+                    <li key={task.id}>
+                      <button
+                        draggable={canOnTask(
+                          role,
+                          "tasks.update",
+                          task,
+                          userId
+                        )}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", task.id);
+                          setDraggedId(task.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggedId(null);
+                          setDropDay(null);
+                        }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (canOnTask(role, "tasks.update", task, userId)) {
+                            setFormTask(task);
+                          }
+                        }}
+                        title={task.title}
+                        className={`block w-full truncate rounded border-l-4 bg-gray-50 px-1.5 py-0.5 text-left text-xs hover:bg-gray-100 ${
+                          PRIORITY_BORDERS[task.priority]
+                        } ${
+                          task.status === "completed"
+                            ? "line-through text-gray-400"
+                            : "text-gray-800"
+                        } ${task.id === draggedId ? "opacity-50" : ""}`}
+                      >
+                        {task.due_date && task.has_due_time && (
+                          <span className="mr-1 text-gray-500">
+                            {formatTime(task.due_date, timeZone)}
+                          </span>
+                        )}
+                        {task.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {hidden > 0 && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setMode("week");
+                      setAnchor(day);
+                    }}
+                    className="mt-1 text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    +{hidden} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 // components/categories/CategoryManager.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
 import type { Category } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { can } from "@/lib/permissions";
+import { COLOR_OPTIONS } from "@/lib/colors";
 
 export default function CategoryManager() {
+  const { activeWorkspaceId, activeRole } = useActiveWorkspace();
+  const canManage = can(activeRole, "categories.manage");
+  const repositories = useRepositories();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -18,49 +25,27 @@ export default function CategoryManager() {
   const [formError, setFormError] = useState<string | null>(null);
   const [formLoading, setFormLoading] = useState(false);
 
-  const fetchCategories = async () => {
+  const fetchCategories = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const { data, error } = await supabase
-        .from("categories")
-        .select("*")
-        .order("name");
-
-      if (error) throw error;
-
-      setCategories(data || []);
+      setCategories(await repositories.categories.list(activeWorkspaceId));
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to fetch categories");
-      } else {
-        setError("Failed to fetch categories");
-      }
+      setError(errorMessage(err, "Failed to fetch categories"));
       console.error("Error fetching categories:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeWorkspaceId, repositories]);
 
   useEffect(() => {
     fetchCategories();
 
     // Setup real-time subscription
-    const subscription = supabase
-      .channel("categories-changes")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "categories" },
-        () => {
-          fetchCategories();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
+    return repositories.categories.subscribe(() => {
+      fetchCategories();
+    });
+  }, [fetchCategories, repositories]);
 
   const openForm = (category?: Category) => {
     if (category) {
@@ -90,30 +75,24 @@ export default function CategoryManager() {
     try {
       if (editingCategory) {
         // Update existing category
-        const { error } = await supabase
-          .from("categories")
-          .update({ name, color })
-          .eq("id", editingCategory.id);
-
-        if (error) throw error;
+        await repositories.categories.update(editingCategory.id, {
+          name,
+          color,
+        });
       } else {
         // Create new category
-        const { error } = await supabase
-          .from("categories")
-          .insert([{ name, color }]);
-
-        if (error) throw error;
+        await repositories.categories.create({
+          name,
+          color,
+          workspace_id: activeWorkspaceId,
+        });
       }
 
       closeForm();
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setFormError(
-          err.message || "An error occurred while saving the category"
-        );
-      } else {
-        setFormError("An error occurred while saving the category");
-      }
+      setFormError(
+        errorMessage(err, "An error occurred while saving the category")
+      );
     } finally {
       setFormLoading(false);
     }
@@ -125,20 +104,14 @@ export default function CategoryManager() {
     }
 
     try {
-      const { error } = await supabase
-        .from("categories")
-        .delete()
-        .eq("id", categoryId);
-
-      if (error) throw error;
+      await repositories.categories.remove(categoryId);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        alert(
-          err.message || "Failed to delete category. It may be in use by tasks."
-        );
-      } else {
-        alert("Failed to delete category. It may be in use by tasks.");
-      }
+      alert(
+        errorMessage(
+          err,
+          "Failed to delete category. It may be in use by tasks."
+        )
+      );
       console.error(
         "Failed to delete category. It may be in use by tasks",
         err
@@ -146,17 +119,6 @@ export default function CategoryManager() {
     }
   };
 
-  const colorOptions = [
-    { name: "Blue", value: "#3B82F6" },
-    { name: "Red", value: "#EF4444" },
-    { name: "Green", value: "#10B981" },
-    { name: "Yellow", value: "#F59E0B" },
-    { name: "Purple", value: "#8B5CF6" },
-    { name: "Pink", value: "#EC4899" },
-    { name: "Indigo", value: "#6366F1" },
-    { name: "Gray", value: "#6B7280" },
-  ];
-
   // Render the form when open
   if (isFormOpen) {
     return (
@@ -190,7 +152,7 @@ export default function CategoryManager() {
               Color
             </label>
             <div className="mt-2 grid grid-cols-4 gap-2">
-              {colorOptions.map((option) => (
+              {COLOR_OPTIONS.map((option) => (
                 <button
                   key={option.value}
                   type="button"
@@ -244,12 +206,14 @@ export default function CategoryManager() {
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="flex justify-between items-center p-6 border-b border-gray-200">
         <h2 className="text-xl font-medium text-gray-900">Categories</h2>
-        <button
-          onClick={() => openForm()}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          Add Category
-        </button>
+        {canManage && (
+          <button
+            onClick={() => openForm()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Add Category
+          </button>
+        )}
       </div>
 
       {loading ? (
@@ -289,20 +253,22 @@ export default function CategoryManager() {
                   {category.name}
                 </span>
               </div>
-              <div className="flex space-x-2">
-                <button
-                  onClick={() => openForm(category)}
-                  className="text-sm text-gray-600 hover:text-gray-900"
-                >
-                  Edit
-                </button>
-                <button
-                  onClick={() => handleDelete(category.id)}
-                  className="text-sm text-red-600 hover:text-red-900"
-                >
-                  Delete
-                </button>
-              </div>
+              {canManage && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => openForm(category)}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(category.id)}
+                    className="text-sm text-red-600 hover:text-red-900"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
             </li>
           ))}
         </ul>
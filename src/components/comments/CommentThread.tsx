@@ -0,0 +1,331 @@
+// components/comments/CommentThread.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage, type CommentWithAuthor } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useTimeZone } from "@/lib/use-time-zone";
+import MemberAvatar from "@/components/workspaces/MemberAvatar";
+import Markdown from "./Markdown";
+
+interface CommentThreadProps {
+  taskId: string;
+  // Viewers of a shared workspace can read the discussion but not join it
+  canComment: boolean;
+}
+
+interface CommentComposerProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const UNKNOWN_AUTHOR = { username: "?" };
+
+function CommentComposer({
+  initialBody = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!body.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      await onSubmit(body.trim());
+      setBody("");
+    } catch {
+      // The thread shows the error; keep the text so it can be retried
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSubmit();
+          if (e.key === "Escape") onCancel?.();
+        }}
+        readOnly={saving}
+        rows={3}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        autoFocus={!!onCancel}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">
+          Markdown supported · Ctrl+Enter to send
+        </span>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!body.trim() || saving}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default function CommentThread({
+  taskId,
+  canComment,
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<CommentWithAuthor[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setComments(await repositories.comments.list(taskId));
+      setError(null);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error fetching comments"));
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId, repositories]);
+
+  useEffect(() => {
+    fetchComments();
+
+    // Comments from others show up as they're posted
+    return repositories.comments.subscribe(taskId, () => {
+      fetchComments();
+    });
+  }, [fetchComments, taskId, repositories]);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const user = await repositories.profiles.getCurrentUser();
+        setUserId(user.id);
+      } catch (err) {
+        console.error("Error fetching current user:", err);
+      }
+    };
+
+    fetchUser();
+  }, [repositories]);
+
+  // Runs `action` and reloads, rethrowing so composers keep their text
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      await fetchComments();
+    } catch (err: unknown) {
+      setError(errorMessage(err, fallback));
+      throw err;
+    }
+  };
+
+  const handleDelete = (comment: CommentWithAuthor) => {
+    if (!confirm("Delete this comment?")) return;
+
+    run(
+      () => repositories.comments.remove(comment.id),
+      "Error deleting comment"
+    ).catch(() => undefined);
+  };
+
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+    });
+
+  const repliesTo = (id: string) =>
+    comments.filter((c) => c.parent_id === id && !c.deleted_at);
+
+  // Deleted comments only stay as placeholders for their replies
+  const threads = comments.filter(
+    (c) => !c.parent_id && (!c.deleted_at || repliesTo(c.id).length > 0)
+  );
+
+  const renderComment = (comment: CommentWithAuthor) => {
+    const isOwn = comment.user_id === userId;
+
+    if (comment.deleted_at) {
+      return (
+        <p className="py-2 text-sm italic text-gray-400">
+          This comment was deleted.
+        </p>
+      );
+    }
+
+    return (
+      <div className="flex space-x-3">
+        <MemberAvatar member={comment.author || UNKNOWN_AUTHOR} size="sm" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline space-x-2 text-xs">
+            <span className="font-medium text-gray-900">
+              {comment.author?.username || "Unknown user"}
+            </span>
+            <time
+              dateTime={comment.created_at}
+              title={new Date(comment.created_at).toLocaleString()}
+              className="text-gray-500"
+            >
+              {formatTimestamp(comment.created_at)}
+            </time>
+            {comment.updated_at !== comment.created_at && (
+              <span
+                className="text-gray-400"
+                title={`Edited ${formatTimestamp(comment.updated_at)}`}
+              >
+                (edited)
+              </span>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="mt-1">
+              <CommentComposer
+                initialBody={comment.body}
+                placeholder="Edit comment"
+                submitLabel="Save"
+                onSubmit={(body) =>
+                  run(
+                    () => repositories.comments.update(comment.id, body),
+                    "Error updating comment"
+                  ).then(() => setEditingId(null))
+                }
+                onCancel={() => setEditingId(null)}
+              />
+            </div>
+          ) : (
+            <div className="mt-1">
+              <Markdown source={comment.body} />
+            </div>
+          )}
+
+          {editingId !== comment.id && (
+            <div className="mt-1 flex space-x-3 text-xs">
+              {canComment && !comment.parent_id && (
+                <button
+                  onClick={() => setReplyingTo(comment.id)}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  Reply
+                </button>
+              )}
+              {isOwn && (
+                <>
+                  <button
+                    onClick={() => setEditingId(comment.id)}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(comment)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading comments...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {threads.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {threads.map((thread) => (
+            <li key={thread.id}>
+              {renderComment(thread)}
+              {(repliesTo(thread.id).length > 0 ||
+                replyingTo === thread.id) && (
+                <ul className="mt-3 ml-9 space-y-3 border-l-2 border-gray-100 pl-3">
+                  {repliesTo(thread.id).map((reply) => (
+                    <li key={reply.id}>{renderComment(reply)}</li>
+                  ))}
+                  {replyingTo === thread.id && (
+                    <li>
+                      <CommentComposer
+                        placeholder="Write a reply"
+                        submitLabel="Reply"
+                        onSubmit={(body) =>
+                          run(
+                            () =>
+                              repositories.comments.create({
+                                task_id: taskId,
+                                parent_id: thread.id,
+                                body,
+                              }),
+                            "Error posting reply"
+                          ).then(() => setReplyingTo(null))
+                        }
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {canComment && (
+        <CommentComposer
+          placeholder="Add a comment"
+          submitLabel="Comment"
+          onSubmit={(body) =>
+            run(
+              () => repositories.comments.create({ task_id: taskId, body }),
+              "Error posting comment"
+            )
+          }
+        />
+      )}
+    </div>
+  );
+}
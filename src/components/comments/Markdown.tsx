@@ -0,0 +1,97 @@
+// components/comments/Markdown.tsx
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@/lib/markdown";
+
+interface MarkdownProps {
+  source: string;
+}
+
+function renderInline(nodes: MarkdownInline[]) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={i} />;
+      case "code":
+        return (
+          <code
+            key={i}
+            className="rounded bg-gray-100 px-1 py-0.5 font-mono text-xs"
+          >
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-indigo-600 underline hover:text-indigo-800"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]) {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case "code":
+        return (
+          <pre
+            key={i}
+            className="overflow-x-auto rounded bg-gray-100 p-2 font-mono text-xs"
+          >
+            {block.text}
+          </pre>
+        );
+      case "quote":
+        return (
+          <blockquote
+            key={i}
+            className="space-y-2 border-l-4 border-gray-200 pl-3 text-gray-600"
+          >
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List
+            key={i}
+            className={`pl-5 ${block.ordered ? "list-decimal" : "list-disc"}`}
+          >
+            {block.items.map((item, j) => (
+              <li key={j}>{renderInline(item)}</li>
+            ))}
+          </List>
+        );
+      }
+    }
+  });
+}
+
+// Renders comment Markdown (see src/lib/markdown.ts) without raw HTML
+export default function Markdown({ source }: MarkdownProps) {
+  return (
+    <div className="space-y-2 break-words text-sm text-gray-800">
+      {renderBlocks(parseMarkdown(source))}
+    </div>
+  );
+}
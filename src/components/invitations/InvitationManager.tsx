@@ -0,0 +1,156 @@
+// components/invitations/InvitationManager.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { WorkspaceInvitation } from "@/lib/supabase";
+import {
+  createInvitation,
+  fetchPendingInvitations,
+  isInvitationExpired,
+  revokeInvitation,
+} from "@/lib/invitations";
+import { errorMessage } from "@/lib/repositories";
+import { assignableRoles, type WorkspaceRole } from "@/lib/permissions";
+
+interface InvitationManagerProps {
+  workspaceId: string;
+  // Caller's role; decides which roles can be offered
+  role: WorkspaceRole;
+}
+
+export default function InvitationManager({
+  workspaceId,
+  role: callerRole,
+}: InvitationManagerProps) {
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("member");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    setLoading(true);
+    try {
+      setInvitations(await fetchPendingInvitations(workspaceId));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to fetch invitations"));
+      console.error("Failed to fetch invitations:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await createInvitation(workspaceId, email, role);
+      setSuccess(`Invitation sent to ${email}`);
+      setEmail("");
+      fetchInvitations();
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to send invitation"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to revoke invitation"));
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-base font-medium text-gray-900 mb-2">
+        Invite Members
+      </h4>
+      <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="teammate@example.com"
+          required
+          className="flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+          className="rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+        >
+          {assignableRoles(callerRole).map((option) => (
+            <option key={option} value={option}>
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={sending}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {sending ? "Sending..." : "Send Invite"}
+        </button>
+      </form>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {success && <p className="mt-2 text-sm text-green-600">{success}</p>}
+
+      <h5 className="mt-4 text-sm font-medium text-gray-700">
+        Pending Invitations
+      </h5>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading invitations...</p>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-gray-500">No pending invitations.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {invitations.map((invitation) => (
+            <li
+              key={invitation.id}
+              className="py-3 flex justify-between items-center"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {invitation.email}
+                </p>
+                <p className="text-xs text-gray-500">
+                  <span className="uppercase">{invitation.role}</span> ·{" "}
+                  {isInvitationExpired(invitation)
+                    ? "Expired"
+                    : `Expires ${new Date(
+                        invitation.expires_at
+                      ).toLocaleDateString()}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(invitation)}
+                className="text-sm text-red-600 hover:text-red-900"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
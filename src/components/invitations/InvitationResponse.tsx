@@ -0,0 +1,166 @@
+// components/invitations/InvitationResponse.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  fetchInvitationSummary,
+  isInvitationExpired,
+  respondToInvitation,
+  type InvitationSummary,
+} from "@/lib/invitations";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+
+interface InvitationResponseProps {
+  token: string;
+}
+
+export default function InvitationResponse({ token }: InvitationResponseProps) {
+  const [invitation, setInvitation] = useState<InvitationSummary | null>(null);
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [declined, setDeclined] = useState(false);
+  const router = useRouter();
+  const { profiles } = useRepositories();
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      setLoading(true);
+      try {
+        // Signed-out visitors can still see who invited them
+        const user = await profiles.getCurrentUser().catch(() => null);
+        setSignedInEmail(user?.email || null);
+
+        setInvitation(await fetchInvitationSummary(token));
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to load invitation"));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token, profiles]);
+
+  const handleResponse = async (accept: boolean) => {
+    setResponding(true);
+    setError(null);
+
+    try {
+      await respondToInvitation(token, accept);
+
+      if (accept) {
+        router.push("/dashboard/workspaces");
+      } else {
+        setDeclined(true);
+      }
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to respond to invitation"));
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="spinner"></div>
+        <p className="mt-2 text-sm text-gray-500">Loading invitation...</p>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <p className="text-center text-gray-500">
+        This invitation link is invalid.
+      </p>
+    );
+  }
+
+  const authHref = (mode: "signin" | "signup") =>
+    `/auth?${new URLSearchParams({
+      mode,
+      email: invitation.email,
+      redirectTo: `/invite/${token}`,
+    })}`;
+
+  const isOpen =
+    invitation.status === "pending" && !isInvitationExpired(invitation);
+  const emailMatches =
+    signedInEmail?.toLowerCase() === invitation.email.toLowerCase();
+
+  return (
+    <div className="w-full max-w-md mx-auto p-6 bg-white rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-2 text-center">
+        Join {invitation.workspace_name}
+      </h2>
+      <p className="text-sm text-gray-600 text-center">
+        {invitation.inviter_username || "A teammate"} invited{" "}
+        <span className="font-medium">{invitation.email}</span> to collaborate
+        as <span className="font-medium">{invitation.role}</span>.
+      </p>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="mt-6">
+        {declined ? (
+          <p className="text-center text-sm text-gray-500">
+            You declined this invitation.
+          </p>
+        ) : !isOpen ? (
+          <p className="text-center text-sm text-gray-500">
+            {invitation.status === "pending"
+              ? "This invitation has expired. Ask the workspace owner for a new one."
+              : `This invitation has already been ${invitation.status}.`}
+          </p>
+        ) : !signedInEmail ? (
+          <div className="space-y-3">
+            <Link
+              href={authHref("signup")}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Create an account to accept
+            </Link>
+            <Link
+              href={authHref("signin")}
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              I already have an account
+            </Link>
+          </div>
+        ) : !emailMatches ? (
+          <p className="text-center text-sm text-gray-500">
+            You are signed in as {signedInEmail}. Sign in as {invitation.email}{" "}
+            to respond to this invitation.
+          </p>
+        ) : (
+          <div className="flex space-x-3">
+            <button
+              onClick={() => handleResponse(false)}
+              disabled={responding}
+              className="flex-1 py-2 px-4 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => handleResponse(true)}
+              disabled={responding}
+              className="flex-1 py-2 px-4 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {responding ? "Processing..." : "Accept"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
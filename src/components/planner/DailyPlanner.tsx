@@ -0,0 +1,402 @@
+// components/planner/DailyPlanner.tsx
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import Link from "next/link";
+import type { PinnedBlock, ProductivitySettings, Task } from "@/lib/supabase";
+import {
+  DEFAULT_PRODUCTIVITY_SETTINGS,
+  errorMessage,
+  type TaskWithCategory,
+} from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { canOnTask } from "@/lib/permissions";
+import { updateTaskStatus } from "@/lib/recurring-tasks";
+import { formatDue, todayIn } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import { fromMinutes, planDay, toMinutes, type PlanBlock } from "@/lib/planner";
+
+const DAY_MINUTES = 24 * 60;
+
+export default function DailyPlanner() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Open tasks of the workspace
+  const [tasks, setTasks] = useState<TaskWithCategory[]>([]);
+  const [pins, setPins] = useState<PinnedBlock[]>([]);
+  // Pinned tasks that aren't open tasks of this workspace
+  const [otherTasks, setOtherTasks] = useState<Task[]>([]);
+  const [productivity, setProductivity] = useState<ProductivitySettings>(
+    DEFAULT_PRODUCTIVITY_SETTINGS
+  );
+  // The plan starts from when the data last changed
+  const [plannedAt, setPlannedAt] = useState(new Date());
+  const [planDayOff, setPlanDayOff] = useState(false);
+  const { activeWorkspaceId, activeRole, userId } = useActiveWorkspace();
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+  const canComplete = (task: Task) =>
+    canOnTask(activeRole, "tasks.update", task, userId);
+
+  const fetchPlan = useCallback(
+    async (showSpinner = true) => {
+      if (showSpinner) setLoading(true);
+      setError(null);
+
+      try {
+        const now = new Date();
+        const [profile, openTasks, dayPins] = await Promise.all([
+          repositories.profiles.getCurrent(),
+          repositories.tasks.list({
+            workspaceId: activeWorkspaceId,
+            excludeStatus: "completed",
+          }),
+          repositories.pinnedBlocks.list(todayIn(timeZone, now)),
+        ]);
+
+        const openIds = new Set(openTasks.map((task) => task.id));
+        setOtherTasks(
+          await repositories.tasks.getByIds(
+            dayPins
+              .map((pin) => pin.task_id)
+              .filter((taskId) => !openIds.has(taskId))
+          )
+        );
+        setTasks(openTasks);
+        setPins(dayPins);
+        setProductivity(
+          profile.productivity_settings || DEFAULT_PRODUCTIVITY_SETTINGS
+        );
+        setPlannedAt(now);
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to plan your day"));
+        console.error("Error planning the day:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [activeWorkspaceId, timeZone, repositories]
+  );
+
+  useEffect(() => {
+    fetchPlan();
+
+    // Completed, added and pinned tasks re-plan the day
+    const unsubscribeTasks = repositories.tasks.subscribe(
+      activeWorkspaceId,
+      () => fetchPlan(false)
+    );
+    const unsubscribePins = repositories.pinnedBlocks.subscribe(() =>
+      fetchPlan(false)
+    );
+
+    return () => {
+      unsubscribeTasks();
+      unsubscribePins();
+    };
+  }, [fetchPlan, activeWorkspaceId, repositories]);
+
+  const day = todayIn(timeZone, plannedAt);
+  const plan = useMemo(
+    () =>
+      planDay(tasks, pins, {
+        day,
+        now: plannedAt,
+        timeZone,
+        productivity,
+        ignoreWorkDays: planDayOff,
+      }),
+    [tasks, pins, day, plannedAt, timeZone, productivity, planDayOff]
+  );
+
+  const handleComplete = async (task: TaskWithCategory) => {
+    try {
+      await updateTaskStatus(repositories, task, "completed", {
+        prerequisites: tasks,
+      });
+      fetchPlan(false);
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to complete the task"));
+    }
+  };
+
+  const handlePin = async (block: Extract<PlanBlock, { kind: "task" }>) => {
+    try {
+      await repositories.pinnedBlocks.create({
+        task_id: block.taskId,
+        day,
+        start_time: block.start,
+        end_time: block.end,
+      });
+      fetchPlan(false);
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to pin the block"));
+    }
+  };
+
+  const handleUnpin = async (pinId: string) => {
+    try {
+      await repositories.pinnedBlocks.remove(pinId);
+      fetchPlan(false);
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to unpin the block"));
+    }
+  };
+
+  // Moves a pinned block to start at `start`, keeping its length
+  const handleMovePin = async (
+    block: Extract<PlanBlock, { kind: "pinned" }>,
+    start: string
+  ) => {
+    if (!start) return;
+
+    const end =
+      toMinutes(start) + toMinutes(block.end) - toMinutes(block.start);
+    if (end >= DAY_MINUTES) {
+      alert("The block has to end before midnight");
+      return;
+    }
+
+    try {
+      await repositories.pinnedBlocks.update(block.pinId, {
+        start_time: start,
+        end_time: fromMinutes(end),
+      });
+      fetchPlan(false);
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to move the block"));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="spinner"></div>
+        <p className="mt-2 text-sm text-gray-500">Planning your day...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-500">{error}</p>
+        <button
+          onClick={() => fetchPlan()}
+          className="mt-2 text-indigo-600 hover:text-indigo-800"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const [peakStart, peakEnd] = productivity.peak_hours || [];
+  const taskBlocks = plan.blocks.filter((block) => block.kind !== "break");
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:px-6 flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          {taskBlocks.length} {taskBlocks.length === 1 ? "block" : "blocks"} of{" "}
+          {plan.focusMinutes} minutes between {plan.start} and {plan.end}
+          {peakStart && peakEnd && (
+            <>
+              , with your most important work in your peak hours, {peakStart}–
+              {peakEnd}
+            </>
+          )}
+          .{" "}
+          <Link
+            href="/dashboard/settings"
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            Change these
+          </Link>
+        </p>
+        <button
+          onClick={() => fetchPlan()}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Re-plan now
+        </button>
+      </div>
+
+      {!plan.workDay && !planDayOff && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="flex items-center justify-between gap-4 text-sm text-yellow-800">
+            <span>
+              Today isn&apos;t one of your work days, so only pinned blocks are
+              planned.
+            </span>
+            <button
+              onClick={() => setPlanDayOff(true)}
+              className="font-medium text-yellow-900 hover:underline"
+            >
+              Plan it anyway
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {plan.blocks.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">
+              {tasks.length === 0
+                ? "No open tasks to plan. Enjoy the free time!"
+                : "No time left in today's work day."}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {plan.blocks.map((block) => {
+              if (block.kind === "break") {
+                return (
+                  <li
+                    key={`break-${block.start}`}
+                    className="px-4 py-1.5 sm:px-6 text-xs text-gray-400"
+                  >
+                    <span className="inline-block w-28">
+                      {block.start}–{block.end}
+                    </span>
+                    Break
+                  </li>
+                );
+              }
+
+              // Tasks pinned in another workspace can't be completed here
+              const openTask = tasks.find((task) => task.id === block.taskId);
+              const task =
+                openTask ||
+                otherTasks.find((other) => other.id === block.taskId);
+              if (!task) return null;
+
+              return (
+                <li
+                  key={`${block.kind}-${block.taskId}`}
+                  className={`px-4 py-4 sm:px-6 ${
+                    block.peak ? "bg-indigo-50/50" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center min-w-0">
+                      <span className="w-28 flex-shrink-0 text-sm font-medium text-gray-700">
+                        {block.start}–{block.end}
+                      </span>
+                      <div className="min-w-0">
+                        <p
+                          className={`truncate text-sm font-medium ${
+                            task.status === "completed"
+                              ? "text-gray-400 line-through"
+                              : "text-gray-900"
+                          }`}
+                        >
+                          {task.title}
+                        </p>
+                        <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded font-medium ${
+                              task.priority === "high"
+                                ? "bg-red-100 text-red-800"
+                                : task.priority === "medium"
+                                ? "bg-yellow-100 text-yellow-800"
+                                : "bg-green-100 text-green-800"
+                            }`}
+                          >
+                            {task.priority}
+                          </span>
+                          {task.due_date && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded font-medium bg-gray-100 text-gray-800">
+                              Due: {formatDue(task, timeZone)}
+                            </span>
+                          )}
+                          {block.peak && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded font-medium bg-indigo-100 text-indigo-800">
+                              Peak hours
+                            </span>
+                          )}
+                          {block.kind === "pinned" && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded font-medium bg-gray-100 text-gray-800">
+                              Pinned
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center space-x-3">
+                      {block.kind === "pinned" ? (
+                        <>
+                          <input
+                            type="time"
+                            step={300}
+                            value={block.start}
+                            onChange={(e) =>
+                              handleMovePin(block, e.target.value)
+                            }
+                            aria-label={`Start time of ${task.title}`}
+                            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                          />
+                          <button
+                            onClick={() => handleUnpin(block.pinId)}
+                            className="text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Unpin
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => handlePin(block)}
+                          title="Keep this task at this time when re-planning"
+                          className="text-sm text-gray-600 hover:text-gray-900"
+                        >
+                          Pin
+                        </button>
+                      )}
+                      {openTask && canComplete(openTask) && (
+                        <button
+                          onClick={() => handleComplete(openTask)}
+                          className="text-sm text-indigo-600 hover:text-indigo-900"
+                        >
+                          Done
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {plan.unscheduled.length > 0 && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <div className="px-4 py-5 border-b border-gray-200 sm:px-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Didn&apos;t fit today
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                ({plan.unscheduled.length}{" "}
+                {plan.unscheduled.length === 1 ? "task" : "tasks"})
+              </span>
+            </h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {plan.unscheduled.map((task) => (
+              <li
+                key={task.id}
+                className="px-4 py-3 sm:px-6 flex items-center justify-between text-sm"
+              >
+                <span className="truncate text-gray-900">{task.title}</span>
+                <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                  {formatDue(task, timeZone) || "No due date"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+// components/search/GlobalSearch.tsx
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import {
+  errorMessage,
+  type SearchResult,
+  type SearchResultKind,
+} from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { hasMatch, matchSegments } from "@/lib/search";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+
+const SEARCH_DELAY_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+const TASKS_PATH = "/dashboard/tasks";
+
+// Comments lead to their task, so they're listed with the tasks
+const GROUPS: { label: string; kinds: SearchResultKind[] }[] = [
+  { label: "Tasks", kinds: ["task", "comment"] },
+  { label: "Categories", kinds: ["category"] },
+  { label: "Workspaces", kinds: ["workspace"] },
+];
+
+// Where a result opens; the workspace goes along so the task list switches
+// to it
+function resultHref(result: SearchResult) {
+  const params = new URLSearchParams();
+
+  if (result.kind === "category") params.set("category", result.id);
+  if (result.taskId) params.set("task", result.taskId);
+  params.set("workspace", result.workspaceId || "personal");
+
+  return `${TASKS_PATH}?${params}`;
+}
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {matchSegments(text).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Search box at the top of the dashboard, listing matching tasks,
+// comments, categories and workspaces as the user types
+export default function GlobalSearch() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+  const repositories = useRepositories();
+  const { workspaces } = useActiveWorkspace();
+
+  // Typing only searches once it pauses
+  useEffect(() => {
+    const text = query.trim();
+
+    if (text.length < MIN_QUERY_LENGTH) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const found = await repositories.search.search(text);
+        if (cancelled) return;
+        setResults(found);
+        setActiveIndex(0);
+        setError(null);
+      } catch (err: unknown) {
+        if (!cancelled) setError(errorMessage(err, "Search failed"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, repositories]);
+
+  // Results in the order they're shown, which the arrow keys follow
+  const groups = useMemo(
+    () =>
+      GROUPS.map((group) => ({
+        label: group.label,
+        results: (results || []).filter((result) =>
+          group.kinds.includes(result.kind)
+        ),
+      })).filter((group) => group.results.length > 0),
+    [results]
+  );
+  const ordered = groups.flatMap((group) => group.results);
+
+  useEffect(() => {
+    document
+      .getElementById(`search-result-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const workspaceName = (workspaceId: string | null) =>
+    workspaceId
+      ? workspaces.find((w) => w.id === workspaceId)?.name
+      : "Personal";
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    setQuery("");
+    inputRef.current?.blur();
+    router.push(resultHref(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (ordered.length === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(
+          (index) =>
+            (index + (e.key === "ArrowDown" ? 1 : -1) + ordered.length) %
+            ordered.length
+        );
+        break;
+      case "Enter":
+        if (isOpen && ordered[activeIndex]) {
+          e.preventDefault();
+          openResult(ordered[activeIndex]);
+        }
+        break;
+      case "Escape":
+        if (isOpen) setIsOpen(false);
+        else inputRef.current?.blur();
+        break;
+    }
+  };
+
+  const showResults = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="relative w-full max-w-lg">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search tasks, comments, categories and workspaces"
+        aria-label="Search"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="search-results"
+        aria-autocomplete="list"
+        aria-activedescendant={
+          showResults && ordered.length > 0
+            ? `search-result-${activeIndex}`
+            : undefined
+        }
+        className="block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+
+      {showResults && (
+        <div
+          id="search-results"
+          role="listbox"
+          aria-label="Search results"
+          // Keep focus in the input so the arrow keys keep working
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-20 mt-1 w-full max-h-96 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {error ? (
+            <p className="px-4 py-2 text-sm text-red-600">{error}</p>
+          ) : results === null || (loading && ordered.length === 0) ? (
+            <p className="px-4 py-2 text-sm text-gray-500">Searching...</p>
+          ) : ordered.length === 0 ? (
+            <p className="px-4 py-2 text-sm text-gray-500">
+              Nothing matches &ldquo;{query.trim()}&rdquo;
+            </p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.label} role="group" aria-label={group.label}>
+                <h3 className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  {group.label}
+                </h3>
+                {group.results.map((result) => {
+                  const index = ordered.indexOf(result);
+                  const context = workspaceName(result.workspaceId);
+
+                  return (
+                    <div
+                      key={`${result.kind}-${result.id}`}
+                      id={`search-result-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onClick={() => openResult(result)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`cursor-pointer px-4 py-2 text-sm ${
+                        index === activeIndex ? "bg-indigo-50" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate font-medium text-gray-900">
+                          <Highlighted text={result.title} />
+                        </span>
+                        {result.kind !== "workspace" && context && (
+                          <span className="flex-shrink-0 text-xs text-gray-400">
+                            {context}
+                          </span>
+                        )}
+                      </div>
+                      {hasMatch(result.snippet) && (
+                        <p className="mt-0.5 line-clamp-2 text-xs text-gray-500">
+                          {result.kind === "comment" && (
+                            <span className="font-medium">Comment: </span>
+                          )}
+                          <Highlighted text={result.snippet!} />
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,10 @@
 // components/settings/ProductivitySettings.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
-
-type ProductivitySettings = {
-  peak_hours?: string[];
-  work_days?: number[];
-  focus_duration?: number;
-};
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import type { ProductivitySettings } from "@/lib/supabase";
 
 export default function ProductivitySettings() {
   const [settings, setSettings] = useState<ProductivitySettings>({
@@ -20,44 +16,27 @@ export default function ProductivitySettings() {
   const [updateLoading, setUpdateLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const { profiles } = useRepositories();
 
-  useEffect(() => {
-    fetchSettings();
-  }, []);
-
-  const fetchSettings = async () => {
+  const fetchSettings = useCallback(async () => {
     setLoading(true);
     try {
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError) throw userError;
-      if (!user) throw new Error("Not authenticated");
+      const profile = await profiles.getCurrent();
 
-      const { data, error: profileError } = await supabase
-        .from("profiles")
-        .select("productivity_settings")
-        .eq("id", user.id)
-        .single();
-
-      if (profileError) throw profileError;
-
-      if (data.productivity_settings) {
-        setSettings(data.productivity_settings);
+      if (profile.productivity_settings) {
+        setSettings(profile.productivity_settings);
       }
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to load settings");
-      } else {
-        setError("Failed to load settings");
-      }
+      setError(errorMessage(err, "Failed to load settings"));
       console.error("Failed to load settings:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [profiles]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
 
   const updateSettings = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -66,29 +45,12 @@ export default function ProductivitySettings() {
     setSuccess(null);
 
     try {
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError) throw userError;
-      if (!user) throw new Error("Not authenticated");
-
       // Update settings in the profile
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ productivity_settings: settings })
-        .eq("id", user.id);
-
-      if (updateError) throw updateError;
+      await profiles.updateCurrent({ productivity_settings: settings });
 
       setSuccess("Productivity settings updated successfully!");
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to update settings");
-      } else {
-        setError("Failed to update settings");
-      }
+      setError(errorMessage(err, "Failed to update settings"));
       console.error("Failed to update settings:", err);
     } finally {
       setUpdateLoading(false);
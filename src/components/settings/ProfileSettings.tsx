@@ -1,57 +1,52 @@
 // components/settings/ProfileSettings.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { resolveTimeZone } from "@/lib/dates";
+
+// Every zone the browser knows, with UTC first
+const TIME_ZONES = [
+  "UTC",
+  ...Intl.supportedValuesOf("timeZone").filter((zone) => zone !== "UTC"),
+];
 
 export default function ProfileSettings() {
   const [username, setUsername] = useState("");
   const [email, setEmail] = useState("");
+  // Empty follows the browser
+  const [timeZone, setTimeZone] = useState("");
   const [loading, setLoading] = useState(true);
   const [updateLoading, setUpdateLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const { profiles } = useRepositories();
 
-  useEffect(() => {
-    fetchUserProfile();
-  }, []);
-
-  const fetchUserProfile = async () => {
+  const fetchUserProfile = useCallback(async () => {
     setLoading(true);
     try {
-      // Get authenticated user
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError) throw userError;
-      if (!user) throw new Error("Not authenticated");
+      // Get authenticated user and their profile
+      const [user, profile] = await Promise.all([
+        profiles.getCurrentUser(),
+        profiles.getCurrent(),
+      ]);
 
       // Set email from auth
       setEmail(user.email || "");
-
-      // Get profile data
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("username")
-        .eq("id", user.id)
-        .single();
-
-      if (profileError) throw profileError;
-
       setUsername(profile.username || "");
+      setTimeZone(profile.timezone || "");
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to load profile");
-      } else {
-        setError("Failed to load profile");
-      }
+      setError(errorMessage(err, "Failed to load profile"));
       console.error("Error fetching profile:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [profiles]);
+
+  useEffect(() => {
+    fetchUserProfile();
+  }, [fetchUserProfile]);
 
   const updateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,29 +55,12 @@ export default function ProfileSettings() {
     setSuccess(null);
 
     try {
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError) throw userError;
-      if (!user) throw new Error("Not authenticated");
-
       // Update profile in database
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ username })
-        .eq("id", user.id);
-
-      if (updateError) throw updateError;
+      await profiles.updateCurrent({ username, timezone: timeZone || null });
 
       setSuccess("Profile updated successfully!");
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to update profile");
-      } else {
-        setError("Failed to update profile");
-      }
+      setError(errorMessage(err, "Failed to update profile"));
       console.error("Failed to update profile:", err);
     } finally {
       setUpdateLoading(false);
@@ -148,6 +126,33 @@ export default function ProfileSettings() {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="timezone"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Timezone
+            </label>
+            <select
+              id="timezone"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">
+                Use this device&apos;s timezone ({resolveTimeZone()})
+              </option>
+              {TIME_ZONES.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Used for due times and for what counts as today
+            </p>
+          </div>
+
           {error && (
             <div className="rounded-md bg-red-50 p-4">
               <div className="flex">
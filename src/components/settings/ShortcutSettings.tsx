@@ -0,0 +1,168 @@
+// components/settings/ShortcutSettings.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { errorMessage } from "@/lib/repositories";
+import {
+  SHORTCUTS,
+  conflictingActions,
+  formatKey,
+  keyFromEvent,
+  type ShortcutAction,
+} from "@/lib/shortcuts";
+import { useShortcutsContext } from "@/components/shortcuts/ShortcutsContext";
+
+export default function ShortcutSettings() {
+  const { shortcuts: saved, saveShortcuts } = useShortcutsContext();
+  const [shortcuts, setShortcuts] = useState(saved);
+  // Action waiting for its new key
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [updateLoading, setUpdateLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // The saved bindings arrive after the profile loads
+  useEffect(() => {
+    setShortcuts(saved);
+  }, [saved]);
+
+  const conflicts = conflictingActions(shortcuts);
+
+  const handleRecordKey = (
+    action: ShortcutAction,
+    e: React.KeyboardEvent<HTMLButtonElement>
+  ) => {
+    const key = keyFromEvent(e);
+    if (!key) return;
+
+    e.preventDefault();
+    setRecording(null);
+    if (key === "escape") return;
+
+    setShortcuts((prev) => ({ ...prev, [action]: key }));
+    setSuccess(null);
+  };
+
+  const updateShortcuts = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUpdateLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await saveShortcuts(shortcuts);
+      setSuccess("Keyboard shortcuts updated successfully!");
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to update shortcuts"));
+      console.error("Failed to update shortcuts:", err);
+    } finally {
+      setUpdateLoading(false);
+    }
+  };
+
+  return (
+    <div id="shortcuts" className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">
+          Keyboard Shortcuts
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Click a shortcut and press the keys you want instead. Escape keeps the
+          current one.
+        </p>
+      </div>
+      <div className="border-t border-gray-200 px-4 py-5 sm:p-6">
+        <form onSubmit={updateShortcuts} className="space-y-6">
+          <ul className="divide-y divide-gray-200">
+            {SHORTCUTS.map(({ action, label, defaultKey }) => (
+              <li
+                key={action}
+                className="flex items-center justify-between py-2 text-sm"
+              >
+                <span className="text-gray-900">{label}</span>
+                <div className="flex items-center gap-3">
+                  {conflicts.has(action) && (
+                    <span className="text-xs text-red-600">
+                      Used more than once
+                    </span>
+                  )}
+                  {shortcuts[action] !== defaultKey && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setShortcuts((prev) => ({
+                          ...prev,
+                          [action]: defaultKey,
+                        }))
+                      }
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      Reset
+                    </button>
+                  )}
+                  {shortcuts[action] && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setShortcuts((prev) => ({ ...prev, [action]: "" }))
+                      }
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      Turn off
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setRecording(recording === action ? null : action)
+                    }
+                    onKeyDown={(e) =>
+                      recording === action && handleRecordKey(action, e)
+                    }
+                    onBlur={() => recording === action && setRecording(null)}
+                    aria-label={`Change shortcut for ${label}`}
+                    className={`min-w-[5rem] rounded-md border px-2 py-1 text-xs font-medium ${
+                      recording === action
+                        ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                        : "border-gray-300 bg-gray-50 text-gray-700 hover:bg-gray-100"
+                    }`}
+                  >
+                    {recording === action
+                      ? "Press keys..."
+                      : formatKey(shortcuts[action])}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="rounded-md bg-green-50 p-4">
+              <div className="flex">
+                <div className="text-sm text-green-700">{success}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={updateLoading || conflicts.size > 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {updateLoading ? "Saving..." : "Save Shortcuts"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+// components/shortcuts/CommandPalette.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import type { Task } from "@/lib/supabase";
+import { formatKey, keyFromEvent } from "@/lib/shortcuts";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { useShortcutsContext } from "./ShortcutsContext";
+import type { DashboardRoute } from "./GlobalShortcuts";
+
+interface CommandPaletteProps {
+  routes: DashboardRoute[];
+  onCreateTask: () => void;
+  onShowHelp: () => void;
+  onClose: () => void;
+}
+
+type Command = {
+  id: string;
+  group: string;
+  label: string;
+  // Key bound to the same thing, shown as a hint
+  shortcut?: string;
+  run: () => void;
+};
+
+const STATUS_LABELS: Record<Task["status"], string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+const PRIORITY_LABELS: Record<Task["priority"], string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+export default function CommandPalette({
+  routes,
+  onCreateTask,
+  onShowHelp,
+  onClose,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const router = useRouter();
+  const { shortcuts, taskActions } = useShortcutsContext();
+  const { activeWorkspaceId, workspaces, setActiveWorkspaceId } =
+    useActiveWorkspace();
+
+  // Read once: the page underneath doesn't change while the palette is open
+  const [actions] = useState(() => taskActions.current);
+
+  const commands = useMemo(() => {
+    const list: Command[] = [];
+    const selected = actions?.selected;
+
+    list.push({
+      id: "create-task",
+      group: "Tasks",
+      label: "Create a task",
+      shortcut: shortcuts.createTask,
+      run: onCreateTask,
+    });
+
+    if (selected && actions?.setStatus) {
+      const setStatus = actions.setStatus;
+      for (const status of Object.keys(STATUS_LABELS) as Task["status"][]) {
+        if (status === selected.status) continue;
+        list.push({
+          id: `status-${status}`,
+          group: "Tasks",
+          label: `Mark “${selected.title}” as ${STATUS_LABELS[status]}`,
+          run: () => setStatus(selected, status),
+        });
+      }
+    }
+
+    if (selected && actions?.setPriority) {
+      const setPriority = actions.setPriority;
+      for (const priority of Object.keys(
+        PRIORITY_LABELS
+      ) as Task["priority"][]) {
+        if (priority === selected.priority) continue;
+        list.push({
+          id: `priority-${priority}`,
+          group: "Tasks",
+          label: `Set priority of “${selected.title}” to ${PRIORITY_LABELS[priority]}`,
+          run: () => setPriority(selected, priority),
+        });
+      }
+    }
+
+    for (const route of routes) {
+      list.push({
+        id: `route-${route.href}`,
+        group: "Go to",
+        label: route.name,
+        run: () => router.push(route.href),
+      });
+    }
+
+    if (activeWorkspaceId) {
+      list.push({
+        id: "workspace-personal",
+        group: "Workspaces",
+        label: "Switch to Personal",
+        run: () => setActiveWorkspaceId(null),
+      });
+    }
+
+    for (const workspace of workspaces) {
+      if (workspace.id === activeWorkspaceId) continue;
+      list.push({
+        id: `workspace-${workspace.id}`,
+        group: "Workspaces",
+        label: `Switch to ${workspace.name}`,
+        run: () => setActiveWorkspaceId(workspace.id),
+      });
+    }
+
+    list.push(
+      {
+        id: "help",
+        group: "Help",
+        label: "Show keyboard shortcuts",
+        shortcut: shortcuts.help,
+        run: onShowHelp,
+      },
+      {
+        id: "customize",
+        group: "Help",
+        label: "Customize keyboard shortcuts",
+        run: () => router.push("/dashboard/settings#shortcuts"),
+      }
+    );
+
+    return list;
+  }, [
+    actions,
+    routes,
+    workspaces,
+    activeWorkspaceId,
+    shortcuts,
+    router,
+    setActiveWorkspaceId,
+    onCreateTask,
+    onShowHelp,
+  ]);
+
+  // Every word typed has to appear in the label
+  const matching = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((command) =>
+      words.every((word) => command.label.toLowerCase().includes(word))
+    );
+  }, [commands, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    document
+      .getElementById(`command-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  // Closing first lets commands open another overlay
+  const runCommand = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (keyFromEvent(e) === shortcuts.palette) {
+      e.preventDefault();
+      onClose();
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (matching.length === 0) return;
+        e.preventDefault();
+        setActiveIndex(
+          (index) =>
+            (index + (e.key === "ArrowDown" ? 1 : -1) + matching.length) %
+            matching.length
+        );
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (matching[activeIndex]) runCommand(matching[activeIndex]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-gray-500/75 px-4 pt-24"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-full max-w-lg overflow-hidden rounded-lg bg-white shadow-xl"
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command"
+          aria-label="Command"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-list"
+          aria-activedescendant={
+            matching.length > 0 ? `command-${activeIndex}` : undefined
+          }
+          autoFocus
+          className="block w-full border-0 border-b border-gray-200 px-4 py-3 text-sm focus:ring-0"
+        />
+
+        <ul
+          id="command-list"
+          role="listbox"
+          aria-label="Commands"
+          className="max-h-80 overflow-y-auto py-1"
+        >
+          {matching.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">
+              No matching commands
+            </li>
+          ) : (
+            matching.map((command, index) => (
+              <li
+                key={command.id}
+                id={`command-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => runCommand(command)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex cursor-pointer items-center justify-between gap-2 px-4 py-2 text-sm ${
+                  index === activeIndex ? "bg-indigo-50" : ""
+                }`}
+              >
+                <span className="truncate text-gray-900">
+                  <span className="mr-2 text-xs text-gray-400">
+                    {command.group}
+                  </span>
+                  {command.label}
+                </span>
+                {command.shortcut && (
+                  <kbd className="flex-shrink-0 rounded border border-gray-200 bg-gray-50 px-1.5 text-xs text-gray-500">
+                    {formatKey(command.shortcut)}
+                  </kbd>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
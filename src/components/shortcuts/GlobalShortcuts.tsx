@@ -0,0 +1,49 @@
+// components/shortcuts/GlobalShortcuts.tsx
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useShortcuts, useShortcutsContext } from "./ShortcutsContext";
+import CommandPalette from "./CommandPalette";
+import ShortcutHelp from "./ShortcutHelp";
+
+export type DashboardRoute = { name: string; href: string };
+
+// Shortcuts that work on every dashboard page, and the overlays they open
+export default function GlobalShortcuts({
+  routes,
+}: {
+  routes: DashboardRoute[];
+}) {
+  const router = useRouter();
+  const { overlay, setOverlay, taskActions } = useShortcutsContext();
+
+  // In place where the page can, otherwise on the task list
+  const createTask = () => {
+    const create = taskActions.current?.create;
+    if (create) create();
+    else router.push("/dashboard/tasks?new=1");
+  };
+
+  useShortcuts({
+    palette: () => setOverlay("palette"),
+    help: () => setOverlay("help"),
+    createTask,
+  });
+
+  if (overlay === "palette") {
+    return (
+      <CommandPalette
+        routes={routes}
+        onCreateTask={createTask}
+        onShowHelp={() => setOverlay("help")}
+        onClose={() => setOverlay(null)}
+      />
+    );
+  }
+
+  if (overlay === "help") {
+    return <ShortcutHelp onClose={() => setOverlay(null)} />;
+  }
+
+  return null;
+}
@@ -0,0 +1,92 @@
+// components/shortcuts/ShortcutHelp.tsx
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { SHORTCUTS, formatKey, type ShortcutScope } from "@/lib/shortcuts";
+import { useShortcutsContext } from "./ShortcutsContext";
+
+const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: "Anywhere",
+  list: "In task lists",
+};
+
+export default function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  const { shortcuts } = useShortcutsContext();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-gray-500/75 px-4 pt-24"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-full max-w-lg rounded-lg bg-white p-6 shadow-xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2
+            id="shortcut-help-title"
+            className="text-lg font-medium text-gray-900"
+          >
+            Keyboard shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            autoFocus
+            className="text-gray-400 hover:text-gray-600"
+          >
+            &times;
+          </button>
+        </div>
+
+        {(Object.keys(SCOPE_LABELS) as ShortcutScope[]).map((scope) => (
+          <div key={scope} className="mt-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+              {SCOPE_LABELS[scope]}
+            </h3>
+            <dl className="mt-2 divide-y divide-gray-100">
+              {SHORTCUTS.filter((shortcut) => shortcut.scope === scope).map(
+                (shortcut) => (
+                  <div
+                    key={shortcut.action}
+                    className="flex items-center justify-between py-1.5 text-sm"
+                  >
+                    <dt className="text-gray-700">{shortcut.label}</dt>
+                    <dd>
+                      <kbd className="rounded border border-gray-200 bg-gray-50 px-1.5 text-xs text-gray-600">
+                        {formatKey(shortcuts[shortcut.action])}
+                      </kbd>
+                    </dd>
+                  </div>
+                )
+              )}
+            </dl>
+          </div>
+        ))}
+
+        <p className="mt-4 text-sm text-gray-500">
+          <Link
+            href="/dashboard/settings#shortcuts"
+            onClick={onClose}
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            Change these in Settings
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
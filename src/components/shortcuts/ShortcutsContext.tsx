@@ -0,0 +1,161 @@
+// components/shortcuts/ShortcutsContext.tsx
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { ShortcutBindings, Task } from "@/lib/supabase";
+import { useRepositories } from "@/lib/repositories/context";
+import {
+  SHORTCUTS,
+  customBindings,
+  isEditableTarget,
+  keyFromEvent,
+  resolveShortcuts,
+  type ResolvedShortcuts,
+  type ShortcutAction,
+} from "@/lib/shortcuts";
+
+// What the page on screen lets the command palette do with its tasks
+export type TaskActions = {
+  // The task selected in a list, if any
+  selected: Task | null;
+  // Left out where the user may not do it
+  create?: () => void;
+  setStatus?: (task: Task, status: Task["status"]) => void;
+  setPriority?: (task: Task, priority: Task["priority"]) => void;
+};
+
+export type ShortcutOverlay = "palette" | "help";
+
+type ShortcutsContextValue = {
+  shortcuts: ResolvedShortcuts;
+  saveShortcuts: (shortcuts: ResolvedShortcuts) => Promise<void>;
+  overlay: ShortcutOverlay | null;
+  setOverlay: (overlay: ShortcutOverlay | null) => void;
+  // Kept in a ref so pages can update it on every render
+  taskActions: React.MutableRefObject<TaskActions | null>;
+};
+
+const ShortcutsContext = createContext<ShortcutsContextValue>({
+  shortcuts: resolveShortcuts(null),
+  saveShortcuts: async () => {},
+  overlay: null,
+  setOverlay: () => {},
+  taskActions: { current: null },
+});
+
+/**
+ * Keyboard shortcuts for everything below it, with the user's own bindings
+ * from their profile. GlobalShortcuts adds the command palette and help.
+ */
+export function ShortcutsProvider({ children }: { children: React.ReactNode }) {
+  const [bindings, setBindings] = useState<ShortcutBindings | null>(null);
+  const [overlay, setOverlay] = useState<ShortcutOverlay | null>(null);
+  const taskActions = useRef<TaskActions | null>(null);
+  const { profiles } = useRepositories();
+  const shortcuts = useMemo(() => resolveShortcuts(bindings), [bindings]);
+
+  useEffect(() => {
+    const loadBindings = async () => {
+      try {
+        const profile = await profiles.getCurrent();
+        setBindings(profile.keyboard_shortcuts);
+      } catch (err) {
+        console.error("Error loading keyboard shortcuts:", err);
+      }
+    };
+
+    loadBindings();
+  }, [profiles]);
+
+  const saveShortcuts = useCallback(
+    async (shortcuts: ResolvedShortcuts) => {
+      const profile = await profiles.updateCurrent({
+        keyboard_shortcuts: customBindings(shortcuts),
+      });
+      setBindings(profile.keyboard_shortcuts);
+    },
+    [profiles]
+  );
+
+  return (
+    <ShortcutsContext.Provider
+      value={{
+        shortcuts,
+        saveShortcuts,
+        overlay,
+        setOverlay,
+        taskActions,
+      }}
+    >
+      {children}
+    </ShortcutsContext.Provider>
+  );
+}
+
+export const useShortcutsContext = () => useContext(ShortcutsContext);
+
+/**
+ * Runs the handler bound to each key pressed while `enabled`. Single keys
+ * are left alone while typing in a field, and everything but the overlay's
+ * own keys waits while the palette or the help is open.
+ */
+export function useShortcuts(
+  handlers: Partial<Record<ShortcutAction, () => void>>,
+  enabled = true
+) {
+  const { shortcuts, overlay } = useShortcutsContext();
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled || overlay) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+
+      const key = keyFromEvent(event);
+      if (!key) return;
+      if (isEditableTarget(event.target) && !key.startsWith("mod+")) return;
+
+      const handler = SHORTCUTS.find(
+        ({ action }) => shortcuts[action] === key && handlersRef.current[action]
+      );
+      if (!handler) return;
+
+      event.preventDefault();
+      handlersRef.current[handler.action]!();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [shortcuts, enabled, overlay]);
+}
+
+/**
+ * Offers the page's tasks to the command palette while it's mounted.
+ */
+export function useTaskActions(actions: TaskActions) {
+  const { taskActions } = useShortcutsContext();
+
+  useEffect(() => {
+    taskActions.current = actions;
+  });
+
+  useEffect(
+    () => () => {
+      taskActions.current = null;
+    },
+    [taskActions]
+  );
+}
@@ -0,0 +1,568 @@
+// components/smart-contexts/ContextManager.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { Category, SmartContext, Tag, Task } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import {
+  DUE_LABELS,
+  describeCriteria,
+  type ContextCriteria,
+  type ContextDue,
+  type ContextPriority,
+  type ContextSort,
+} from "@/lib/smart-contexts";
+
+const PRIORITY_OPTIONS: { value: Task["priority"]; label: string }[] = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const SORT_LABELS: Record<ContextSort, string> = {
+  due_date: "Due date",
+  priority: "Priority",
+  created_at: "Newest first",
+  title: "Title",
+};
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500";
+
+// The user's own Smart Contexts, tried before the built-in ones in the
+// order listed here
+export default function ContextManager() {
+  const { activeWorkspaceId } = useActiveWorkspace();
+  const repositories = useRepositories();
+  const [contexts, setContexts] = useState<SmartContext[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingContext, setEditingContext] = useState<SmartContext | null>(
+    null
+  );
+
+  // Form state
+  const [name, setName] = useState("");
+  const [priority, setPriority] = useState<ContextPriority>("medium");
+  const [criteria, setCriteria] = useState<ContextCriteria>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formLoading, setFormLoading] = useState(false);
+
+  const fetchContexts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setContexts(await repositories.smartContexts.list(activeWorkspaceId));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to fetch smart contexts"));
+      console.error("Error fetching smart contexts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    fetchContexts();
+
+    return repositories.smartContexts.subscribe(() => {
+      fetchContexts();
+    });
+  }, [fetchContexts, repositories]);
+
+  // Options for the criteria, and names for the summaries
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [workspaceCategories, workspaceTags] = await Promise.all([
+          repositories.categories.list(activeWorkspaceId),
+          repositories.tags.list(activeWorkspaceId),
+        ]);
+        setCategories(workspaceCategories);
+        setTags(workspaceTags);
+      } catch (err) {
+        console.error("Error fetching context options:", err);
+      }
+    };
+
+    fetchOptions();
+  }, [activeWorkspaceId, repositories]);
+
+  const openForm = (context?: SmartContext) => {
+    setEditingContext(context || null);
+    setName(context?.name || "");
+    setPriority(context?.priority || "medium");
+    setCriteria(context?.criteria || {});
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingContext(null);
+    setFormError(null);
+  };
+
+  const updateCriteria = (changes: Partial<ContextCriteria>) =>
+    setCriteria((prev) => {
+      const next = { ...prev, ...changes };
+      // Only conditions that are set are stored
+      (Object.keys(next) as (keyof ContextCriteria)[]).forEach((key) => {
+        const value = next[key];
+        if (
+          value === undefined ||
+          value === false ||
+          (Array.isArray(value) && value.length === 0)
+        ) {
+          delete next[key];
+        }
+      });
+      return next;
+    });
+
+  const togglePriority = (value: Task["priority"]) => {
+    const priorities = criteria.priorities || [];
+    updateCriteria({
+      priorities: priorities.includes(value)
+        ? priorities.filter((p) => p !== value)
+        : [...priorities, value],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormLoading(true);
+    setFormError(null);
+
+    try {
+      if (editingContext) {
+        await repositories.smartContexts.update(editingContext.id, {
+          name,
+          priority,
+          criteria,
+        });
+      } else {
+        await repositories.smartContexts.create({
+          name,
+          priority,
+          criteria,
+          // New contexts go last
+          position: Math.max(-1, ...contexts.map((c) => c.position)) + 1,
+          workspace_id: activeWorkspaceId,
+        });
+      }
+
+      closeForm();
+      fetchContexts();
+    } catch (err: unknown) {
+      setFormError(
+        errorMessage(err, "An error occurred while saving the context")
+      );
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleToggle = async (context: SmartContext) => {
+    try {
+      await repositories.smartContexts.update(context.id, {
+        enabled: !context.enabled,
+      });
+      fetchContexts();
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to update context"));
+    }
+  };
+
+  // Renumbers the whole list so equal positions can't keep the old order
+  const handleMove = async (index: number, step: number) => {
+    const reordered = [...contexts];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + step, 0, moved);
+    setContexts(reordered);
+
+    try {
+      await Promise.all(
+        reordered.map((context, position) =>
+          context.position === position
+            ? null
+            : repositories.smartContexts.update(context.id, { position })
+        )
+      );
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to reorder contexts"));
+    } finally {
+      fetchContexts();
+    }
+  };
+
+  const handleDelete = async (context: SmartContext) => {
+    if (!confirm(`Delete the context "${context.name}"?`)) {
+      return;
+    }
+
+    try {
+      await repositories.smartContexts.remove(context.id);
+      fetchContexts();
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to delete context"));
+      console.error("Failed to delete context", err);
+    }
+  };
+
+  if (isFormOpen) {
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-medium text-gray-900">
+            {editingContext ? "Edit Context" : "Create New Context"}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="contextName"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Context Name
+            </label>
+            <input
+              type="text"
+              id="contextName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Quick wins"
+              required
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="contextPriority"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Shown as
+            </label>
+            <select
+              id="contextPriority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as ContextPriority)}
+              className={inputClassName}
+            >
+              {PRIORITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label} priority
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset className="space-y-4 border-t border-gray-200 pt-4">
+            <legend className="text-sm font-medium text-gray-900">
+              Tasks that match all of
+            </legend>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700">
+                Task priority
+              </span>
+              <div className="mt-1 flex rounded-md shadow-sm" role="group">
+                {PRIORITY_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => togglePriority(option.value)}
+                    aria-pressed={!!criteria.priorities?.includes(option.value)}
+                    className={`flex-1 px-3 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                      criteria.priorities?.includes(option.value)
+                        ? "bg-indigo-50 text-indigo-700"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="contextStatus"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Status
+              </label>
+              <select
+                id="contextStatus"
+                value={criteria.statuses?.[0] || ""}
+                onChange={(e) =>
+                  updateCriteria({
+                    statuses:
+                      e.target.value === "pending" ||
+                      e.target.value === "in_progress"
+                        ? [e.target.value]
+                        : undefined,
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="">Any open status</option>
+                <option value="pending">Pending</option>
+                <option value="in_progress">In Progress</option>
+              </select>
+            </div>
+
+            {categories.length > 0 && (
+              <div>
+                <label
+                  htmlFor="contextCategory"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Category
+                </label>
+                <select
+                  id="contextCategory"
+                  value={criteria.categoryId || ""}
+                  onChange={(e) =>
+                    updateCriteria({ categoryId: e.target.value || undefined })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">Any category</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {tags.length > 0 && (
+              <div>
+                <label
+                  htmlFor="contextTag"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Tag
+                </label>
+                <select
+                  id="contextTag"
+                  value={criteria.tagId || ""}
+                  onChange={(e) =>
+                    updateCriteria({ tagId: e.target.value || undefined })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">Any tag</option>
+                  {tags.map((tag) => (
+                    <option key={tag.id} value={tag.id}>
+                      #{tag.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label
+                htmlFor="contextDue"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Due date
+              </label>
+              <select
+                id="contextDue"
+                value={criteria.due || ""}
+                onChange={(e) =>
+                  updateCriteria({
+                    due: (e.target.value as ContextDue) || undefined,
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                {(Object.keys(DUE_LABELS) as ContextDue[]).map((due) => (
+                  <option key={due} value={due}>
+                    {DUE_LABELS[due]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!criteria.assignedToMe}
+                onChange={(e) =>
+                  updateCriteria({ assignedToMe: e.target.checked })
+                }
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              Assigned to me
+            </label>
+          </fieldset>
+
+          <div>
+            <label
+              htmlFor="contextSort"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Order tasks by
+            </label>
+            <select
+              id="contextSort"
+              value={criteria.sort || ""}
+              onChange={(e) =>
+                updateCriteria({
+                  sort: (e.target.value as ContextSort) || undefined,
+                })
+              }
+              className={inputClassName}
+            >
+              <option value="">As listed</option>
+              {(Object.keys(SORT_LABELS) as ContextSort[]).map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formError && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="text-sm text-red-700">{formError}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {formLoading
+                ? "Saving..."
+                : editingContext
+                ? "Update Context"
+                : "Create Context"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="flex justify-between items-center p-6 border-b border-gray-200">
+        <h2 className="text-xl font-medium text-gray-900">My Contexts</h2>
+        <button
+          onClick={() => openForm()}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Add Context
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="spinner"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading contexts...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-500">{error}</p>
+          <button
+            onClick={fetchContexts}
+            className="mt-2 text-indigo-600 hover:text-indigo-800"
+          >
+            Try again
+          </button>
+        </div>
+      ) : contexts.length === 0 ? (
+        <div className="text-center py-12 px-6">
+          <p className="text-gray-500">
+            No contexts of your own yet. Add one to group tasks your way, e.g.
+            quick wins: low priority with no due date.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {contexts.map((context, index) => (
+            <li key={context.id} className="px-6 py-4 hover:bg-gray-50">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={context.enabled}
+                    onChange={() => handleToggle(context)}
+                    aria-label={`Show ${context.name}`}
+                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <span
+                    className={`truncate text-sm font-medium ${
+                      context.enabled ? "text-gray-900" : "text-gray-400"
+                    }`}
+                  >
+                    {context.name}
+                  </span>
+                </label>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${context.name} up`}
+                    className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === contexts.length - 1}
+                    aria-label={`Move ${context.name} down`}
+                    className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => openForm(context)}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(context)}
+                    className="text-sm text-red-600 hover:text-red-900"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 ml-6 text-xs text-gray-500">
+                {describeCriteria(context.criteria, { categories, tags }).join(
+                  " · "
+                )}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
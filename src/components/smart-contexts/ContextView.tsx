@@ -1,26 +1,61 @@
 // components/smart-contexts/ContextView.tsx
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
-import type { Task, Category } from "@/lib/supabase";
-
-type TaskWithCategory = Task & {
-  category?: Category;
-};
-
-type Context = {
-  id: string;
-  name: string;
-  tasks: TaskWithCategory[];
-  priority: "high" | "medium" | "low";
-};
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import type {
+  ContextExclusion,
+  ProductivitySettings,
+  SmartContext,
+  Task,
+} from "@/lib/supabase";
+import {
+  DEFAULT_PRODUCTIVITY_SETTINGS,
+  errorMessage,
+  type TaskWithCategory,
+} from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { can, canOnTask, type WorkspacePermission } from "@/lib/permissions";
+import { describeRecurrence } from "@/lib/recurrence";
+import { updateTaskStatus } from "@/lib/recurring-tasks";
+import { formatDue } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import TaskDetail from "@/components/tasks/TaskDetail";
+import TaskForm from "@/components/tasks/TaskForm";
+import { stepSelection } from "@/lib/shortcuts";
+import {
+  useShortcuts,
+  useTaskActions,
+} from "@/components/shortcuts/ShortcutsContext";
+import { buildContexts, contextRules } from "@/lib/smart-contexts";
+import { getOpenPrerequisites } from "@/lib/dependencies";
 
 export default function ContextView() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [contexts, setContexts] = useState<Context[]>([]);
+  // The user's own contexts, tried before the built-in ones
+  const [customContexts, setCustomContexts] = useState<SmartContext[]>([]);
+  // Tasks the user hid from contexts
+  const [exclusions, setExclusions] = useState<ContextExclusion[]>([]);
+  const [userId, setUserId] = useState<string | undefined>();
+  const [productivity, setProductivity] = useState<ProductivitySettings | null>(
+    null
+  );
+  // Only open tasks are fetched, so anything missing here is already done
+  const [openTasks, setOpenTasks] = useState<TaskWithCategory[]>([]);
   const [currentTime, setCurrentTime] = useState(new Date());
+  // Task shown in the detail panel instead of the contexts
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  // Task picked with the keyboard, across all contexts
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Task whose placement is explained below it
+  const [explainedId, setExplainedId] = useState<string | null>(null);
+  const { activeWorkspaceId, activeRole } = useActiveWorkspace();
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+  const canChange = (permission: WorkspacePermission, task: Task) =>
+    canOnTask(activeRole, permission, task, userId);
 
   useEffect(() => {
     // Update current time every minute
@@ -31,243 +66,206 @@ export default function ContextView() {
     return () => clearInterval(intervalId);
   }, []);
 
-  const fetchTasks = async () => {
+  const fetchTasks = useCallback(async () => {
     setLoading(true);
     try {
-      // Get all tasks with their categories
-      const { data, error } = await supabase
-        .from("tasks")
-        .select(
-          `
-          *,
-          categories(*)
-        `
-        )
-        .not("status", "eq", "completed");
-
-      if (error) throw error;
-
-      // Format tasks with categories
-      const formattedTasks = data.map((task) => ({
-        ...task,
-        category: task.categories,
-      })) as TaskWithCategory[];
-
-      // Generate smart contexts
-      const smartContexts = generateSmartContexts(formattedTasks, currentTime);
-      setContexts(smartContexts);
+      // Get all open tasks with their categories
+      const [formattedTasks, workspaceContexts, hidden] = await Promise.all([
+        repositories.tasks.list({
+          workspaceId: activeWorkspaceId,
+          excludeStatus: "completed",
+        }),
+        repositories.smartContexts.list(activeWorkspaceId),
+        repositories.smartContexts.listExclusions(),
+      ]);
+
+      setOpenTasks(formattedTasks);
+      setCustomContexts(workspaceContexts);
+      setExclusions(hidden);
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to fetch tasks";
-      setError(errorMessage);
+      setError(errorMessage(err, "Failed to fetch tasks"));
       console.error("Error fetching tasks for contexts:", err);
     } finally {
       setLoading(false);
     }
-  };
-
-  // Using useCallback to memoize fetchTasks to avoid dependency issues
-  const memoizedFetchTasks = React.useCallback(() => {
-    fetchTasks();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [activeWorkspaceId, repositories]);
 
-  useEffect(() => {
-    memoizedFetchTasks();
-  }, [memoizedFetchTasks]);
-
-  const generateSmartContexts = (
-    tasks: TaskWithCategory[],
-    currentTime: Date
-  ): Context[] => {
-    // Set of contexts to generate
-    const contexts: Context[] = [];
-
-    // 1. Due Today Context
-    const today = new Date(currentTime);
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    const dueTodayTasks = tasks.filter((task) => {
-      if (!task.due_date) return false;
-      const dueDate = new Date(task.due_date);
-      dueDate.setHours(0, 0, 0, 0);
-      return dueDate.getTime() === today.getTime();
-    });
-
-    if (dueTodayTasks.length > 0) {
-      contexts.push({
-        id: "due-today",
-        name: "Due Today",
-        tasks: dueTodayTasks,
-        priority: "high",
-      });
+  const fetchCustomContexts = useCallback(async () => {
+    try {
+      const [workspaceContexts, hidden] = await Promise.all([
+        repositories.smartContexts.list(activeWorkspaceId),
+        repositories.smartContexts.listExclusions(),
+      ]);
+      setCustomContexts(workspaceContexts);
+      setExclusions(hidden);
+    } catch (err) {
+      console.error("Error fetching contexts:", err);
     }
+  }, [activeWorkspaceId, repositories]);
 
-    // 2. High Priority Context
-    const highPriorityTasks = tasks.filter(
-      (task) =>
-        task.priority === "high" && !dueTodayTasks.some((t) => t.id === task.id)
-    );
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
 
-    if (highPriorityTasks.length > 0) {
-      contexts.push({
-        id: "high-priority",
-        name: "High Priority",
-        tasks: highPriorityTasks,
-        priority: "high",
-      });
-    }
+  // Contexts edited next to the view show up right away
+  useEffect(
+    () => repositories.smartContexts.subscribe(fetchCustomContexts),
+    [fetchCustomContexts, repositories]
+  );
 
-    // 3. Time-based Context (Morning/Afternoon/Evening)
-    const hour = currentTime.getHours();
-    let timeBasedName = "";
-    if (hour < 12) {
-      timeBasedName = "Morning Focus";
-    } else if (hour < 17) {
-      timeBasedName = "Afternoon Tasks";
-    } else {
-      timeBasedName = "Evening Wrap-up";
-    }
+  // For contexts limited to tasks assigned to the user, and the peak hours
+  // and work days the built-in ones follow
+  useEffect(() => {
+    repositories.profiles
+      .getCurrent()
+      .then((profile) => {
+        setUserId(profile.id);
+        setProductivity(
+          profile.productivity_settings || DEFAULT_PRODUCTIVITY_SETTINGS
+        );
+      })
+      .catch((err) => console.error("Error fetching profile:", err));
+  }, [repositories]);
+
+  const rules = useMemo(() => contextRules(customContexts), [customContexts]);
+  const contexts = useMemo(
+    () =>
+      buildContexts(openTasks, rules, {
+        now: currentTime,
+        timeZone,
+        userId,
+        productivity,
+        exclusions,
+      }),
+    [openTasks, rules, currentTime, timeZone, userId, productivity, exclusions]
+  );
 
-    // Get tasks that are in progress
-    const inProgressTasks = tasks.filter(
-      (task) =>
-        task.status === "in_progress" &&
-        !dueTodayTasks.some((t) => t.id === task.id) &&
-        !highPriorityTasks.some((t) => t.id === task.id)
+  // Contexts that came out empty still have a name unless it depends on
+  // their tasks
+  const contextName = (ruleId: string) => {
+    const rule = rules.find((r) => r.id === ruleId);
+    return (
+      contexts.find((context) => context.id === ruleId)?.name ??
+      (typeof rule?.name === "string" ? rule.name : "a context not shown now")
     );
+  };
 
-    if (inProgressTasks.length > 0) {
-      contexts.push({
-        id: "time-based",
-        name: timeBasedName,
-        tasks: inProgressTasks,
-        priority: "medium",
-      });
-    }
-
-    // 4. Category-based Context (group by most common category)
-    const categoryTasksMap = new Map<string, TaskWithCategory[]>();
-    tasks.forEach((task) => {
-      if (
-        task.category &&
-        !dueTodayTasks.some((t) => t.id === task.id) &&
-        !highPriorityTasks.some((t) => t.id === task.id) &&
-        !inProgressTasks.some((t) => t.id === task.id)
-      ) {
-        const categoryId = task.category.id;
-        if (!categoryTasksMap.has(categoryId)) {
-          categoryTasksMap.set(categoryId, []);
-        }
-        categoryTasksMap.get(categoryId)?.push(task);
-      }
-    });
-
-    // Find category with most tasks
-    let maxTasks = 0;
-    let mainCategoryId = "";
-    categoryTasksMap.forEach((categoryTasks, categoryId) => {
-      if (categoryTasks.length > maxTasks) {
-        maxTasks = categoryTasks.length;
-        mainCategoryId = categoryId;
-      }
-    });
-
-    if (mainCategoryId && categoryTasksMap.get(mainCategoryId)!.length > 0) {
-      const categoryTasks = categoryTasksMap.get(mainCategoryId)!;
-      const categoryName = categoryTasks[0].category!.name;
-
-      contexts.push({
-        id: `category-${mainCategoryId}`,
-        name: `Focus: ${categoryName}`,
-        tasks: categoryTasks,
-        priority: "medium",
-      });
+  const handleHide = async (taskId: string, contextId: string) => {
+    try {
+      await repositories.smartContexts.exclude(taskId, contextId);
+      setExplainedId(null);
+      fetchCustomContexts();
+    } catch (err) {
+      alert(errorMessage(err, "Failed to hide the task"));
     }
+  };
 
-    // 5. Recently Created Context
-    const oneWeekAgo = new Date(currentTime);
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-
-    const recentlyCreatedTasks = tasks.filter((task) => {
-      if (
-        dueTodayTasks.some((t) => t.id === task.id) ||
-        highPriorityTasks.some((t) => t.id === task.id) ||
-        inProgressTasks.some((t) => t.id === task.id) ||
-        (task.category &&
-          categoryTasksMap.get(task.category.id)?.some((t) => t.id === task.id))
-      ) {
-        return false;
-      }
-
-      const createdDate = new Date(task.created_at);
-      return createdDate > oneWeekAgo;
-    });
-
-    if (recentlyCreatedTasks.length > 0) {
-      contexts.push({
-        id: "recently-created",
-        name: "Recently Added",
-        tasks: recentlyCreatedTasks,
-        priority: "low",
-      });
+  const handleUnhide = async (taskId: string, contextId: string) => {
+    try {
+      await repositories.smartContexts.include(taskId, contextId);
+      fetchCustomContexts();
+    } catch (err) {
+      alert(errorMessage(err, "Failed to show the task again"));
     }
+  };
 
-    // 6. Default Context - everything else
-    const remainingTasks = tasks.filter(
-      (task) =>
-        !dueTodayTasks.some((t) => t.id === task.id) &&
-        !highPriorityTasks.some((t) => t.id === task.id) &&
-        !inProgressTasks.some((t) => t.id === task.id) &&
-        !recentlyCreatedTasks.some((t) => t.id === task.id) &&
-        !(
-          task.category &&
-          categoryTasksMap.get(task.category.id)?.some((t) => t.id === task.id)
-        )
-    );
+  const handleStatusChange = async (
+    taskId: string,
+    newStatus: Task["status"]
+  ) => {
+    const task = openTasks.find((t) => t.id === taskId);
+    if (!task) return;
 
-    if (remainingTasks.length > 0) {
-      contexts.push({
-        id: "other",
-        name: "Other Tasks",
-        tasks: remainingTasks,
-        priority: "low",
+    try {
+      await updateTaskStatus(repositories, task, newStatus, {
+        prerequisites: openTasks,
       });
-    }
 
-    return contexts;
+      // Refresh tasks after update
+      fetchTasks();
+    } catch (err) {
+      alert(errorMessage(err, "Error updating task"));
+    }
   };
 
-  const handleStatusChange = async (
+  const handlePriorityChange = async (
     taskId: string,
-    newStatus: Task["status"]
+    priority: Task["priority"]
   ) => {
     try {
-      const { error } = await supabase
-        .from("tasks")
-        .update({ status: newStatus })
-        .eq("id", taskId);
+      await repositories.tasks.update(taskId, { priority });
+      fetchTasks();
+    } catch (err) {
+      console.error(
+        "Error updating task priority:",
+        errorMessage(err, "Error updating task")
+      );
+    }
+  };
 
-      if (error) throw error;
+  const handleDelete = async (taskId: string) => {
+    if (!confirm("Are you sure you want to delete this task?")) return;
 
-      // Refresh tasks after update
+    try {
+      await repositories.tasks.remove(taskId);
       fetchTasks();
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Error updating task";
-      console.error("Error updating task status:", errorMessage);
+      alert(errorMessage(err, "Error deleting task"));
     }
   };
 
-  const formatDate = (dateString: string | null | undefined) => {
-    if (!dateString) return "No due date";
-    return new Date(dateString).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
+  // In the order they're shown
+  const shownTasks = contexts.flatMap((context) => context.tasks);
+  const selectedTask = shownTasks.find((task) => task.id === selectedId);
+  const detailTask = openTasks.find((task) => task.id === detailId);
+
+  const moveSelection = (step: number) =>
+    setSelectedId(
+      stepSelection(
+        shownTasks.map((task) => task.id),
+        selectedTask?.id ?? null,
+        step
+      )
+    );
+
+  useShortcuts(
+    {
+      nextTask: () => moveSelection(1),
+      previousTask: () => moveSelection(-1),
+      ...(selectedTask && {
+        openTask: () => setDetailId(selectedTask.id),
+        ...(canChange("tasks.update", selectedTask) && {
+          completeTask: () => handleStatusChange(selectedTask.id, "completed"),
+          editTask: () => setEditingTask(selectedTask),
+        }),
+        ...(canChange("tasks.delete", selectedTask) && {
+          deleteTask: () => handleDelete(selectedTask.id),
+        }),
+      }),
+    },
+    !loading && !error && !detailTask && !editingTask
+  );
+
+  useTaskActions({
+    selected: selectedTask || null,
+    ...(selectedTask &&
+      canChange("tasks.update", selectedTask) && {
+        setStatus: (task, status) => handleStatusChange(task.id, status),
+        setPriority: (task, priority) =>
+          handlePriorityChange(task.id, priority),
+      }),
+  });
+
+  useEffect(() => {
+    if (selectedId) {
+      document
+        .getElementById(`task-${selectedId}`)
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  }, [selectedId]);
+
+  const formatDate = (task: TaskWithCategory) =>
+    formatDue(task, timeZone) || "No due date";
 
   // Helper function to determine next status
   const getNextStatus = (currentStatus: string): Task["status"] => {
@@ -301,6 +299,40 @@ export default function ContextView() {
     );
   }
 
+  if (editingTask) {
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-medium text-gray-900">Edit Task</h2>
+        </div>
+        <TaskForm
+          initialTask={editingTask}
+          workspaceId={activeWorkspaceId ?? undefined}
+          onSuccess={() => {
+            setEditingTask(null);
+            fetchTasks();
+          }}
+          onCancel={() => setEditingTask(null)}
+        />
+      </div>
+    );
+  }
+
+  if (detailTask) {
+    return (
+      <TaskDetail
+        task={detailTask}
+        canUpdate={canChange("tasks.update", detailTask)}
+        canComment={can(activeRole, "tasks.update")}
+        onEdit={() => setEditingTask(detailTask)}
+        onClose={() => {
+          setDetailId(null);
+          fetchTasks();
+        }}
+      />
+    );
+  }
+
   if (contexts.length === 0) {
     return (
       <div className="text-center py-12">
@@ -341,75 +373,188 @@ export default function ContextView() {
             </div>
           </div>
           <ul className="divide-y divide-gray-200">
-            {context.tasks.map((task) => (
-              <li key={task.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <button
-                      onClick={() =>
-                        handleStatusChange(task.id, getNextStatus(task.status))
-                      }
-                      className={`flex-shrink-0 h-5 w-5 rounded-full border ${
-                        task.status === "pending"
-                          ? "border-gray-300"
-                          : task.status === "in_progress"
-                          ? "border-yellow-400 bg-yellow-100"
-                          : "border-green-500 bg-green-500"
-                      } mr-3`}
-                      aria-label={`Change task status`}
-                    >
-                      {task.status === "completed" && (
-                        <svg
-                          className="h-5 w-5 text-white"
-                          viewBox="0 0 20 20"
-                          fill="currentColor"
+            {context.tasks.map((task) => {
+              const reason = context.reasons[task.id];
+              const hiddenFrom = reason.passedOver.filter(
+                (match) => match.because === "excluded"
+              );
+              const outgrouped = reason.passedOver.filter(
+                (match) => match.because === "smaller-group"
+              );
+
+              return (
+                <li
+                  key={task.id}
+                  id={`task-${task.id}`}
+                  aria-current={task.id === selectedTask?.id || undefined}
+                  className={`px-4 py-4 sm:px-6 ${
+                    task.id === selectedTask?.id
+                      ? "bg-indigo-50 ring-2 ring-inset ring-indigo-500"
+                      : "hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <button
+                        onClick={() =>
+                          handleStatusChange(
+                            task.id,
+                            getNextStatus(task.status)
+                          )
+                        }
+                        disabled={!canChange("tasks.update", task)}
+                        className={`flex-shrink-0 h-5 w-5 rounded-full border ${
+                          task.status === "pending"
+                            ? "border-gray-300"
+                            : task.status === "in_progress"
+                            ? "border-yellow-400 bg-yellow-100"
+                            : "border-green-500 bg-green-500"
+                        } mr-3`}
+                        aria-label={`Change task status`}
+                      >
+                        {task.status === "completed" && (
+                          <svg
+                            className="h-5 w-5 text-white"
+                            viewBox="0 0 20 20"
+                            fill="currentColor"
+                          >
+                            <path
+                              fillRule="evenodd"
+                              d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                              clipRule="evenodd"
+                            />
+                          </svg>
+                        )}
+                      </button>
+                      <div>
+                        <h4
+                          className={`text-sm font-medium ${
+                            task.status === "completed"
+                              ? "text-gray-400 line-through"
+                              : "text-gray-900"
+                          }`}
+                        >
+                          <button
+                            onClick={() => setDetailId(task.id)}
+                            className="text-left hover:underline"
+                          >
+                            {task.title}
+                          </button>
+                        </h4>
+                        <p className="mt-1 text-xs text-gray-500 line-clamp-1">
+                          {task.description || "No description"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      {getOpenPrerequisites(task, openTasks).length > 0 && (
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800"
+                          title={getOpenPrerequisites(task, openTasks)
+                            .map((t) => t.title)
+                            .join(", ")}
+                        >
+                          Blocked
+                        </span>
+                      )}
+                      {task.subtaskProgress && (
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800"
+                          title={`${task.subtaskProgress.completed} of ${task.subtaskProgress.total} subtasks done`}
                         >
-                          <path
-                            fillRule="evenodd"
-                            d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
+                          {task.subtaskProgress.completed}/
+                          {task.subtaskProgress.total}
+                        </span>
                       )}
-                    </button>
-                    <div>
-                      <h4
-                        className={`text-sm font-medium ${
-                          task.status === "completed"
-                            ? "text-gray-400 line-through"
-                            : "text-gray-900"
+                      {!!task.commentCount && (
+                        <button
+                          onClick={() => setDetailId(task.id)}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200"
+                        >
+                          {task.commentCount}{" "}
+                          {task.commentCount === 1 ? "comment" : "comments"}
+                        </button>
+                      )}
+                      {task.series && (
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                          title={describeRecurrence(task.series.recurrence)}
+                        >
+                          Repeats
+                        </span>
+                      )}
+                      {task.category && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                          {task.category.name}
+                        </span>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {formatDate(task)}
+                      </div>
+                      <div
+                        className={`h-2 w-2 rounded-full ${
+                          task.priority === "high"
+                            ? "bg-red-600"
+                            : task.priority === "medium"
+                            ? "bg-yellow-500"
+                            : "bg-green-500"
                         }`}
+                        title={`${task.priority} priority`}
+                      />
+                      <button
+                        onClick={() =>
+                          setExplainedId(
+                            explainedId === task.id ? null : task.id
+                          )
+                        }
+                        aria-expanded={explainedId === task.id}
+                        title={`Here because ${reason.explanation}`}
+                        className="text-xs text-gray-500 hover:text-gray-700"
                       >
-                        {task.title}
-                      </h4>
-                      <p className="mt-1 text-xs text-gray-500 line-clamp-1">
-                        {task.description || "No description"}
-                      </p>
+                        Why here?
+                      </button>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-4">
-                    {task.category && (
-                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
-                        {task.category.name}
-                      </span>
-                    )}
-                    <div className="text-xs text-gray-500">
-                      {formatDate(task.due_date)}
+                  {explainedId === task.id && (
+                    <div className="mt-3 ml-8 space-y-1 rounded-md bg-gray-50 p-3 text-xs text-gray-600">
+                      <p>
+                        In {context.name} because {reason.explanation}.
+                      </p>
+                      {outgrouped.map((match) => (
+                        <p key={match.ruleId}>
+                          Not in {contextName(match.ruleId)}, which went with a
+                          bigger group of tasks.
+                        </p>
+                      ))}
+                      {hiddenFrom.map((match) => (
+                        <p key={match.ruleId}>
+                          You hid it from {contextName(match.ruleId)}.{" "}
+                          <button
+                            onClick={() => handleUnhide(task.id, match.ruleId)}
+                            className="text-indigo-600 hover:text-indigo-800"
+                          >
+                            Show it there again
+                          </button>
+                        </p>
+                      ))}
+                      {reason.alsoMatches.length > 0 && (
+                        <p>
+                          It would fit{" "}
+                          {reason.alsoMatches.map(contextName).join(", ")} too,
+                          but {context.name} comes first.
+                        </p>
+                      )}
+                      <button
+                        onClick={() => handleHide(task.id, context.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Never show this task in {context.name}
+                      </button>
                     </div>
-                    <div
-                      className={`h-2 w-2 rounded-full ${
-                        task.priority === "high"
-                          ? "bg-red-600"
-                          : task.priority === "medium"
-                          ? "bg-yellow-500"
-                          : "bg-green-500"
-                      }`}
-                      title={`${task.priority} priority`}
-                    />
-                  </div>
-                </div>
-              </li>
-            ))}
+                  )}
+                </li>
+              );
+            })}
           </ul>
         </div>
       ))}
@@ -0,0 +1,28 @@
+// components/tags/TagChip.tsx
+import type { Tag } from "@/lib/supabase";
+
+interface TagChipProps {
+  tag: Pick<Tag, "name" | "color">;
+  onRemove?: () => void;
+}
+
+export default function TagChip({ tag, onRemove }: TagChipProps) {
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${tag.color}20`, color: tag.color }}
+    >
+      #{tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove tag ${tag.name}`}
+          className="ml-1 -mr-1 rounded-full px-1 hover:bg-black/10"
+        >
+          &times;
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,210 @@
+// components/tags/TagInput.tsx
+"use client";
+
+import { useState, useEffect, useId } from "react";
+import type { Tag } from "@/lib/supabase";
+import { errorMessage, type WorkspaceScope } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { colorForName } from "@/lib/colors";
+import TagChip from "./TagChip";
+
+interface TagInputProps {
+  workspaceId: WorkspaceScope;
+  value: Tag[];
+  onChange: (tags: Tag[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Rendered inside TaskForm, so Enter picks a suggestion instead of submitting
+export default function TagInput({
+  workspaceId,
+  value,
+  onChange,
+}: TagInputProps) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listId = useId();
+  const repositories = useRepositories();
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await repositories.tags.list(workspaceId));
+      } catch (err) {
+        console.error("Error fetching tags:", err);
+      }
+    };
+
+    fetchTags();
+
+    return repositories.tags.subscribe(() => {
+      fetchTags();
+    });
+  }, [workspaceId, repositories]);
+
+  const name = query.trim();
+  const suggestions = tags
+    .filter(
+      (tag) =>
+        !value.some((selected) => selected.id === tag.id) &&
+        tag.name.toLowerCase().includes(name.toLowerCase())
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const exactMatch = tags.find(
+    (tag) => tag.name.toLowerCase() === name.toLowerCase()
+  );
+  // The last option creates a tag when nothing has this exact name yet
+  const canCreate = !!name && !exactMatch;
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+
+  const add = (tag: Tag) => {
+    if (!value.some((selected) => selected.id === tag.id)) {
+      onChange([...value, tag]);
+    }
+    setQuery("");
+    setHighlighted(0);
+  };
+
+  const create = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const tag = await repositories.tags.create({
+        name,
+        color: colorForName(name),
+        workspace_id: workspaceId,
+      });
+      setTags((prev) => [...prev, tag]);
+      add(tag);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error creating tag"));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const choose = (index: number) => {
+    if (index < suggestions.length) {
+      add(suggestions[index]);
+    } else if (canCreate) {
+      create();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (optionCount === 0) return;
+      setIsOpen(true);
+      setHighlighted(
+        (prev) =>
+          (prev + (e.key === "ArrowDown" ? 1 : -1) + optionCount) % optionCount
+      );
+    } else if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (!name || creating) return;
+      // An exact match wins over the highlighted suggestion
+      if (exactMatch) {
+        add(exactMatch);
+      } else {
+        choose(Math.min(highlighted, optionCount - 1));
+      }
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === "Escape" && isOpen) {
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  const showOptions = isOpen && !!name && optionCount > 0;
+
+  return (
+    <div className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-1 rounded-md border border-gray-300 px-2 py-1.5 shadow-sm focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500">
+        {value.map((tag) => (
+          <TagChip
+            key={tag.id}
+            tag={tag}
+            onRemove={() =>
+              onChange(value.filter((selected) => selected.id !== tag.id))
+            }
+          />
+        ))}
+        <input
+          type="text"
+          id="tags"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          readOnly={creating}
+          placeholder={value.length === 0 ? "Add tags" : ""}
+          role="combobox"
+          aria-expanded={showOptions}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            showOptions ? `${listId}-${highlighted}` : undefined
+          }
+          className="flex-1 min-w-[8rem] border-0 p-0.5 text-sm focus:ring-0"
+        />
+      </div>
+
+      {showOptions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-60 overflow-auto rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={highlighted === index}
+              // Keep focus in the input so blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(index)}
+              className={`flex cursor-pointer items-center px-3 py-1.5 ${
+                highlighted === index ? "bg-indigo-50" : ""
+              }`}
+            >
+              <span
+                className="mr-2 h-3 w-3 rounded-full"
+                style={{ backgroundColor: tag.color }}
+              />
+              {tag.name}
+            </li>
+          ))}
+          {canCreate && (
+            <li
+              id={`${listId}-${suggestions.length}`}
+              role="option"
+              aria-selected={highlighted === suggestions.length}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(suggestions.length)}
+              className={`cursor-pointer px-3 py-1.5 text-indigo-700 ${
+                highlighted === suggestions.length ? "bg-indigo-50" : ""
+              }`}
+            >
+              Create tag &ldquo;{name}&rdquo;
+            </li>
+          )}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
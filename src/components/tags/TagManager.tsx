@@ -0,0 +1,344 @@
+// components/tags/TagManager.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { errorMessage, type TagWithUsage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { can } from "@/lib/permissions";
+import { COLOR_OPTIONS, colorForName } from "@/lib/colors";
+import TagChip from "./TagChip";
+
+export default function TagManager() {
+  const { activeWorkspaceId, activeRole } = useActiveWorkspace();
+  const canManage = can(activeRole, "tags.manage");
+  const repositories = useRepositories();
+  const [tags, setTags] = useState<TagWithUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Which form replaces the list, and the tag it's about
+  const [formMode, setFormMode] = useState<"edit" | "merge" | null>(null);
+  const [editingTag, setEditingTag] = useState<TagWithUsage | null>(null);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(COLOR_OPTIONS[0].value);
+  const [targetId, setTargetId] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formLoading, setFormLoading] = useState(false);
+
+  const fetchTags = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTags(await repositories.tags.list(activeWorkspaceId));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to fetch tags"));
+      console.error("Error fetching tags:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    fetchTags();
+
+    return repositories.tags.subscribe(() => {
+      fetchTags();
+    });
+  }, [fetchTags, repositories]);
+
+  const openForm = (mode: "edit" | "merge", tag?: TagWithUsage) => {
+    setEditingTag(tag || null);
+    setName(tag?.name || "");
+    setColor(tag?.color || COLOR_OPTIONS[0].value);
+    setTargetId("");
+    setFormMode(mode);
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setFormMode(null);
+    setEditingTag(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormLoading(true);
+    setFormError(null);
+
+    try {
+      if (formMode === "merge" && editingTag) {
+        await repositories.tags.merge(editingTag.id, targetId);
+      } else if (editingTag) {
+        await repositories.tags.update(editingTag.id, { name, color });
+      } else {
+        await repositories.tags.create({
+          name,
+          color,
+          workspace_id: activeWorkspaceId,
+        });
+      }
+
+      closeForm();
+      fetchTags();
+    } catch (err: unknown) {
+      setFormError(errorMessage(err, "An error occurred while saving the tag"));
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDelete = async (tag: TagWithUsage) => {
+    const usage =
+      tag.taskCount > 0
+        ? ` It will be removed from ${tag.taskCount} ${
+            tag.taskCount === 1 ? "task" : "tasks"
+          }.`
+        : "";
+    if (!confirm(`Delete the tag "${tag.name}"?${usage}`)) {
+      return;
+    }
+
+    try {
+      await repositories.tags.remove(tag.id);
+      fetchTags();
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to delete tag"));
+      console.error("Failed to delete tag", err);
+    }
+  };
+
+  if (formMode === "merge" && editingTag) {
+    const targets = tags.filter((tag) => tag.id !== editingTag.id);
+
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-medium text-gray-900">Merge Tag</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Tasks tagged <TagChip tag={editingTag} /> move to the tag you pick,
+            and <TagChip tag={editingTag} /> is deleted.
+          </p>
+
+          <div>
+            <label
+              htmlFor="mergeTarget"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Merge into
+            </label>
+            <select
+              id="mergeTarget"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">Choose a tag</option>
+              {targets.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  #{tag.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formError && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="text-sm text-red-700">{formError}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formLoading || !targetId}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {formLoading ? "Merging..." : "Merge Tags"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  if (formMode === "edit") {
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-medium text-gray-900">
+            {editingTag ? "Edit Tag" : "Create New Tag"}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="tagName"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tag Name
+            </label>
+            <input
+              type="text"
+              id="tagName"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                // New tags get the color they'd get when typed into a task
+                if (!editingTag) setColor(colorForName(e.target.value.trim()));
+              }}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Color
+            </label>
+            <div className="mt-2 grid grid-cols-4 gap-2">
+              {COLOR_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setColor(option.value)}
+                  className={`h-8 rounded-md border ${
+                    color === option.value
+                      ? "ring-2 ring-offset-2 ring-indigo-500"
+                      : "border-gray-200"
+                  }`}
+                  style={{ backgroundColor: option.value }}
+                  title={option.name}
+                />
+              ))}
+            </div>
+          </div>
+
+          {formError && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="text-sm text-red-700">{formError}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {formLoading
+                ? "Saving..."
+                : editingTag
+                ? "Update Tag"
+                : "Create Tag"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="flex justify-between items-center p-6 border-b border-gray-200">
+        <h2 className="text-xl font-medium text-gray-900">Tags</h2>
+        {canManage && (
+          <button
+            onClick={() => openForm("edit")}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Add Tag
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="spinner"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading tags...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-500">{error}</p>
+          <button
+            onClick={fetchTags}
+            className="mt-2 text-indigo-600 hover:text-indigo-800"
+          >
+            Try again
+          </button>
+        </div>
+      ) : tags.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">
+            No tags yet. Add them here or while editing a task.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {tags.map((tag) => (
+            <li
+              key={tag.id}
+              className="px-6 py-4 flex items-center justify-between hover:bg-gray-50"
+            >
+              <div className="flex items-center space-x-2">
+                <TagChip tag={tag} />
+                <span className="text-xs text-gray-500">
+                  {tag.taskCount} {tag.taskCount === 1 ? "task" : "tasks"}
+                </span>
+              </div>
+              {canManage && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => openForm("edit", tag)}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                  {tags.length > 1 && (
+                    <button
+                      onClick={() => openForm("merge", tag)}
+                      className="text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Merge
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    className="text-sm text-red-600 hover:text-red-900"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
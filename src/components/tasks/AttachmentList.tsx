@@ -0,0 +1,243 @@
+// components/tasks/AttachmentList.tsx
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { Task, TaskAttachment } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import {
+  ATTACHMENT_QUOTA,
+  MAX_ATTACHMENT_SIZE,
+  checkAttachmentSizes,
+  formatBytes,
+  previewKind,
+} from "@/lib/attachments";
+
+interface AttachmentListProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+// Rendered inside TaskForm too, so nothing here submits a form
+export default function AttachmentList({ task, canEdit }: AttachmentListProps) {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [usage, setUsage] = useState(0);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Loaded file URLs by attachment id, and the attachment being previewed
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const repositories = useRepositories();
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const [list, used] = await Promise.all([
+        repositories.attachments.list(task.id),
+        repositories.attachments.usage(),
+      ]);
+      setAttachments(list);
+      setUsage(used);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error fetching attachments"));
+    } finally {
+      setLoading(false);
+    }
+  }, [task.id, repositories]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const user = await repositories.profiles.getCurrentUser();
+        setUserId(user.id);
+      } catch (err) {
+        console.error("Error fetching current user:", err);
+      }
+    };
+
+    fetchUser();
+  }, [repositories]);
+
+  // Object URLs from the local and in-memory storage hold on to the file
+  const urlsRef = useRef(urls);
+  urlsRef.current = urls;
+  useEffect(
+    () => () =>
+      Object.values(urlsRef.current)
+        .filter((url) => url.startsWith("blob:"))
+        .forEach((url) => URL.revokeObjectURL(url)),
+    []
+  );
+
+  const urlFor = async (attachment: TaskAttachment) => {
+    if (urls[attachment.id]) return urls[attachment.id];
+
+    const url = await repositories.attachments.getUrl(attachment);
+    setUrls((prev) => ({ ...prev, [attachment.id]: url }));
+    return url;
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (fileInput.current) fileInput.current.value = "";
+    if (files.length === 0) return;
+
+    const problem = checkAttachmentSizes(files, usage);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        await repositories.attachments.upload(task.id, file);
+      }
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error uploading attachment"));
+    } finally {
+      setUploading(false);
+      fetchAttachments();
+    }
+  };
+
+  const handlePreview = async (attachment: TaskAttachment) => {
+    if (previewId === attachment.id) {
+      setPreviewId(null);
+      return;
+    }
+
+    try {
+      await urlFor(attachment);
+      setPreviewId(attachment.id);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error loading attachment"));
+    }
+  };
+
+  const handleOpen = async (attachment: TaskAttachment) => {
+    try {
+      window.open(await urlFor(attachment), "_blank", "noopener");
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error loading attachment"));
+    }
+  };
+
+  const handleRemove = async (attachment: TaskAttachment) => {
+    if (!confirm(`Delete "${attachment.name}"?`)) return;
+
+    setError(null);
+    try {
+      await repositories.attachments.remove(attachment);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error deleting attachment"));
+    }
+    fetchAttachments();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading attachments...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {attachments.length > 0 && (
+        <ul className="rounded-md border border-gray-200 divide-y divide-gray-100">
+          {attachments.map((attachment) => {
+            const preview = previewKind(attachment);
+
+            return (
+              <li key={attachment.id} className="px-3 py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(attachment)}
+                      className="block truncate text-left font-medium text-indigo-600 hover:text-indigo-800"
+                    >
+                      {attachment.name}
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      {formatBytes(attachment.size)} · {attachment.content_type}
+                    </span>
+                  </div>
+                  <div className="ml-4 flex flex-shrink-0 space-x-3 text-xs">
+                    {preview && (
+                      <button
+                        type="button"
+                        onClick={() => handlePreview(attachment)}
+                        aria-expanded={previewId === attachment.id}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {previewId === attachment.id ? "Hide" : "Preview"}
+                      </button>
+                    )}
+                    {(canEdit || attachment.user_id === userId) && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(attachment)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {previewId === attachment.id &&
+                  urls[attachment.id] &&
+                  (preview === "image" ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={urls[attachment.id]}
+                      alt={attachment.name}
+                      className="mt-2 max-h-96 rounded border border-gray-200"
+                    />
+                  ) : (
+                    <iframe
+                      src={urls[attachment.id]}
+                      title={attachment.name}
+                      className="mt-2 h-96 w-full rounded border border-gray-200"
+                    />
+                  ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center justify-between">
+          <label
+            className={`px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 ${
+              uploading ? "opacity-50" : "cursor-pointer"
+            }`}
+          >
+            {uploading ? "Uploading..." : "Attach files"}
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              disabled={uploading}
+              onChange={(e) => handleFiles(e.target.files)}
+              className="sr-only"
+            />
+          </label>
+          <span className="text-xs text-gray-500">
+            Up to {formatBytes(MAX_ATTACHMENT_SIZE)} per file ·{" "}
+            {formatBytes(usage)} of {formatBytes(ATTACHMENT_QUOTA)} used
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
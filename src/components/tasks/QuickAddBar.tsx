@@ -0,0 +1,164 @@
+// components/tasks/QuickAddBar.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { Category, Task, WorkspaceMember } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { parseQuickAdd, toDueDate } from "@/lib/quick-add";
+import { useTimeZone } from "@/lib/use-time-zone";
+
+interface QuickAddBarProps {
+  // Workspace tasks are created in; personal when omitted
+  workspaceId?: string;
+  onCreated?: (task: Task) => void;
+}
+
+// The parsed day and time are already in the user's timezone
+const formatDue = (date: string, time: string | null) =>
+  new Date(`${date}T${time || "00:00"}:00Z`).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...(time && { hour: "numeric", minute: "2-digit" }),
+    timeZone: "UTC",
+  });
+
+export default function QuickAddBar({
+  workspaceId,
+  onCreated,
+}: QuickAddBarProps) {
+  const [input, setInput] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [categoryList, memberList] = await Promise.all([
+          repositories.categories.list(workspaceId || null),
+          workspaceId
+            ? repositories.workspaces.listMembers(workspaceId)
+            : repositories.workspaces.listAssignableMembers(),
+        ]);
+
+        setCategories(categoryList);
+        setMembers(memberList);
+      } catch (err) {
+        console.error("Error fetching quick-add options:", err);
+      }
+    };
+
+    fetchOptions();
+  }, [workspaceId, repositories]);
+
+  const parsed = useMemo(
+    () => parseQuickAdd(input, { categories, members, timeZone }),
+    [input, categories, members, timeZone]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed.title || saving) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const task = await repositories.tasks.create({
+        title: parsed.title,
+        ...toDueDate(parsed, timeZone),
+        priority: parsed.priority || "medium",
+        category_id: parsed.category?.id || null,
+        assigned_to: parsed.assignees.map((member) => member.user_id),
+        workspace_id: workspaceId || null,
+      });
+
+      setInput("");
+      onCreated?.(task);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error creating task"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const chip =
+    "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium";
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setInput("");
+        }}
+        readOnly={saving}
+        placeholder='Quick add: "Send invoice tomorrow 3pm !high #Finance @alice"'
+        aria-label="Quick add task"
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      />
+
+      {input.trim() && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-900">
+            {parsed.title || <span className="text-gray-400">Add a title</span>}
+          </span>
+          {parsed.dueDate && (
+            <span className={`${chip} bg-gray-100 text-gray-800`}>
+              Due: {formatDue(parsed.dueDate, parsed.dueTime)}
+            </span>
+          )}
+          {parsed.priority && (
+            <span
+              className={`${chip} ${
+                parsed.priority === "high"
+                  ? "bg-red-100 text-red-800"
+                  : parsed.priority === "medium"
+                  ? "bg-yellow-100 text-yellow-800"
+                  : "bg-green-100 text-green-800"
+              }`}
+            >
+              {parsed.priority}
+            </span>
+          )}
+          {parsed.category && (
+            <span
+              className={chip}
+              style={{
+                backgroundColor: `${parsed.category.color}20`,
+                color: parsed.category.color,
+              }}
+            >
+              {parsed.category.name}
+            </span>
+          )}
+          {parsed.assignees.map((member) => (
+            <span
+              key={member.user_id}
+              className={`${chip} bg-indigo-50 text-indigo-800`}
+            >
+              @{member.username}
+            </span>
+          ))}
+          {parsed.unmatched.length > 0 && (
+            <span className="text-xs text-orange-700">
+              No match for {parsed.unmatched.join(", ")}
+            </span>
+          )}
+          <span className="ml-auto text-xs text-gray-400">
+            Enter to add, Esc to clear
+          </span>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,276 @@
+// components/tasks/RecurrenceEditor.tsx
+"use client";
+
+import {
+  WEEKDAY_NAMES,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import { weekdayOf } from "@/lib/dates";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  // Due date of the first occurrence (YYYY-MM-DD), used for the defaults
+  startDate: string;
+  disabled?: boolean;
+}
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
+const SETPOS_OPTIONS = [
+  { value: 1, label: "first" },
+  { value: 2, label: "second" },
+  { value: 3, label: "third" },
+  { value: 4, label: "fourth" },
+  { value: -1, label: "last" },
+];
+
+const inputClass =
+  "rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm disabled:bg-gray-50";
+
+export default function RecurrenceEditor({
+  value,
+  onChange,
+  startDate,
+  disabled = false,
+}: RecurrenceEditorProps) {
+  const start = startDate ? new Date(startDate) : new Date();
+  const startWeekday = weekdayOf(start.toISOString().slice(0, 10));
+  const endMode = value?.until ? "until" : value?.count ? "count" : "never";
+  const monthlyMode = value?.by_setpos ? "weekday" : "monthday";
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const changeFrequency = (freq: string) => {
+    if (!freq) return onChange(null);
+
+    onChange({
+      freq: freq as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      work_days_only: value?.work_days_only,
+      until: value?.until,
+      count: value?.count,
+      ...(freq === "weekly" && { by_weekday: [startWeekday] }),
+      ...(freq === "monthly" && { by_monthday: start.getUTCDate() }),
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const days = value?.by_weekday || [];
+    const next = days.includes(day)
+      ? days.filter((d) => d !== day)
+      : [...days, day].sort();
+
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ by_weekday: next });
+  };
+
+  const changeMonthlyMode = (mode: string) =>
+    update(
+      mode === "weekday"
+        ? {
+            by_monthday: null,
+            by_setpos: Math.min(Math.ceil(start.getUTCDate() / 7), 4),
+            by_weekday: [startWeekday],
+          }
+        : { by_monthday: start.getUTCDate(), by_setpos: null, by_weekday: [] }
+    );
+
+  const changeEndMode = (mode: string) =>
+    update({
+      until: mode === "until" ? start.toISOString().slice(0, 10) : null,
+      count: mode === "count" ? 10 : null,
+    });
+
+  return (
+    <fieldset disabled={disabled} className="space-y-3">
+      <div>
+        <label
+          htmlFor="recurrence"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Repeat
+        </label>
+        <select
+          id="recurrence"
+          value={value?.freq || ""}
+          onChange={(e) => changeFrequency(e.target.value)}
+          className={`mt-1 block w-full ${inputClass}`}
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </div>
+
+      {value && (
+        <div className="space-y-3 rounded-md border border-gray-200 p-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) =>
+                update({ interval: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className={`w-20 ${inputClass}`}
+              aria-label="Interval"
+            />
+            <span>{UNITS[value.freq]}</span>
+          </div>
+
+          {value.freq === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_NAMES.map((name, i) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => toggleWeekday(i + 1)}
+                  aria-pressed={value.by_weekday?.includes(i + 1)}
+                  title={name}
+                  className={`px-2 py-1 rounded-md text-xs border ${
+                    value.by_weekday?.includes(i + 1)
+                      ? "border-indigo-500 bg-indigo-50 text-indigo-800"
+                      : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {name.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.freq === "monthly" && (
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="monthlyMode"
+                  checked={monthlyMode === "monthday"}
+                  onChange={() => changeMonthlyMode("monthday")}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <span>On day</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={value.by_monthday || start.getUTCDate()}
+                  disabled={disabled || monthlyMode !== "monthday"}
+                  onChange={(e) =>
+                    update({
+                      by_monthday: Math.min(
+                        31,
+                        Math.max(1, Number(e.target.value) || 1)
+                      ),
+                    })
+                  }
+                  className={`w-20 ${inputClass}`}
+                  aria-label="Day of the month"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="monthlyMode"
+                  checked={monthlyMode === "weekday"}
+                  onChange={() => changeMonthlyMode("weekday")}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <span>On the</span>
+                <select
+                  value={value.by_setpos || 1}
+                  disabled={disabled || monthlyMode !== "weekday"}
+                  onChange={(e) =>
+                    update({ by_setpos: Number(e.target.value) })
+                  }
+                  className={inputClass}
+                  aria-label="Week of the month"
+                >
+                  {SETPOS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={value.by_weekday?.[0] || startWeekday}
+                  disabled={disabled || monthlyMode !== "weekday"}
+                  onChange={(e) =>
+                    update({ by_weekday: [Number(e.target.value)] })
+                  }
+                  className={inputClass}
+                  aria-label="Weekday"
+                >
+                  {WEEKDAY_NAMES.map((name, i) => (
+                    <option key={name} value={i + 1}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!value.work_days_only}
+              onChange={(e) => update({ work_days_only: e.target.checked })}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <span>Only on my work days</span>
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>Ends</span>
+            <select
+              value={endMode}
+              onChange={(e) => changeEndMode(e.target.value)}
+              className={inputClass}
+              aria-label="Ends"
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === "until" && (
+              <input
+                type="date"
+                value={value.until || ""}
+                min={startDate || undefined}
+                onChange={(e) => update({ until: e.target.value || null })}
+                className={inputClass}
+                aria-label="End date"
+              />
+            )}
+            {endMode === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count || 1}
+                  onChange={(e) =>
+                    update({ count: Math.max(1, Number(e.target.value) || 1) })
+                  }
+                  className={`w-20 ${inputClass}`}
+                  aria-label="Number of occurrences"
+                />
+                <span>occurrences</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </fieldset>
+  );
+}
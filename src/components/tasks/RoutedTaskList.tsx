@@ -0,0 +1,111 @@
+// components/tasks/RoutedTaskList.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { parseTaskView, taskViewParams, type TaskView } from "@/lib/task-views";
+import SaveViewControls from "@/components/views/SaveViewControls";
+import TaskList from "./TaskList";
+
+// The task list of the active workspace with its filters, order and open
+// task kept in the query string, so views can be bookmarked, shared and saved
+export default function RoutedTaskList() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { activeWorkspaceId, workspaces, loading, setActiveWorkspaceId } =
+    useActiveWorkspace();
+  const queryString = searchParams.toString();
+  // Copied links name the workspace they were copied in
+  const linkedWorkspace = searchParams.get("workspace");
+  const detailTaskId = searchParams.get("task");
+  // Set by "Create a task" on other pages
+  const startCreating = searchParams.get("new") === "1";
+
+  const taskView = useMemo(
+    () => parseTaskView(new URLSearchParams(queryString)),
+    [queryString]
+  );
+
+  const replaceQuery = useCallback(
+    (params: URLSearchParams) => {
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname]
+  );
+
+  const setTaskView = useCallback(
+    (view: TaskView) => replaceQuery(taskViewParams(view)),
+    [replaceQuery]
+  );
+
+  const setDetailTaskId = useCallback(
+    (taskId: string | null) => {
+      const params = taskViewParams(taskView);
+      if (taskId) params.set("task", taskId);
+      replaceQuery(params);
+    },
+    [taskView, replaceQuery]
+  );
+
+  useEffect(() => {
+    if (!linkedWorkspace || loading) return;
+
+    const workspaceId = linkedWorkspace === "personal" ? null : linkedWorkspace;
+    if (
+      workspaceId !== activeWorkspaceId &&
+      (!workspaceId || workspaces.some((w) => w.id === workspaceId))
+    ) {
+      setActiveWorkspaceId(workspaceId);
+    }
+
+    // From here on the workspace switcher decides
+    setDetailTaskId(detailTaskId);
+  }, [
+    linkedWorkspace,
+    loading,
+    activeWorkspaceId,
+    workspaces,
+    setActiveWorkspaceId,
+    detailTaskId,
+    setDetailTaskId,
+  ]);
+
+  // The form is open by now, so the flag can go
+  useEffect(() => {
+    if (startCreating && !loading && !linkedWorkspace) {
+      setDetailTaskId(detailTaskId);
+    }
+  }, [startCreating, loading, linkedWorkspace, detailTaskId, setDetailTaskId]);
+
+  if (loading || linkedWorkspace) {
+    return (
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="text-center py-12">
+          <div className="spinner"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading tasks...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <TaskList
+      taskView={taskView}
+      onTaskViewChange={setTaskView}
+      startCreating={startCreating}
+      detailTaskId={detailTaskId}
+      onDetailTaskChange={setDetailTaskId}
+      filterActions={
+        <SaveViewControls
+          query={taskViewParams(taskView).toString()}
+          workspaceId={activeWorkspaceId}
+        />
+      }
+    />
+  );
+}
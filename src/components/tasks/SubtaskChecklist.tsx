@@ -0,0 +1,254 @@
+// components/tasks/SubtaskChecklist.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { Subtask, Task } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import {
+  moveSubtask,
+  promoteSubtask,
+  updateSubtaskStatus,
+} from "@/lib/subtasks";
+
+interface SubtaskChecklistProps {
+  task: Task;
+  canEdit: boolean;
+  // Called after every change, e.g. to refresh the progress shown elsewhere
+  onChange?: () => void;
+}
+
+// Rendered inside TaskForm too, so nothing here submits a form
+export default function SubtaskChecklist({
+  task,
+  canEdit,
+  onChange,
+}: SubtaskChecklistProps) {
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const repositories = useRepositories();
+
+  const fetchSubtasks = useCallback(async () => {
+    try {
+      setSubtasks(await repositories.subtasks.list(task.id));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error fetching subtasks"));
+    } finally {
+      setLoading(false);
+    }
+  }, [task.id, repositories]);
+
+  useEffect(() => {
+    fetchSubtasks();
+  }, [fetchSubtasks]);
+
+  // Runs `action`, then reloads the checklist and lets the parent know
+  const apply = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(errorMessage(err, fallback));
+    }
+    await fetchSubtasks();
+    onChange?.();
+  };
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+
+    setNewTitle("");
+    apply(
+      () => repositories.subtasks.create({ task_id: task.id, title }),
+      "Error adding subtask"
+    );
+  };
+
+  const handleToggle = (subtask: Subtask) => {
+    const status = subtask.status === "completed" ? "pending" : "completed";
+
+    setSubtasks((prev) =>
+      prev.map((s) => (s.id === subtask.id ? { ...s, status } : s))
+    );
+    apply(
+      () => updateSubtaskStatus(repositories, task, subtask, status),
+      "Error updating subtask"
+    );
+  };
+
+  const handleRename = (subtask: Subtask) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!title || title === subtask.title) return;
+
+    apply(
+      () => repositories.subtasks.update(subtask.id, { title }),
+      "Error renaming subtask"
+    );
+  };
+
+  const handleMove = (subtask: Subtask, offset: number) => {
+    const index = subtasks.indexOf(subtask) + offset;
+    if (index < 0 || index >= subtasks.length) return;
+
+    apply(
+      () =>
+        moveSubtask(
+          repositories,
+          subtasks.filter((s) => s.id !== subtask.id),
+          subtask,
+          index
+        ),
+      "Error moving subtask"
+    );
+  };
+
+  const handlePromote = (subtask: Subtask) => {
+    if (!confirm(`Turn "${subtask.title}" into a task of its own?`)) return;
+
+    apply(
+      () => promoteSubtask(repositories, task, subtask),
+      "Error promoting subtask"
+    );
+  };
+
+  const handleRemove = (subtask: Subtask) =>
+    apply(
+      () => repositories.subtasks.remove(subtask.id),
+      "Error deleting subtask"
+    );
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading subtasks...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {subtasks.length > 0 && (
+        <ul className="rounded-md border border-gray-200 divide-y divide-gray-100">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              className="group flex items-center px-3 py-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={subtask.status === "completed"}
+                disabled={!canEdit}
+                onChange={() => handleToggle(subtask)}
+                aria-label={`Complete ${subtask.title}`}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              {editingId === subtask.id ? (
+                <input
+                  type="text"
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={() => handleRename(subtask)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleRename(subtask);
+                    } else if (e.key === "Escape") {
+                      setEditingId(null);
+                    }
+                  }}
+                  autoFocus
+                  aria-label="Subtask title"
+                  className="ml-2 flex-1 rounded-md border-gray-300 py-0.5 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              ) : (
+                <span
+                  onDoubleClick={() => {
+                    if (!canEdit) return;
+                    setEditingId(subtask.id);
+                    setEditTitle(subtask.title);
+                  }}
+                  title={canEdit ? "Double-click to rename" : undefined}
+                  className={`ml-2 flex-1 ${
+                    subtask.status === "completed"
+                      ? "line-through text-gray-400"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {subtask.title}
+                </span>
+              )}
+              {canEdit && (
+                <div className="ml-2 flex items-center space-x-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(subtask, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(subtask, 1)}
+                    disabled={index === subtasks.length - 1}
+                    aria-label="Move down"
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handlePromote(subtask)}
+                    className="text-xs text-indigo-600 hover:text-indigo-900"
+                  >
+                    Make task
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(subtask)}
+                    aria-label={`Delete ${subtask.title}`}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Add a subtask"
+            aria-label="New subtask"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!newTitle.trim()}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+// components/tasks/TaskBoard.tsx
+"use client";
+
+import { useState } from "react";
+import type { Task, WorkspaceMember } from "@/lib/supabase";
+import type { TaskWithCategory } from "@/lib/repositories";
+import MemberAvatar from "@/components/workspaces/MemberAvatar";
+import { BOARD_COLUMNS, byPosition } from "@/lib/board";
+import { getOpenPrerequisites, type DependencyNode } from "@/lib/dependencies";
+import { describeRecurrence } from "@/lib/recurrence";
+import { formatDue } from "@/lib/dates";
+
+interface TaskBoardProps {
+  tasks: TaskWithCategory[];
+  prerequisites: DependencyNode[];
+  members: WorkspaceMember[];
+  canUpdate: (task: TaskWithCategory) => boolean;
+  // `index` is the slot in the target column, counted without the task
+  onMove: (
+    task: TaskWithCategory,
+    status: Task["status"],
+    index: number
+  ) => void;
+  onEdit: (task: TaskWithCategory) => void;
+  timeZone: string;
+}
+
+type DropTarget = { status: Task["status"]; index: number };
+
+const PRIORITY_COLORS: Record<Task["priority"], string> = {
+  low: "bg-green-500",
+  medium: "bg-yellow-500",
+  high: "bg-red-600",
+};
+
+export default function TaskBoard({
+  tasks,
+  prerequisites,
+  members,
+  canUpdate,
+  onMove,
+  onEdit,
+  timeZone,
+}: TaskBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const columnOf = (status: Task["status"]) =>
+    tasks.filter((task) => task.status === status).sort(byPosition);
+
+  // Drop slots are counted without the card being dragged
+  const slotsOf = (status: Task["status"]) =>
+    columnOf(status).filter((task) => task.id !== draggedId);
+
+  const handleDragOverCard = (
+    e: React.DragEvent,
+    status: Task["status"],
+    index: number
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (index < 0) return;
+
+    // Dropping on the lower half of a card puts the task after it
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    const target = { status, index: after ? index + 1 : index };
+
+    if (
+      target.status !== dropTarget?.status ||
+      target.index !== dropTarget?.index
+    ) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: Task["status"]) => {
+    e.preventDefault();
+
+    const task = tasks.find((t) => t.id === draggedId);
+    const index =
+      dropTarget?.status === status ? dropTarget.index : slotsOf(status).length;
+
+    setDraggedId(null);
+    setDropTarget(null);
+
+    if (task) onMove(task, status, index);
+  };
+
+  const dropIndicator = (
+    <div className="h-1 rounded-full bg-indigo-400" aria-hidden="true" />
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-6 bg-gray-50">
+      {BOARD_COLUMNS.map(({ status, title }) => {
+        const column = columnOf(status);
+        const slots = slotsOf(status);
+        const isTarget = dropTarget?.status === status;
+
+        return (
+          <section
+            key={status}
+            aria-label={title}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (!isTarget) {
+                setDropTarget({ status, index: slots.length });
+              }
+            }}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex flex-col rounded-lg border ${
+              isTarget && draggedId
+                ? "border-indigo-300 bg-indigo-50"
+                : "border-gray-200 bg-gray-100"
+            }`}
+          >
+            <h3 className="flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700">
+              {title}
+              <span className="text-xs text-gray-500">
+                {tasks.filter((task) => task.status === status).length}
+              </span>
+            </h3>
+            <ul className="flex-1 space-y-2 px-3 pb-3 min-h-[6rem]">
+              {column.map((task) => {
+                const index = slots.indexOf(task);
+                const blockers = getOpenPrerequisites(task, prerequisites);
+                const assignees = members.filter((member) =>
+                  task.assigned_to?.includes(member.user_id)
+                );
+
+                return (
+                  <li
+                    key={task.id}
+                    draggable={canUpdate(task)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", task.id);
+                      setDraggedId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    onDragOver={(e) => handleDragOverCard(e, status, index)}
+                    className="space-y-2"
+                  >
+                    {isTarget && dropTarget?.index === index && dropIndicator}
+                    <div
+                      className={`rounded-md bg-white p-3 shadow-sm border border-gray-200 ${
+                        canUpdate(task) ? "cursor-grab" : ""
+                      } ${task.id === draggedId ? "opacity-50" : ""}`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <p
+                          className={`text-sm font-medium ${
+                            task.status === "completed"
+                              ? "line-through text-gray-500"
+                              : "text-gray-900"
+                          }`}
+                        >
+                          {task.title}
+                        </p>
+                        <span
+                          className={`ml-2 mt-1 h-2 w-2 flex-shrink-0 rounded-full ${
+                            PRIORITY_COLORS[task.priority]
+                          }`}
+                          title={`${task.priority} priority`}
+                        />
+                      </div>
+                      <div className="mt-2 flex flex-wrap items-center gap-1">
+                        {task.category && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium"
+                            style={{
+                              backgroundColor: `${task.category.color}20`,
+                              color: task.category.color,
+                            }}
+                          >
+                            {task.category.name}
+                          </span>
+                        )}
+                        {task.due_date && (
+                          <span className="text-xs text-gray-500">
+                            Due {formatDue(task, timeZone)}
+                          </span>
+                        )}
+                        {task.series && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                            title={describeRecurrence(task.series.recurrence)}
+                          >
+                            Repeats
+                          </span>
+                        )}
+                        {blockers.length > 0 && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800"
+                            title={blockers.map((t) => t.title).join(", ")}
+                          >
+                            Blocked
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-2 flex items-center justify-between">
+                        <div className="flex -space-x-2">
+                          {assignees.map((member) => (
+                            <MemberAvatar
+                              key={member.user_id}
+                              member={member}
+                              size="sm"
+                            />
+                          ))}
+                        </div>
+                        {canUpdate(task) && (
+                          <button
+                            onClick={() => onEdit(task)}
+                            className="text-xs text-gray-600 hover:text-gray-900"
+                          >
+                            Edit
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+              {draggedId && isTarget && dropTarget?.index === slots.length && (
+                <li>{dropIndicator}</li>
+              )}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+// components/tasks/TaskDetail.tsx
+"use client";
+
+import type { TaskWithCategory } from "@/lib/repositories";
+import { describeRecurrence } from "@/lib/recurrence";
+import { formatDue } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import CommentThread from "@/components/comments/CommentThread";
+import SubtaskChecklist from "./SubtaskChecklist";
+import AttachmentList from "./AttachmentList";
+import TagChip from "@/components/tags/TagChip";
+
+interface TaskDetailProps {
+  task: TaskWithCategory;
+  // Whether the user may edit the task, its checklist and attachments
+  canUpdate: boolean;
+  // Whether the user may join the discussion, which assignees of someone
+  // else's personal task can do too
+  canComment: boolean;
+  onEdit?: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+export default function TaskDetail({
+  task,
+  canUpdate,
+  canComment,
+  onEdit,
+  onClose,
+}: TaskDetailProps) {
+  const timeZone = useTimeZone();
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2
+            className={`text-xl font-medium ${
+              task.status === "completed"
+                ? "line-through text-gray-500"
+                : "text-gray-900"
+            }`}
+          >
+            {task.title}
+          </h2>
+          <div className="mt-2 flex flex-wrap gap-2 text-xs">
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-gray-100 text-gray-800">
+              {STATUS_LABELS[task.status]}
+            </span>
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-gray-100 text-gray-800">
+              {task.priority} priority
+            </span>
+            {task.category && (
+              <span
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium"
+                style={{
+                  backgroundColor: `${task.category.color}20`,
+                  color: task.category.color,
+                }}
+              >
+                {task.category.name}
+              </span>
+            )}
+            {task.tags?.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+            {task.due_date && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-gray-100 text-gray-800">
+                Due: {formatDue(task, timeZone)}
+              </span>
+            )}
+            {task.series && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full font-medium bg-purple-100 text-purple-800">
+                Repeats: {describeRecurrence(task.series.recurrence)}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex space-x-3">
+          {canUpdate && onEdit && (
+            <button
+              onClick={onEdit}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+
+      {task.description && (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">
+          {task.description}
+        </p>
+      )}
+
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Subtasks</h3>
+        <SubtaskChecklist task={task} canEdit={canUpdate} />
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Attachments</h3>
+        <AttachmentList task={task} canEdit={canUpdate} />
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Discussion</h3>
+        <CommentThread taskId={task.id} canComment={canComment} />
+      </section>
+    </div>
+  );
+}
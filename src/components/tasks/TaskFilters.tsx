@@ -0,0 +1,257 @@
+// components/tasks/TaskFilters.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Category, Tag } from "@/lib/supabase";
+import type { TaskPriority } from "@/lib/repositories";
+import {
+  DEFAULT_TASK_VIEW,
+  SORT_OPTIONS,
+  countFilters,
+  type TaskSortField,
+  type TaskView,
+} from "@/lib/task-views";
+
+interface TaskFiltersProps {
+  value: TaskView;
+  onChange: (view: TaskView) => void;
+  categories: Category[];
+  tags: Tag[];
+  // The board has a column per status instead
+  showStatus: boolean;
+  // Extra actions, e.g. saving the view
+  children?: React.ReactNode;
+}
+
+const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const SEARCH_DELAY_MS = 300;
+
+const selectClassName =
+  "rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm";
+
+export default function TaskFilters({
+  value,
+  onChange,
+  categories,
+  tags,
+  showStatus,
+  children,
+}: TaskFiltersProps) {
+  // Typing only searches once it pauses
+  const [text, setText] = useState(value.text);
+
+  useEffect(() => {
+    setText(value.text);
+  }, [value.text]);
+
+  useEffect(() => {
+    if (text === value.text) return;
+
+    const timer = setTimeout(
+      () => onChange({ ...value, text }),
+      SEARCH_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [text, value, onChange]);
+
+  const update = (changes: Partial<TaskView>) =>
+    onChange({ ...value, ...changes });
+
+  const togglePriority = (priority: TaskPriority) =>
+    update({
+      priorities: value.priorities.includes(priority)
+        ? value.priorities.filter((p) => p !== priority)
+        : [...value.priorities, priority],
+    });
+
+  const changeSort = (sort: TaskSortField) =>
+    update({
+      sort,
+      ascending: SORT_OPTIONS.find((option) => option.value === sort)!
+        .ascending,
+    });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <input
+        type="search"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Search tasks"
+        aria-label="Search tasks"
+        className="w-48 rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+
+      {showStatus && (
+        <select
+          value={value.status || ""}
+          onChange={(e) =>
+            update({
+              status:
+                e.target.value === "pending" ||
+                e.target.value === "in_progress" ||
+                e.target.value === "completed"
+                  ? e.target.value
+                  : undefined,
+            })
+          }
+          aria-label="Filter by status"
+          className={selectClassName}
+        >
+          <option value="">All Tasks</option>
+          <option value="pending">Pending</option>
+          <option value="in_progress">In Progress</option>
+          <option value="completed">Completed</option>
+        </select>
+      )}
+
+      <div className="flex rounded-md shadow-sm" role="group">
+        {PRIORITY_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => togglePriority(option.value)}
+            aria-pressed={value.priorities.includes(option.value)}
+            className={`px-3 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+              value.priorities.includes(option.value)
+                ? "bg-indigo-50 text-indigo-700"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {categories.length > 0 && (
+        <select
+          value={value.categoryId || ""}
+          onChange={(e) => update({ categoryId: e.target.value || undefined })}
+          aria-label="Filter by category"
+          className={selectClassName}
+        >
+          <option value="">Any category</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {tags.length > 0 && (
+        <select
+          value={value.tagId || ""}
+          onChange={(e) => update({ tagId: e.target.value || undefined })}
+          aria-label="Filter by tag"
+          className={selectClassName}
+        >
+          <option value="">Any tag</option>
+          {tags.map((tag) => (
+            <option key={tag.id} value={tag.id}>
+              #{tag.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={value.assignedToMe ? "me" : "anyone"}
+        onChange={(e) => update({ assignedToMe: e.target.value === "me" })}
+        aria-label="Filter by assignee"
+        className={selectClassName}
+      >
+        <option value="anyone">Anyone</option>
+        <option value="me">Assigned to me</option>
+      </select>
+
+      <div className="flex items-center gap-1 text-sm text-gray-700">
+        <span>Due</span>
+        <input
+          type="date"
+          value={value.dueFrom || ""}
+          max={value.dueTo}
+          onChange={(e) => update({ dueFrom: e.target.value || undefined })}
+          aria-label="Due from"
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={value.dueTo || ""}
+          min={value.dueFrom}
+          onChange={(e) => update({ dueTo: e.target.value || undefined })}
+          aria-label="Due until"
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.overdue}
+          onChange={(e) => update({ overdue: e.target.checked })}
+          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        Overdue
+      </label>
+
+      <label
+        className="flex items-center gap-2 text-sm text-gray-700"
+        title="Overdue, or not enough time left going by how long your tasks usually take"
+      >
+        <input
+          type="checkbox"
+          checked={value.atRisk}
+          onChange={(e) => update({ atRisk: e.target.checked })}
+          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        At risk
+      </label>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={value.sort}
+          onChange={(e) => changeSort(e.target.value as TaskSortField)}
+          aria-label="Sort by"
+          className={selectClassName}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => update({ ascending: !value.ascending })}
+          title={value.ascending ? "Ascending" : "Descending"}
+          aria-label={`Sort ${value.ascending ? "descending" : "ascending"}`}
+          className="px-2 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          {value.ascending ? "↑" : "↓"}
+        </button>
+      </div>
+
+      {countFilters(value) > 0 && (
+        <button
+          onClick={() =>
+            onChange({
+              ...DEFAULT_TASK_VIEW,
+              sort: value.sort,
+              ascending: value.ascending,
+            })
+          }
+          className="text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Clear filters
+        </button>
+      )}
+
+      {children}
+    </div>
+  );
+}
@@ -1,18 +1,41 @@
 // components/tasks/TaskForm.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
-import type { Category, Task } from "@/lib/supabase";
+import { useState, useEffect, useMemo } from "react";
+import type { Category, Tag, Task, WorkspaceMember } from "@/lib/supabase";
+import { errorMessage, type TaskWithCategory } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import MemberAvatar from "@/components/workspaces/MemberAvatar";
+import {
+  describeCycle,
+  findDependencyCycle,
+  type DependencyNode,
+} from "@/lib/dependencies";
+import type { RecurrenceRule } from "@/lib/recurrence";
+import {
+  createRecurringTask,
+  makeTaskRecurring,
+  stopRecurring,
+  updateFutureOccurrences,
+} from "@/lib/recurring-tasks";
+import { dueDay, dueTime as dueTimeOf, toDueFields } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import RecurrenceEditor from "./RecurrenceEditor";
+import SubtaskChecklist from "./SubtaskChecklist";
+import AttachmentList from "./AttachmentList";
+import TagInput from "@/components/tags/TagInput";
 
 interface TaskFormProps {
-  initialTask?: Partial<Task>;
+  initialTask?: Partial<TaskWithCategory>;
+  // Workspace new tasks are created in; personal when omitted
+  workspaceId?: string;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
 export default function TaskForm({
   initialTask,
+  workspaceId,
   onSuccess,
   onCancel,
 }: TaskFormProps) {
@@ -20,75 +43,205 @@ export default function TaskForm({
   const [description, setDescription] = useState(
     initialTask?.description || ""
   );
-  const [dueDate, setDueDate] = useState(
-    initialTask?.due_date
-      ? new Date(initialTask.due_date).toISOString().split("T")[0]
-      : ""
+  const timeZone = useTimeZone();
+  const initialDue = useMemo(
+    () => ({
+      due_date: initialTask?.due_date ?? null,
+      has_due_time: !!initialTask?.has_due_time,
+    }),
+    [initialTask?.due_date, initialTask?.has_due_time]
   );
+  const [dueDate, setDueDate] = useState(dueDay(initialDue, timeZone) || "");
+  const [dueTime, setDueTime] = useState(dueTimeOf(initialDue, timeZone) || "");
   const [priority, setPriority] = useState<Task["priority"]>(
     initialTask?.priority || "medium"
   );
   const [categoryId, setCategoryId] = useState<string | undefined>(
-    initialTask?.category_id
+    initialTask?.category_id ?? undefined
   );
   const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>(initialTask?.tags || []);
+  const [dependencies, setDependencies] = useState<string[]>(
+    initialTask?.dependencies || []
+  );
+  const [otherTasks, setOtherTasks] = useState<DependencyNode[]>([]);
+  const [assignees, setAssignees] = useState<string[]>(
+    initialTask?.assigned_to || []
+  );
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(
+    initialTask?.series?.recurrence || null
+  );
+  const [completeWithSubtasks, setCompleteWithSubtasks] = useState(
+    !!initialTask?.complete_with_subtasks
+  );
+  // Edits to an occurrence apply to it alone unless the user opts in
+  const [applyTo, setApplyTo] = useState<"occurrence" | "future">("occurrence");
+  const isOccurrence = !!initialTask?.id && !!initialTask.series_id;
+  const taskWorkspaceId = initialTask?.id
+    ? initialTask.workspace_id || null
+    : workspaceId || null;
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const repositories = useRepositories();
+
+  // The profile's timezone may differ from the browser's used at first
+  useEffect(() => {
+    setDueDate(dueDay(initialDue, timeZone) || "");
+    setDueTime(dueTimeOf(initialDue, timeZone) || "");
+  }, [initialDue, timeZone]);
 
   useEffect(() => {
     const fetchCategories = async () => {
-      const { data, error } = await supabase
-        .from("categories")
-        .select("*")
-        .order("name");
+      try {
+        setCategories(await repositories.categories.list(taskWorkspaceId));
+      } catch (err) {
+        console.error("Error fetching categories:", err);
+      }
+    };
 
-      if (error) {
-        console.error("Error fetching categories:", error);
-        return;
+    fetchCategories();
+  }, [taskWorkspaceId, repositories]);
+
+  useEffect(() => {
+    const fetchOtherTasks = async () => {
+      // Dependencies can only point at tasks in the same workspace
+      try {
+        const tasks = await repositories.tasks.list({
+          workspaceId: taskWorkspaceId,
+          orderBy: "title",
+          ascending: true,
+        });
+
+        setOtherTasks(tasks.filter((task) => task.id !== initialTask?.id));
+      } catch (err) {
+        console.error("Error fetching tasks for dependencies:", err);
       }
+    };
+
+    fetchOtherTasks();
+  }, [initialTask?.id, taskWorkspaceId, repositories]);
 
-      setCategories(data || []);
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        setMembers(
+          taskWorkspaceId
+            ? await repositories.workspaces.listMembers(taskWorkspaceId)
+            : await repositories.workspaces.listAssignableMembers()
+        );
+      } catch (err) {
+        console.error("Error fetching assignable members:", err);
+      }
     };
 
-    fetchCategories();
-  }, []);
+    fetchMembers();
+  }, [taskWorkspaceId, repositories]);
+
+  const toggleAssignee = (userId: string) => {
+    setAssignees((prev) =>
+      prev.includes(userId)
+        ? prev.filter((id) => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const toggleDependency = (taskId: string) => {
+    setDependencies((prev) =>
+      prev.includes(taskId)
+        ? prev.filter((id) => id !== taskId)
+        : [...prev, taskId]
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
 
+    if (initialTask?.id) {
+      const cycle = findDependencyCycle(
+        initialTask.id,
+        dependencies,
+        otherTasks
+      );
+      if (cycle) {
+        setError(
+          `These dependencies would create a cycle: ${describeCycle(cycle, [
+            ...otherTasks,
+            { id: initialTask.id, title, status: "pending" },
+          ])}`
+        );
+        setLoading(false);
+        return;
+      }
+    }
+
+    if (recurrence && !dueDate) {
+      setError("Recurring tasks need a due date");
+      setLoading(false);
+      return;
+    }
+
     const taskData = {
       title,
       description,
-      due_date: dueDate ? new Date(dueDate).toISOString() : null,
+      ...toDueFields(dueDate || null, (dueDate && dueTime) || null, timeZone),
       priority,
       category_id: categoryId || null,
+      dependencies,
+      assigned_to: assignees,
+      workspace_id: taskWorkspaceId,
+      complete_with_subtasks: completeWithSubtasks,
     };
 
     try {
-      if (initialTask?.id) {
+      let taskId = initialTask?.id;
+
+      if (initialTask?.id && isOccurrence && applyTo === "future") {
+        const task = initialTask as Task;
+
+        if (recurrence) {
+          await updateFutureOccurrences(
+            repositories,
+            task,
+            taskData,
+            recurrence
+          );
+        } else {
+          // Turning recurrence off ends the series at this occurrence
+          await stopRecurring(repositories, task.series_id!);
+          await repositories.tasks.update(task.id, taskData);
+        }
+      } else if (initialTask?.id) {
         // Update existing task
-        const { error } = await supabase
-          .from("tasks")
-          .update(taskData)
-          .eq("id", initialTask.id);
+        const task = await repositories.tasks.update(initialTask.id, taskData);
 
-        if (error) throw error;
+        if (!isOccurrence && recurrence) {
+          await makeTaskRecurring(repositories, task, recurrence);
+        }
+      } else if (recurrence) {
+        taskId = (await createRecurringTask(repositories, taskData, recurrence))
+          .id;
       } else {
         // Create new task
-        const { error } = await supabase.from("tasks").insert([taskData]);
+        taskId = (await repositories.tasks.create(taskData)).id;
+      }
 
-        if (error) throw error;
+      // Tags belong to this task alone, even when editing future occurrences
+      const tagIds = tags.map((tag) => tag.id);
+      const initialTagIds = (initialTask?.tags || []).map((tag) => tag.id);
+      if (
+        taskId &&
+        (tagIds.length !== initialTagIds.length ||
+          tagIds.some((id) => !initialTagIds.includes(id)))
+      ) {
+        await repositories.tags.setTaskTags(taskId, tagIds);
       }
 
       onSuccess();
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        setError(error.message || "An error occurred while saving the task");
-      } else {
-        setError("An error occurred while saving the task");
-      }
+      setError(errorMessage(error, "An error occurred while saving the task"));
     } finally {
       setLoading(false);
     }
@@ -135,15 +288,28 @@ export default function TaskForm({
             htmlFor="dueDate"
             className="block text-sm font-medium text-gray-700"
           >
-            Due Date (optional)
+            Due Date{recurrence ? "" : " (optional)"}
           </label>
-          <input
-            type="date"
-            id="dueDate"
-            value={dueDate}
-            onChange={(e) => setDueDate(e.target.value)}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-          />
+          <div className="mt-1 flex gap-2">
+            <input
+              type="date"
+              id="dueDate"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            <input
+              type="time"
+              value={dueTime}
+              onChange={(e) => setDueTime(e.target.value)}
+              disabled={!dueDate}
+              aria-label="Due time (optional)"
+              className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-50"
+            />
+          </div>
+          {dueTime && dueDate && (
+            <p className="mt-1 text-xs text-gray-500">{timeZone} time</p>
+          )}
         </div>
 
         <div>
@@ -166,6 +332,43 @@ export default function TaskForm({
         </div>
       </div>
 
+      {isOccurrence && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700">
+            Apply changes to
+          </span>
+          <div className="mt-2 flex gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="applyTo"
+                checked={applyTo === "occurrence"}
+                onChange={() => setApplyTo("occurrence")}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+              />
+              This occurrence
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="applyTo"
+                checked={applyTo === "future"}
+                onChange={() => setApplyTo("future")}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+              />
+              This and future occurrences
+            </label>
+          </div>
+        </div>
+      )}
+
+      <RecurrenceEditor
+        value={recurrence}
+        onChange={setRecurrence}
+        startDate={dueDate}
+        disabled={isOccurrence && applyTo === "occurrence"}
+      />
+
       <div>
         <label
           htmlFor="category"
@@ -188,6 +391,123 @@ export default function TaskForm({
         </select>
       </div>
 
+      <div>
+        <label
+          htmlFor="tags"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Tags (optional)
+        </label>
+        <TagInput
+          workspaceId={taskWorkspaceId}
+          value={tags}
+          onChange={setTags}
+        />
+      </div>
+
+      {members.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700">
+            Assignees (optional)
+          </span>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {members.map((member) => (
+              <button
+                key={member.user_id}
+                type="button"
+                onClick={() => toggleAssignee(member.user_id)}
+                aria-pressed={assignees.includes(member.user_id)}
+                className={`inline-flex items-center pl-1 pr-3 py-1 rounded-full text-sm border ${
+                  assignees.includes(member.user_id)
+                    ? "border-indigo-500 bg-indigo-50 text-indigo-800"
+                    : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                <MemberAvatar member={member} size="sm" />
+                <span className="ml-2">{member.username}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">
+          Subtasks (optional)
+        </span>
+        <div className="mt-2">
+          {initialTask?.id ? (
+            <SubtaskChecklist task={initialTask as Task} canEdit />
+          ) : (
+            <p className="text-xs text-gray-500">
+              Subtasks can be added once the task is created.
+            </p>
+          )}
+        </div>
+        <label className="mt-2 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={completeWithSubtasks}
+            onChange={(e) => setCompleteWithSubtasks(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+          />
+          <span className="ml-2">
+            Complete this task when all its subtasks are done
+          </span>
+        </label>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">
+          Attachments (optional)
+        </span>
+        <div className="mt-2">
+          {initialTask?.id ? (
+            <AttachmentList task={initialTask as Task} canEdit />
+          ) : (
+            <p className="text-xs text-gray-500">
+              Files can be attached once the task is created.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {otherTasks.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700">
+            Depends on (optional)
+          </span>
+          <p className="text-xs text-gray-500">
+            This task can&apos;t be started or completed until the selected
+            tasks are done.
+          </p>
+          <div className="mt-2 max-h-40 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+            {otherTasks.map((task) => (
+              <label
+                key={task.id}
+                className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={dependencies.includes(task.id)}
+                  onChange={() => toggleDependency(task.id)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <span
+                  className={`ml-2 ${
+                    task.status === "completed"
+                      ? "line-through text-gray-400"
+                      : ""
+                  }`}
+                >
+                  {task.title}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="rounded-md bg-red-50 p-4">
           <div className="flex">
@@ -1,100 +1,341 @@
 // components/tasks/TaskList.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { supabase } from "@/lib/supabase";
-import type { Task, Category } from "@/lib/supabase";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { Category, Tag, Task, WorkspaceMember } from "@/lib/supabase";
+import { errorMessage, type TaskWithCategory } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import MemberAvatar from "@/components/workspaces/MemberAvatar";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+import { can, canOnTask, type WorkspacePermission } from "@/lib/permissions";
+import { describeRecurrence } from "@/lib/recurrence";
+import { statusBlocker, updateTaskStatus } from "@/lib/recurring-tasks";
+import { getOpenPrerequisites, type DependencyNode } from "@/lib/dependencies";
 import TaskForm from "./TaskForm";
+import QuickAddBar from "./QuickAddBar";
+import TaskBoard from "./TaskBoard";
+import SubtaskChecklist from "./SubtaskChecklist";
+import TaskDetail from "./TaskDetail";
+import TaskFilters from "./TaskFilters";
+import TagChip from "@/components/tags/TagChip";
+import { formatDue } from "@/lib/dates";
+import { useTimeZone } from "@/lib/use-time-zone";
+import { byPosition, positionAt, renumber } from "@/lib/board";
+import { stepSelection } from "@/lib/shortcuts";
+import {
+  useShortcuts,
+  useTaskActions,
+} from "@/components/shortcuts/ShortcutsContext";
+import {
+  taskRisk,
+  typicalCompletionTime,
+  type TaskRisk,
+} from "@/lib/task-risk";
+import {
+  DEFAULT_TASK_VIEW,
+  applyRiskView,
+  countFilters,
+  matchesDueFilters,
+  toTaskQuery,
+  type TaskView,
+} from "@/lib/task-views";
 
-export default function TaskList() {
-  const [tasks, setTasks] = useState<(Task & { category?: Category })[]>([]);
+interface TaskListProps {
+  // Shared tasks of this workspace; the active workspace when omitted
+  workspaceId?: string;
+  title?: string;
+  // Filters and order, when the caller keeps them, e.g. in the URL
+  taskView?: TaskView;
+  onTaskViewChange?: (view: TaskView) => void;
+  // Shown after the filters
+  filterActions?: React.ReactNode;
+  // Opens the new task form right away
+  startCreating?: boolean;
+  // Task open in the detail panel, when the caller keeps it
+  detailTaskId?: string | null;
+  onDetailTaskChange?: (taskId: string | null) => void;
+}
+
+export default function TaskList({
+  workspaceId: workspaceIdProp,
+  title = "Tasks",
+  taskView: taskViewProp,
+  onTaskViewChange,
+  filterActions,
+  startCreating,
+  detailTaskId,
+  onDetailTaskChange,
+}: TaskListProps) {
+  const { activeWorkspaceId, roleFor, userId } = useActiveWorkspace();
+  const workspaceId = workspaceIdProp ?? activeWorkspaceId ?? undefined;
+  const role = roleFor(workspaceId);
+  const canChange = (permission: WorkspacePermission, task: Task) =>
+    canOnTask(role, permission, task, userId);
+  const repositories = useRepositories();
+  const timeZone = useTimeZone();
+  const [tasks, setTasks] = useState<TaskWithCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(
+    !!startCreating && can(role, "tasks.create")
+  );
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [filter, setFilter] = useState<
-    "all" | "pending" | "in_progress" | "completed"
-  >("all");
+  const [prerequisites, setPrerequisites] = useState<DependencyNode[]>([]);
+  const [localTaskView, setLocalTaskView] = useState(DEFAULT_TASK_VIEW);
+  const taskView = taskViewProp ?? localTaskView;
+  const setTaskView = onTaskViewChange ?? setLocalTaskView;
+  // Options for the filters; null until loaded for the workspace
+  const [categories, setCategories] = useState<Category[] | null>(null);
+  const [tags, setTags] = useState<Tag[] | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  // How long the user usually takes to finish a task, for the risk badges
+  const [completionTime, setCompletionTime] = useState<number | null>(null);
+  const [view, setView] = useState<"list" | "board">("list");
+  // Task whose checklist is open below its row
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Task shown in the detail panel, looked up so refreshes reach it
+  const [localDetailId, setLocalDetailId] = useState<string | null>(null);
+  const detailId = detailTaskId ?? localDetailId;
+  const setDetailId = onDetailTaskChange ?? setLocalDetailId;
+  const detailTask = tasks.find((task) => task.id === detailId);
+  // Task picked with the keyboard in the list view
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const risks = useMemo(() => {
+    const env = { now: new Date(), timeZone, completionTime };
+    return new Map<string, TaskRisk | null>(
+      tasks.map((task) => [task.id, taskRisk(task, env)])
+    );
+  }, [tasks, timeZone, completionTime]);
+  // In the order they're shown
+  const shownTasks = useMemo(
+    () => applyRiskView(tasks, taskView, risks),
+    [tasks, taskView, risks]
+  );
+  const selectedTask =
+    (view === "list" && shownTasks.find((task) => task.id === selectedId)) ||
+    null;
 
   // At the top of your component, memoize the fetchTasks function
-  const fetchTasks = useCallback(async () => {
-    setLoading(true);
-    try {
-      let query = supabase
-        .from("tasks")
-        .select(
-          `
-        *,
-        categories(*)
-      `
-        )
-        .order("created_at", { ascending: false });
-
-      if (filter !== "all") {
-        query = query.eq("status", filter);
-      }
+  const fetchTasks = useCallback(
+    async (showSpinner = true) => {
+      if (showSpinner) setLoading(true);
+      setError(null);
+      try {
+        let userId: string | undefined;
 
-      const { data, error } = await query;
+        if (taskView.assignedToMe) {
+          const user = await repositories.profiles.getCurrentUser();
+          userId = user.id;
+        }
 
-      if (error) throw error;
+        const now = new Date();
+        const formattedTasks = (
+          await repositories.tasks.list({
+            workspaceId: workspaceId ?? null,
+            ...toTaskQuery(taskView, { userId, timeZone, now }),
+            // The board shows every status in its own column
+            ...(view === "board" && { status: undefined }),
+          })
+        ).filter((task) => matchesDueFilters(task, taskView, timeZone, now));
 
-      // Format the data to match our expected type
-      const formattedTasks = data.map((task) => ({
-        ...task,
-        category: task.categories,
-      })) as (Task & { category?: Category })[];
+        setTasks(formattedTasks);
 
-      setTasks(formattedTasks);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Error fetching tasks");
-      } else {
-        setError("Error fetching tasks");
+        // The status filter may hide prerequisites, so look them up separately
+        const prerequisiteIds = Array.from(
+          new Set(formattedTasks.flatMap((task) => task.dependencies || []))
+        );
+
+        setPrerequisites(await repositories.tasks.getByIds(prerequisiteIds));
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Error fetching tasks"));
+        console.error("Error fetching tasks:", err);
+      } finally {
+        setLoading(false);
       }
-      console.error("Error fetching tasks:", err);
-    } finally {
-      setLoading(false);
-    }
-  }, [filter]); // Now fetchTasks only changes when filter changes
+    },
+    [taskView, view, workspaceId, timeZone, repositories]
+  ); // Only changes with the scope, the filters or the view
 
   // Then in your useEffect
   useEffect(() => {
     fetchTasks();
 
-    // Setup real-time subscription
-    const subscription = supabase
-      .channel("tasks-changes")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "tasks" },
-        () => {
-          fetchTasks();
-        }
-      )
-      .subscribe();
+    // Setup real-time subscription; refreshes are quiet so moving cards on
+    // the board doesn't flash the spinner
+    return repositories.tasks.subscribe(workspaceId ?? null, () => {
+      fetchTasks(false);
+    });
+  }, [fetchTasks, workspaceId, repositories]); // Now this is safe and won't cause infinite loops
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        setMembers(
+          workspaceId
+            ? await repositories.workspaces.listMembers(workspaceId)
+            : await repositories.workspaces.listAssignableMembers()
+        );
+      } catch (err) {
+        console.error("Error fetching members:", err);
+      }
+    };
+
+    fetchMembers();
+  }, [workspaceId, repositories]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        setCategories(await repositories.categories.list(workspaceId ?? null));
+      } catch (err) {
+        console.error("Error fetching categories:", err);
+      }
+    };
+
+    setCategories(null);
+    fetchCategories();
+
+    return repositories.categories.subscribe(() => {
+      fetchCategories();
+    });
+  }, [workspaceId, repositories]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setTags(await repositories.tags.list(workspaceId ?? null));
+    } catch (err) {
+      console.error("Error fetching tags:", err);
+    }
+  }, [workspaceId, repositories]);
 
-    return () => {
-      subscription.unsubscribe();
+  useEffect(() => {
+    setTags(null);
+    fetchTags();
+  }, [fetchTags]);
+
+  useEffect(() => {
+    const fetchCompletionTime = async () => {
+      try {
+        const [user, activities] = await Promise.all([
+          repositories.profiles.getCurrentUser(),
+          repositories.activities.list({ workspaceId: workspaceId ?? null }),
+        ]);
+        setCompletionTime(typicalCompletionTime(activities, user.id));
+      } catch (err) {
+        console.error("Error fetching task history:", err);
+      }
     };
-  }, [fetchTasks]); // Now this is safe and won't cause infinite loops
+
+    fetchCompletionTime();
+  }, [workspaceId, repositories]);
+
+  // A deleted or merged category or tag, or one from another workspace,
+  // would filter out everything
+  useEffect(() => {
+    if (!categories || !tags) return;
+
+    const categoryGone =
+      !!taskView.categoryId &&
+      !categories.some((category) => category.id === taskView.categoryId);
+    const tagGone =
+      !!taskView.tagId && !tags.some((tag) => tag.id === taskView.tagId);
+
+    if (categoryGone || tagGone) {
+      setTaskView({
+        ...taskView,
+        categoryId: categoryGone ? undefined : taskView.categoryId,
+        tagId: tagGone ? undefined : taskView.tagId,
+      });
+    }
+  }, [categories, tags, taskView, setTaskView]);
+
+  // Renamed, recolored and merged tags show up on the tasks too, so one
+  // subscription refreshes both
+  useEffect(
+    () =>
+      repositories.tags.subscribe(() => {
+        fetchTags();
+        fetchTasks(false);
+      }),
+    [fetchTags, fetchTasks, repositories]
+  );
 
   const handleStatusChange = async (
     taskId: string,
-    newStatus: Task["status"]
+    newStatus: Task["status"],
+    position?: number
   ) => {
-    try {
-      const { error } = await supabase
-        .from("tasks")
-        .update({ status: newStatus })
-        .eq("id", taskId);
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
 
-      if (error) throw error;
+    // Checked before the change is shown, so there is nothing to undo
+    const blocker = statusBlocker(task, newStatus, prerequisites);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+
+    // Show the change right away; the realtime refresh confirms it
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === taskId
+          ? {
+              ...t,
+              status: newStatus,
+              ...(position !== undefined && { position }),
+            }
+          : t
+      )
+    );
+
+    try {
+      await updateTaskStatus(repositories, task, newStatus, {
+        changes: position !== undefined ? { position } : {},
+      });
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Error updating task status");
-      } else {
-        setError("Error updating task status");
+      // Undo the change shown above; no realtime event will
+      await fetchTasks(false);
+      setError(errorMessage(err, "Error updating task status"));
+    }
+  };
+
+  // Drops `task` into slot `index` of the `status` column on the board
+  const handleMove = async (
+    task: TaskWithCategory,
+    status: Task["status"],
+    index: number
+  ) => {
+    const column = shownTasks
+      .filter((t) => t.status === status && t.id !== task.id)
+      .sort(byPosition);
+    let position = positionAt(column, index);
+
+    try {
+      if (position === null) {
+        // Neighbours are too close together to fit between them
+        const renumbered = renumber(column, index);
+        position = renumbered.position;
+
+        await Promise.all(
+          Array.from(renumbered.positions, ([id, value]) =>
+            repositories.tasks.update(id, { position: value })
+          )
+        );
       }
+
+      if (status !== task.status) {
+        await handleStatusChange(task.id, status, position);
+        return;
+      }
+
+      const moved = position;
+      setTasks((prev) =>
+        prev.map((t) => (t.id === task.id ? { ...t, position: moved } : t))
+      );
+      await repositories.tasks.update(task.id, { position });
+    } catch (err: unknown) {
+      await fetchTasks(false);
+      setError(errorMessage(err, "Error moving task"));
     }
   };
 
@@ -104,19 +345,29 @@ export default function TaskList() {
     }
 
     try {
-      const { error } = await supabase.from("tasks").delete().eq("id", taskId);
-
-      if (error) throw error;
+      await repositories.tasks.remove(taskId);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Error deleting task");
-      } else {
-        setError("Error deleting task");
-      }
+      setError(errorMessage(err, "Error deleting task"));
       console.error("Error deleting task:", err);
     }
   };
 
+  const handlePriorityChange = async (
+    taskId: string,
+    priority: Task["priority"]
+  ) => {
+    setTasks((prev) =>
+      prev.map((t) => (t.id === taskId ? { ...t, priority } : t))
+    );
+
+    try {
+      await repositories.tasks.update(taskId, { priority });
+    } catch (err: unknown) {
+      await fetchTasks(false);
+      setError(errorMessage(err, "Error updating task priority"));
+    }
+  };
+
   const openFormForEdit = (task: Task) => {
     setEditingTask(task);
     setIsFormOpen(true);
@@ -127,6 +378,54 @@ export default function TaskList() {
     setEditingTask(null);
   };
 
+  const moveSelection = (step: number) =>
+    setSelectedId(
+      stepSelection(
+        shownTasks.map((task) => task.id),
+        selectedTask?.id ?? null,
+        step
+      )
+    );
+
+  useShortcuts(
+    {
+      nextTask: () => moveSelection(1),
+      previousTask: () => moveSelection(-1),
+      ...(selectedTask && {
+        openTask: () => setDetailId(selectedTask.id),
+        ...(canChange("tasks.update", selectedTask) && {
+          completeTask: () =>
+            selectedTask.status !== "completed" &&
+            handleStatusChange(selectedTask.id, "completed"),
+          editTask: () => openFormForEdit(selectedTask),
+        }),
+        ...(canChange("tasks.delete", selectedTask) && {
+          deleteTask: () => handleDeleteTask(selectedTask.id),
+        }),
+      }),
+    },
+    view === "list" && !isFormOpen && !detailTask
+  );
+
+  useTaskActions({
+    selected: selectedTask,
+    ...(can(role, "tasks.create") && { create: () => setIsFormOpen(true) }),
+    ...(selectedTask &&
+      canChange("tasks.update", selectedTask) && {
+        setStatus: (task, status) => handleStatusChange(task.id, status),
+        setPriority: (task, priority) =>
+          handlePriorityChange(task.id, priority),
+      }),
+  });
+
+  useEffect(() => {
+    if (selectedId) {
+      document
+        .getElementById(`task-${selectedId}`)
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  }, [selectedId]);
+
   const getStatusColor = (status: Task["status"]) => {
     switch (status) {
       case "pending":
@@ -163,6 +462,7 @@ export default function TaskList() {
         </div>
         <TaskForm
           initialTask={editingTask || undefined}
+          workspaceId={workspaceId}
           onSuccess={() => {
             closeForm();
             fetchTasks();
@@ -173,42 +473,74 @@ export default function TaskList() {
     );
   }
 
+  if (detailTask) {
+    return (
+      <TaskDetail
+        task={detailTask}
+        canUpdate={canChange("tasks.update", detailTask)}
+        canComment={can(role, "tasks.update")}
+        onEdit={() => openFormForEdit(detailTask)}
+        onClose={() => {
+          setDetailId(null);
+          fetchTasks(false);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="flex justify-between items-center p-6 border-b border-gray-200">
         <div className="flex items-center space-x-4">
-          <h2 className="text-xl font-medium text-gray-900">Tasks</h2>
+          <h2 className="text-xl font-medium text-gray-900">{title}</h2>
           <div className="flex rounded-md shadow-sm">
-            <select
-              value={filter}
-              onChange={(e) => {
-                const value = e.target.value;
-                if (
-                  value === "all" ||
-                  value === "pending" ||
-                  value === "in_progress" ||
-                  value === "completed"
-                ) {
-                  setFilter(value);
-                }
-              }}
-              className="rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
-            >
-              <option value="all">All Tasks</option>
-              <option value="pending">Pending</option>
-              <option value="in_progress">In Progress</option>
-              <option value="completed">Completed</option>
-            </select>
+            {(["list", "board"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                  view === option
+                    ? "bg-indigo-50 text-indigo-700"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {option === "list" ? "List" : "Board"}
+              </button>
+            ))}
           </div>
         </div>
-        <button
-          onClick={() => setIsFormOpen(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        {can(role, "tasks.create") && (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Add Task
+          </button>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-b border-gray-200">
+        <TaskFilters
+          value={taskView}
+          onChange={setTaskView}
+          categories={categories || []}
+          tags={tags || []}
+          showStatus={view === "list"}
         >
-          Add Task
-        </button>
+          {filterActions}
+        </TaskFilters>
       </div>
 
+      {can(role, "tasks.create") && (
+        <div className="px-6 py-4 border-b border-gray-200">
+          <QuickAddBar
+            workspaceId={workspaceId}
+            onCreated={() => fetchTasks(false)}
+          />
+        </div>
+      )}
+
       {loading ? (
         <div className="text-center py-12">
           <div className="spinner"></div>
@@ -218,121 +550,242 @@ export default function TaskList() {
         <div className="text-center py-12">
           <p className="text-red-500">{error}</p>
           <button
-            onClick={fetchTasks}
+            onClick={() => fetchTasks()}
             className="mt-2 text-indigo-600 hover:text-indigo-800"
           >
             Try again
           </button>
         </div>
-      ) : tasks.length === 0 ? (
+      ) : shownTasks.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500">
-            No tasks found. Create your first task!
+            {countFilters(taskView) > 0
+              ? "No tasks match these filters."
+              : "No tasks found. Create your first task!"}
           </p>
         </div>
+      ) : view === "board" ? (
+        <TaskBoard
+          tasks={shownTasks}
+          prerequisites={prerequisites}
+          members={members}
+          canUpdate={(task) => canChange("tasks.update", task)}
+          onMove={handleMove}
+          onEdit={openFormForEdit}
+          timeZone={timeZone}
+        />
       ) : (
         <ul className="divide-y divide-gray-200">
-          {tasks.map((task) => (
-            <li key={task.id} className="px-6 py-4 hover:bg-gray-50">
-              <div className="flex items-center justify-between">
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={task.status === "completed"}
-                      onChange={() =>
-                        handleStatusChange(
-                          task.id,
-                          task.status === "completed" ? "pending" : "completed"
-                        )
-                      }
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <div className="ml-3">
-                      <p
-                        className={`text-sm font-medium ${
-                          task.status === "completed"
-                            ? "line-through text-gray-500"
-                            : "text-gray-900"
-                        }`}
-                      >
-                        {task.title}
-                      </p>
-                      {task.description && (
-                        <p className="mt-1 text-sm text-gray-500 truncate">
-                          {task.description}
-                        </p>
-                      )}
-                      <div className="mt-2 flex flex-wrap gap-2">
-                        <span
-                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
-                            task.status
-                          )}`}
-                        >
-                          {task.status.replace("_", " ")}
-                        </span>
-                        <span
-                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(
-                            task.priority
-                          )}`}
+          {shownTasks.map((task) => {
+            const blockers = getOpenPrerequisites(task, prerequisites);
+            const risk = risks.get(task.id);
+            const assignees = members.filter((member) =>
+              task.assigned_to?.includes(member.user_id)
+            );
+
+            return (
+              <li
+                key={task.id}
+                id={`task-${task.id}`}
+                aria-current={task.id === selectedTask?.id || undefined}
+                className={`px-6 py-4 ${
+                  task.id === selectedTask?.id
+                    ? "bg-indigo-50 ring-2 ring-inset ring-indigo-500"
+                    : "hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={task.status === "completed"}
+                        disabled={!canChange("tasks.update", task)}
+                        onChange={() =>
+                          handleStatusChange(
+                            task.id,
+                            task.status === "completed"
+                              ? "pending"
+                              : "completed"
+                          )
+                        }
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      />
+                      <div className="ml-3">
+                        <button
+                          onClick={() => setDetailId(task.id)}
+                          className={`text-left text-sm font-medium hover:underline ${
+                            task.status === "completed"
+                              ? "line-through text-gray-500"
+                              : "text-gray-900"
+                          }`}
                         >
-                          {task.priority}
-                        </span>
-                        {task.category && (
+                          {task.title}
+                        </button>
+                        {task.description && (
+                          <p className="mt-1 text-sm text-gray-500 truncate">
+                            {task.description}
+                          </p>
+                        )}
+                        <div className="mt-2 flex flex-wrap gap-2">
                           <span
-                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
-                            style={{
-                              backgroundColor: `${task.category.color}20`,
-                              color: task.category.color,
-                            }}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                              task.status
+                            )}`}
                           >
-                            {task.category.name}
+                            {task.status.replace("_", " ")}
                           </span>
-                        )}
-                        {task.due_date && (
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                            Due: {new Date(task.due_date).toLocaleDateString()}
+                          <span
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(
+                              task.priority
+                            )}`}
+                          >
+                            {task.priority}
                           </span>
-                        )}
+                          {task.category && (
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                              style={{
+                                backgroundColor: `${task.category.color}20`,
+                                color: task.category.color,
+                              }}
+                            >
+                              {task.category.name}
+                            </span>
+                          )}
+                          {task.tags?.map((tag) => (
+                            <button
+                              key={tag.id}
+                              onClick={() =>
+                                setTaskView({ ...taskView, tagId: tag.id })
+                              }
+                              title={`Show tasks tagged #${tag.name}`}
+                            >
+                              <TagChip tag={tag} />
+                            </button>
+                          ))}
+                          {task.due_date && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              Due: {formatDue(task, timeZone)}
+                            </span>
+                          )}
+                          {risk && risk.level !== "on_track" && (
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                risk.level === "overdue"
+                                  ? "bg-red-100 text-red-800"
+                                  : "bg-orange-100 text-orange-800"
+                              }`}
+                              title={`Risk score ${risk.score} of 100`}
+                            >
+                              {risk.level === "overdue" ? "Overdue" : "At risk"}
+                            </span>
+                          )}
+                          {task.subtaskProgress && (
+                            <button
+                              onClick={() =>
+                                setExpandedId(
+                                  expandedId === task.id ? null : task.id
+                                )
+                              }
+                              aria-expanded={expandedId === task.id}
+                              title={`${task.subtaskProgress.completed} of ${task.subtaskProgress.total} subtasks done`}
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200"
+                            >
+                              {task.subtaskProgress.completed}/
+                              {task.subtaskProgress.total}
+                            </button>
+                          )}
+                          {!!task.commentCount && (
+                            <button
+                              onClick={() => setDetailId(task.id)}
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200"
+                            >
+                              {task.commentCount}{" "}
+                              {task.commentCount === 1 ? "comment" : "comments"}
+                            </button>
+                          )}
+                          {task.series && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                              Repeats:{" "}
+                              {describeRecurrence(task.series.recurrence)}
+                            </span>
+                          )}
+                          {blockers.length > 0 && (
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                              title={blockers.map((t) => t.title).join(", ")}
+                            >
+                              Blocked by {blockers.length}{" "}
+                              {blockers.length === 1 ? "task" : "tasks"}
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => {
-                      const newStatus =
-                        task.status === "pending"
-                          ? "in_progress"
+                  {assignees.length > 0 && (
+                    <div className="flex -space-x-2 mr-4">
+                      {assignees.map((member) => (
+                        <MemberAvatar
+                          key={member.user_id}
+                          member={member}
+                          size="sm"
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex space-x-2">
+                    {canChange("tasks.update", task) && (
+                      <button
+                        onClick={() => {
+                          const newStatus =
+                            task.status === "pending"
+                              ? "in_progress"
+                              : task.status === "in_progress"
+                              ? "completed"
+                              : "pending";
+                          handleStatusChange(task.id, newStatus);
+                        }}
+                        className="text-sm text-indigo-600 hover:text-indigo-900"
+                      >
+                        {task.status === "pending"
+                          ? "Start"
                           : task.status === "in_progress"
-                          ? "completed"
-                          : "pending";
-                      handleStatusChange(task.id, newStatus);
-                    }}
-                    className="text-sm text-indigo-600 hover:text-indigo-900"
-                  >
-                    {task.status === "pending"
-                      ? "Start"
-                      : task.status === "in_progress"
-                      ? "Complete"
-                      : "Reopen"}
-                  </button>
-                  <button
-                    onClick={() => openFormForEdit(task)}
-                    className="text-sm text-gray-600 hover:text-gray-900"
-                  >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => handleDeleteTask(task.id)}
-                    className="text-sm text-red-600 hover:text-red-900"
-                  >
-                    Delete
-                  </button>
+                          ? "Complete"
+                          : "Reopen"}
+                      </button>
+                    )}
+                    {canChange("tasks.update", task) && (
+                      <button
+                        onClick={() => openFormForEdit(task)}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {canChange("tasks.delete", task) && (
+                      <button
+                        onClick={() => handleDeleteTask(task.id)}
+                        className="text-sm text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </li>
-          ))}
+                {expandedId === task.id && (
+                  <div className="mt-3 ml-7">
+                    <SubtaskChecklist
+                      task={task}
+                      canEdit={canChange("tasks.update", task)}
+                      onChange={() => fetchTasks(false)}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
         </ul>
       )}
     </div>
@@ -0,0 +1,108 @@
+// components/views/SaveViewControls.tsx
+"use client";
+
+import { useState } from "react";
+import { errorMessage, type WorkspaceScope } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+
+interface SaveViewControlsProps {
+  // Query string of the current filters and order
+  query: string;
+  workspaceId: WorkspaceScope;
+}
+
+export default function SaveViewControls({
+  query,
+  workspaceId,
+}: SaveViewControlsProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const repositories = useRepositories();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await repositories.views.create({
+        name,
+        query,
+        workspace_id: workspaceId,
+      });
+      setIsNaming(false);
+      setName("");
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Error saving view"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The workspace goes along so the link opens the same tasks for others
+  const handleCopyLink = async () => {
+    const params = new URLSearchParams(query);
+    params.set("workspace", workspaceId || "personal");
+
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${window.location.pathname}?${params}`
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Couldn't copy the link"));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {isNaming ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setIsNaming(false)}
+            placeholder="View name"
+            aria-label="View name"
+            required
+            autoFocus
+            className="w-40 rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsNaming(false)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsNaming(true)}
+          className="text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Save view
+        </button>
+      )}
+      <button
+        onClick={handleCopyLink}
+        className="text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        {copied ? "Link copied" : "Copy link"}
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+// components/views/SavedViewsNav.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import type { SavedView } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { useActiveWorkspace } from "@/components/workspaces/ActiveWorkspaceContext";
+
+const TASKS_PATH = "/dashboard/tasks";
+
+// Query strings compare equal whatever order their parameters are in
+const normalize = (query: string) => {
+  const params = new URLSearchParams(query);
+  params.sort();
+  return params.toString();
+};
+
+// The sidebar's list of the user's saved task views in the active workspace
+export default function SavedViewsNav() {
+  const { activeWorkspaceId } = useActiveWorkspace();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const repositories = useRepositories();
+
+  const fetchViews = useCallback(async () => {
+    try {
+      setViews(await repositories.views.list(activeWorkspaceId));
+    } catch (err) {
+      console.error("Error fetching saved views:", err);
+    }
+  }, [activeWorkspaceId, repositories]);
+
+  useEffect(() => {
+    fetchViews();
+
+    return repositories.views.subscribe(() => {
+      fetchViews();
+    });
+  }, [fetchViews, repositories]);
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    try {
+      await repositories.views.remove(view.id);
+      fetchViews();
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to delete view"));
+    }
+  };
+
+  if (views.length === 0) return null;
+
+  const current = pathname === TASKS_PATH && normalize(searchParams.toString());
+
+  return (
+    <div className="mt-6 px-2">
+      <h2 className="px-2 text-xs font-semibold uppercase tracking-wider text-indigo-300">
+        Saved views
+      </h2>
+      <ul className="mt-2 space-y-1">
+        {views.map((view) => (
+          <li key={view.id} className="group flex items-center">
+            <Link
+              href={view.query ? `${TASKS_PATH}?${view.query}` : TASKS_PATH}
+              className={`flex-1 truncate px-2 py-2 text-sm font-medium rounded-md ${
+                current === normalize(view.query)
+                  ? "bg-indigo-900 text-white"
+                  : "text-indigo-100 hover:bg-indigo-700"
+              }`}
+            >
+              {view.name}
+            </Link>
+            <button
+              onClick={() => handleDelete(view)}
+              aria-label={`Delete view ${view.name}`}
+              className="ml-1 px-2 text-indigo-300 opacity-0 hover:text-white group-hover:opacity-100 focus:opacity-100"
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+// components/workspaces/ActiveWorkspaceContext.tsx
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import type { WorkspaceRole } from "@/lib/permissions";
+import type { WorkspaceWithRole } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+
+type ActiveWorkspaceContextValue = {
+  // null means the user's personal space
+  activeWorkspaceId: string | null;
+  activeWorkspace: WorkspaceWithRole | null;
+  activeRole: WorkspaceRole;
+  // The signed-in user, once loaded
+  userId: string | null;
+  workspaces: WorkspaceWithRole[];
+  loading: boolean;
+  // The user's role in a workspace; personal space counts as owned
+  roleFor: (workspaceId: string | null | undefined) => WorkspaceRole | null;
+  setActiveWorkspaceId: (workspaceId: string | null) => Promise<void>;
+  refreshWorkspaces: () => Promise<void>;
+};
+
+const ActiveWorkspaceContext = createContext<ActiveWorkspaceContextValue>({
+  activeWorkspaceId: null,
+  activeWorkspace: null,
+  activeRole: "owner",
+  userId: null,
+  workspaces: [],
+  loading: false,
+  roleFor: () => "owner",
+  setActiveWorkspaceId: async () => {},
+  refreshWorkspaces: async () => {},
+});
+
+export function ActiveWorkspaceProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [activeWorkspaceId, setActiveId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { workspaces: workspaceRepository, profiles } = useRepositories();
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const userWorkspaces = await workspaceRepository.listForCurrentUser();
+      setWorkspaces(userWorkspaces);
+
+      // Fall back to personal if the active workspace is no longer available
+      setActiveId((current) =>
+        current && userWorkspaces.some((w) => w.id === current) ? current : null
+      );
+    } catch (err) {
+      console.error("Error fetching workspaces:", err);
+    }
+  }, [workspaceRepository]);
+
+  useEffect(() => {
+    const loadActiveWorkspace = async () => {
+      setLoading(true);
+      try {
+        const [profile, userWorkspaces] = await Promise.all([
+          profiles.getCurrent(),
+          workspaceRepository.listForCurrentUser(),
+        ]);
+
+        setUserId(profile.id);
+        setWorkspaces(userWorkspaces);
+
+        const savedId = profile.active_workspace_id || null;
+        setActiveId(
+          savedId && userWorkspaces.some((w) => w.id === savedId)
+            ? savedId
+            : null
+        );
+      } catch (err) {
+        console.error("Error loading active workspace:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadActiveWorkspace();
+  }, [profiles, workspaceRepository]);
+
+  const setActiveWorkspaceId = useCallback(
+    async (workspaceId: string | null) => {
+      setActiveId(workspaceId);
+
+      try {
+        await profiles.updateCurrent({ active_workspace_id: workspaceId });
+      } catch (err) {
+        console.error("Failed to save active workspace:", err);
+      }
+    },
+    [profiles]
+  );
+
+  const activeWorkspace =
+    workspaces.find((workspace) => workspace.id === activeWorkspaceId) || null;
+
+  const roleFor = useCallback(
+    (workspaceId: string | null | undefined) =>
+      workspaceId
+        ? workspaces.find((workspace) => workspace.id === workspaceId)?.role ||
+          null
+        : "owner",
+    [workspaces]
+  );
+
+  return (
+    <ActiveWorkspaceContext.Provider
+      value={{
+        activeWorkspaceId,
+        activeWorkspace,
+        activeRole: activeWorkspace?.role || "owner",
+        userId,
+        workspaces,
+        loading,
+        roleFor,
+        setActiveWorkspaceId,
+        refreshWorkspaces,
+      }}
+    >
+      {children}
+    </ActiveWorkspaceContext.Provider>
+  );
+}
+
+export const useActiveWorkspace = () => useContext(ActiveWorkspaceContext);
@@ -0,0 +1,35 @@
+// components/workspaces/MemberAvatar.tsx
+import type { WorkspaceMember } from "@/lib/supabase";
+
+interface MemberAvatarProps {
+  member: Pick<WorkspaceMember, "username" | "avatar_url">;
+  size?: "sm" | "md";
+}
+
+export default function MemberAvatar({
+  member,
+  size = "md",
+}: MemberAvatarProps) {
+  const sizeClass = size === "sm" ? "h-6 w-6 text-xs" : "h-8 w-8 text-sm";
+
+  if (member.avatar_url) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={member.avatar_url}
+        alt={member.username}
+        title={member.username}
+        className={`${sizeClass} rounded-full object-cover ring-2 ring-white`}
+      />
+    );
+  }
+
+  return (
+    <div
+      title={member.username}
+      className={`${sizeClass} rounded-full bg-indigo-100 flex items-center justify-center text-indigo-800 font-medium ring-2 ring-white`}
+    >
+      {member.username.charAt(0).toUpperCase()}
+    </div>
+  );
+}
@@ -2,24 +2,22 @@
 "use client";
 
 import { useState } from "react";
-import { supabase } from "@/lib/supabase";
-
-type Workspace = {
-  id: string;
-  name: string;
-  description: string;
-  created_by: string;
-  created_at: string;
-};
+import type { Workspace } from "@/lib/supabase";
+import { errorMessage } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import { can, type WorkspaceRole } from "@/lib/permissions";
 
 interface WorkspaceFormProps {
   initialWorkspace?: Partial<Workspace>;
+  // Caller's role in the workspace being edited
+  role?: WorkspaceRole;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
 export default function WorkspaceForm({
   initialWorkspace,
+  role,
   onSuccess,
   onCancel,
 }: WorkspaceFormProps) {
@@ -29,37 +27,32 @@ export default function WorkspaceForm({
   );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const readOnly = !!initialWorkspace?.id && !can(role, "workspace.update");
+  const repositories = useRepositories();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (readOnly) return;
     setLoading(true);
     setError(null);
 
     try {
       if (initialWorkspace?.id) {
         // Update existing workspace
-        const { error } = await supabase
-          .from("workspaces")
-          .update({ name, description })
-          .eq("id", initialWorkspace.id);
-
-        if (error) throw error;
+        await repositories.workspaces.update(initialWorkspace.id, {
+          name,
+          description,
+        });
       } else {
         // Create new workspace
-        const { error } = await supabase
-          .from("workspaces")
-          .insert([{ name, description }]);
-
-        if (error) throw error;
+        await repositories.workspaces.create({ name, description });
       }
 
       onSuccess();
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "An error occurred while saving the workspace");
-      } else {
-        setError("An error occurred while saving the workspace");
-      }
+      setError(
+        errorMessage(err, "An error occurred while saving the workspace")
+      );
     } finally {
       setLoading(false);
     }
@@ -80,6 +73,7 @@ export default function WorkspaceForm({
           value={name}
           onChange={(e) => setName(e.target.value)}
           required
+          disabled={readOnly}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
         />
       </div>
@@ -96,10 +90,17 @@ export default function WorkspaceForm({
           value={description}
           onChange={(e) => setDescription(e.target.value)}
           rows={3}
+          disabled={readOnly}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
         />
       </div>
 
+      {readOnly && (
+        <p className="text-sm text-gray-500">
+          Only owners and admins can edit this workspace.
+        </p>
+      )}
+
       {error && (
         <div className="rounded-md bg-red-50 p-4">
           <div className="flex">
@@ -118,7 +119,7 @@ export default function WorkspaceForm({
         </button>
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || readOnly}
           className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
         >
           {loading
@@ -1,137 +1,59 @@
 // components/workspaces/WorkspaceList.tsx
 "use client";
 
-import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState, useEffect, useCallback } from "react";
+import type { WorkspaceMember } from "@/lib/supabase";
+import { errorMessage, type WorkspaceWithRole } from "@/lib/repositories";
+import { useRepositories } from "@/lib/repositories/context";
+import {
+  assignableRoles,
+  can,
+  canManageMember,
+  type WorkspaceRole,
+} from "@/lib/permissions";
 import WorkspaceForm from "./WorkspaceForm";
-
-type Workspace = {
-  id: string;
-  name: string;
-  description: string;
-  created_by: string;
-  created_at: string;
-};
-
-type Member = {
-  user_id: string;
-  role: string;
-  username: string;
-};
-
-type WorkspaceMemberWithProfile = {
-  user_id: string;
-  role: string;
-  profiles: {
-    username: string;
-  }[];
-};
+import MemberAvatar from "./MemberAvatar";
+import { useActiveWorkspace } from "./ActiveWorkspaceContext";
+import TaskList from "@/components/tasks/TaskList";
+import InvitationManager from "@/components/invitations/InvitationManager";
 
 export default function WorkspaceList() {
-  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingWorkspace, setEditingWorkspace] = useState<Workspace | null>(
-    null
-  );
-  const [currentWorkspace, setCurrentWorkspace] = useState<Workspace | null>(
-    null
-  );
-  const [members, setMembers] = useState<Member[]>([]);
+  const [editingWorkspace, setEditingWorkspace] =
+    useState<WorkspaceWithRole | null>(null);
+  const [currentWorkspace, setCurrentWorkspace] =
+    useState<WorkspaceWithRole | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
   const [loadingMembers, setLoadingMembers] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { refreshWorkspaces } = useActiveWorkspace();
+  const repositories = useRepositories();
 
-  const fetchWorkspaces = async () => {
+  const fetchWorkspaces = useCallback(async () => {
     setLoading(true);
     try {
-      // Get workspaces where user is a member
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) throw new Error("User not authenticated");
-
-      // First, get workspaces created by the user
-      const { data: ownedWorkspaces, error: ownedError } = await supabase
-        .from("workspaces")
-        .select("*")
-        .eq("created_by", user.id)
-        .order("created_at", { ascending: false });
-
-      if (ownedError) throw ownedError;
-
-      // Then, get workspaces where the user is a member
-      const { data: memberWorkspaces, error: memberError } = await supabase
-        .from("workspace_members")
-        .select(
-          `
-          workspace_id,
-          workspaces (*)
-        `
-        )
-        .eq("user_id", user.id);
-
-      if (memberError) throw memberError;
-
-      // Combine and deduplicate the workspaces
-      const memberWorkspacesData = memberWorkspaces
-        .map((item) => item.workspaces as unknown as Workspace)
-        .filter(Boolean);
-
-      const allWorkspaces = [...ownedWorkspaces, ...memberWorkspacesData];
-
-      // Remove duplicates based on workspace id
-      const uniqueWorkspaces = Array.from(
-        new Map(allWorkspaces.map((item) => [item.id, item])).values()
-      );
-
-      setWorkspaces(uniqueWorkspaces);
+      setWorkspaces(await repositories.workspaces.listForCurrentUser());
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Failed to fetch workspaces");
-      } else {
-        setError("Failed to fetch workspaces");
-      }
+      setError(errorMessage(err, "Failed to fetch workspaces"));
       console.error("Failed to fetch workspaces:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [repositories]);
 
   const fetchWorkspaceMembers = async (workspaceId: string) => {
     setLoadingMembers(true);
     try {
-      const { data, error } = await supabase
-        .from("workspace_members")
-        .select(
-          `
-          user_id,
-          role,
-          profiles (username)
-        `
-        )
-        .eq("workspace_id", workspaceId);
-
-      if (error) throw error;
-
-      const formattedMembers = data.map(
-        (member: WorkspaceMemberWithProfile) => ({
-          user_id: member.user_id,
-          role: member.role,
-          username:
-            member.profiles && member.profiles.length > 0
-              ? member.profiles[0].username
-              : "Unknown User",
-        })
+      const formattedMembers = await repositories.workspaces.listMembers(
+        workspaceId
       );
 
       setMembers(formattedMembers);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Error fetching workspace members");
-      } else {
-        setError("Error fetching workspace members");
-      }
+      setError(errorMessage(err, "Error fetching workspace members"));
       console.error("Error fetching workspace members:", err);
     } finally {
       setLoadingMembers(false);
@@ -142,23 +64,13 @@ export default function WorkspaceList() {
     fetchWorkspaces();
 
     // Setup real-time subscription for workspaces
-    const workspacesSubscription = supabase
-      .channel("workspaces-changes")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "workspaces" },
-        () => {
-          fetchWorkspaces();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      workspacesSubscription.unsubscribe();
-    };
-  }, []);
+    return repositories.workspaces.subscribe(() => {
+      fetchWorkspaces();
+      refreshWorkspaces();
+    });
+  }, [fetchWorkspaces, refreshWorkspaces, repositories]);
 
-  const openFormForEdit = (workspace: Workspace) => {
+  const openFormForEdit = (workspace: WorkspaceWithRole) => {
     setEditingWorkspace(workspace);
     setIsFormOpen(true);
   };
@@ -174,31 +86,97 @@ export default function WorkspaceList() {
     }
 
     try {
-      const { error } = await supabase
-        .from("workspaces")
-        .delete()
-        .eq("id", workspaceId);
-
-      if (error) throw error;
+      await repositories.workspaces.remove(workspaceId);
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        alert(
-          err.message ||
-            "Failed to delete workspace. Check if it has active members or tasks."
-        );
-      } else {
-        alert(
+      alert(
+        errorMessage(
+          err,
           "Failed to delete workspace. Check if it has active members or tasks."
-        );
-      }
+        )
+      );
     }
   };
 
-  const viewWorkspaceDetails = async (workspace: Workspace) => {
+  const viewWorkspaceDetails = async (workspace: WorkspaceWithRole) => {
     setCurrentWorkspace(workspace);
+
+    try {
+      const user = await repositories.profiles.getCurrentUser();
+      setCurrentUserId(user.id);
+    } catch {
+      setCurrentUserId(null);
+    }
+
     await fetchWorkspaceMembers(workspace.id);
   };
 
+  const handleRoleChange = async (
+    member: WorkspaceMember,
+    role: WorkspaceRole
+  ) => {
+    if (!currentWorkspace) return;
+
+    try {
+      await repositories.workspaces.updateMemberRole(
+        currentWorkspace.id,
+        member.user_id,
+        role
+      );
+      setMembers((prev) =>
+        prev.map((m) => (m.user_id === member.user_id ? { ...m, role } : m))
+      );
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to change role"));
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (
+      !currentWorkspace ||
+      !confirm(`Remove ${member.username} from this workspace?`)
+    ) {
+      return;
+    }
+
+    try {
+      await repositories.workspaces.removeMember(
+        currentWorkspace.id,
+        member.user_id
+      );
+      setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to remove member"));
+    }
+  };
+
+  const handleTransferOwnership = async (member: WorkspaceMember) => {
+    if (
+      !currentWorkspace ||
+      !confirm(
+        `Make ${member.username} the owner of ${currentWorkspace.name}? You will become an admin.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await repositories.workspaces.transferOwnership(
+        currentWorkspace.id,
+        member.user_id
+      );
+      setCurrentWorkspace({
+        ...currentWorkspace,
+        created_by: member.user_id,
+        role: "admin",
+      });
+      await fetchWorkspaceMembers(currentWorkspace.id);
+      fetchWorkspaces();
+      refreshWorkspaces();
+    } catch (err: unknown) {
+      alert(errorMessage(err, "Failed to transfer ownership"));
+    }
+  };
+
   const backToList = () => {
     setCurrentWorkspace(null);
     setMembers([]);
@@ -222,9 +200,11 @@ export default function WorkspaceList() {
         </div>
         <WorkspaceForm
           initialWorkspace={editingWorkspace || undefined}
+          role={editingWorkspace?.role}
           onSuccess={() => {
             closeForm();
             fetchWorkspaces();
+            refreshWorkspaces();
           }}
           onCancel={closeForm}
         />
@@ -277,29 +257,69 @@ export default function WorkspaceList() {
                     className="py-3 flex justify-between items-center"
                   >
                     <div className="flex items-center">
-                      <div className="h-8 w-8 rounded-full bg-indigo-100 flex items-center justify-center text-indigo-800 font-medium">
-                        {member.username.charAt(0).toUpperCase()}
-                      </div>
+                      <MemberAvatar member={member} />
                       <span className="ml-3 text-sm font-medium text-gray-900">
                         {member.username}
                       </span>
                     </div>
-                    <span className="text-xs font-medium text-gray-500 uppercase">
-                      {member.role}
-                    </span>
+                    {member.user_id !== currentUserId &&
+                    canManageMember(currentWorkspace.role, member.role) ? (
+                      <div className="flex items-center space-x-3">
+                        <select
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(
+                              member,
+                              e.target.value as WorkspaceRole
+                            )
+                          }
+                          className="rounded-md border-gray-300 py-1 pl-2 pr-8 text-xs focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                        >
+                          {assignableRoles(currentWorkspace.role).map(
+                            (role) => (
+                              <option key={role} value={role}>
+                                {role.charAt(0).toUpperCase() + role.slice(1)}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        {can(currentWorkspace.role, "workspace.transfer") && (
+                          <button
+                            onClick={() => handleTransferOwnership(member)}
+                            className="text-xs text-indigo-600 hover:text-indigo-900"
+                          >
+                            Make owner
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRemoveMember(member)}
+                          className="text-xs text-red-600 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs font-medium text-gray-500 uppercase">
+                        {member.role}
+                      </span>
+                    )}
                   </li>
                 ))}
               </ul>
             )}
           </div>
 
+          {can(currentWorkspace.role, "members.invite") && (
+            <div className="mt-6">
+              <InvitationManager
+                workspaceId={currentWorkspace.id}
+                role={currentWorkspace.role}
+              />
+            </div>
+          )}
+
           <div className="mt-6">
-            <h4 className="text-base font-medium text-gray-900 mb-2">
-              Team Tasks
-            </h4>
-            <p className="text-sm text-gray-500">
-              Coming soon: Shared tasks and collaboration features
-            </p>
+            <TaskList workspaceId={currentWorkspace.id} title="Team Tasks" />
           </div>
         </div>
       </div>
@@ -350,6 +370,9 @@ export default function WorkspaceList() {
                 >
                   <h3 className="text-sm font-medium text-gray-900">
                     {workspace.name}
+                    <span className="ml-2 text-xs font-medium text-gray-400 uppercase">
+                      {workspace.role}
+                    </span>
                   </h3>
                   <p className="mt-1 text-sm text-gray-500 line-clamp-1">
                     {workspace.description || "No description"}
@@ -359,18 +382,22 @@ export default function WorkspaceList() {
                   </p>
                 </div>
                 <div className="flex space-x-2">
-                  <button
-                    onClick={() => openFormForEdit(workspace)}
-                    className="text-sm text-gray-600 hover:text-gray-900"
-                  >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => handleDeleteWorkspace(workspace.id)}
-                    className="text-sm text-red-600 hover:text-red-900"
-                  >
-                    Delete
-                  </button>
+                  {can(workspace.role, "workspace.update") && (
+                    <button
+                      onClick={() => openFormForEdit(workspace)}
+                      className="text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {can(workspace.role, "workspace.delete") && (
+                    <button
+                      onClick={() => handleDeleteWorkspace(workspace.id)}
+                      className="text-sm text-red-600 hover:text-red-900"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             </li>
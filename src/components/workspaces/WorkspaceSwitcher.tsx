@@ -0,0 +1,34 @@
+// components/workspaces/WorkspaceSwitcher.tsx
+"use client";
+
+import { useActiveWorkspace } from "./ActiveWorkspaceContext";
+
+export default function WorkspaceSwitcher() {
+  const { activeWorkspaceId, workspaces, loading, setActiveWorkspaceId } =
+    useActiveWorkspace();
+
+  return (
+    <div className="px-4 mt-6">
+      <label
+        htmlFor="workspace-switcher"
+        className="block text-xs font-medium uppercase tracking-wide text-indigo-200"
+      >
+        Workspace
+      </label>
+      <select
+        id="workspace-switcher"
+        value={activeWorkspaceId || ""}
+        disabled={loading}
+        onChange={(e) => setActiveWorkspaceId(e.target.value || null)}
+        className="mt-1 block w-full rounded-md border-indigo-600 bg-indigo-700 py-2 pl-3 pr-10 text-sm text-white focus:border-indigo-300 focus:outline-none focus:ring-indigo-300 disabled:opacity-50"
+      >
+        <option value="">Personal</option>
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
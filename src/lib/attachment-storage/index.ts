@@ -0,0 +1,40 @@
+// src/lib/attachment-storage/index.ts
+import { localAttachmentStorage } from "./local";
+import { supabaseAttachmentStorage } from "./supabase";
+
+// Stores attachment files by path; metadata lives in task_attachments
+export interface AttachmentStorage {
+  upload(path: string, file: Blob): Promise<void>;
+  // A URL the browser can load the file from, e.g. for previews
+  getUrl(path: string): Promise<string>;
+  remove(path: string): Promise<void>;
+}
+
+type StorageFactory = () => AttachmentStorage;
+
+const storages = new Map<string, StorageFactory>([
+  ["supabase", () => supabaseAttachmentStorage],
+  ["local", () => localAttachmentStorage],
+]);
+
+/**
+ * Makes a storage backend selectable through
+ * NEXT_PUBLIC_ATTACHMENT_STORAGE, e.g. S3 or another object store.
+ */
+export function registerAttachmentStorage(
+  name: string,
+  factory: StorageFactory
+) {
+  storages.set(name, factory);
+}
+
+export function getAttachmentStorage() {
+  const name = process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE || "supabase";
+  const factory = storages.get(name);
+
+  if (!factory) {
+    throw new Error(`Unknown attachment storage "${name}"`);
+  }
+
+  return factory();
+}
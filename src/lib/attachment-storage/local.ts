@@ -0,0 +1,70 @@
+// src/lib/attachment-storage/local.ts
+import { supabase } from "@/lib/supabase";
+import {
+  RepositoryError,
+  type RepositoryErrorCode,
+} from "@/lib/repositories/errors";
+import type { AttachmentStorage } from "./index";
+
+// Development stand-in for a storage bucket: files go through the
+// /api/attachments route to a directory on the server (ATTACHMENT_DIR)
+
+const HTTP_ERROR_CODES: Record<number, RepositoryErrorCode> = {
+  400: "validation",
+  401: "unauthenticated",
+  403: "permission_denied",
+  404: "not_found",
+  413: "validation",
+};
+
+async function request(path: string, init: RequestInit = {}) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new RepositoryError("User not authenticated", "unauthenticated");
+  }
+
+  const response = await fetch(
+    `/api/attachments/${path.split("/").map(encodeURIComponent).join("/")}`,
+    {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new RepositoryError(
+      body.error || "Attachment storage request failed",
+      HTTP_ERROR_CODES[response.status] || "unknown"
+    );
+  }
+
+  return response;
+}
+
+export const localAttachmentStorage: AttachmentStorage = {
+  async upload(path, file) {
+    await request(path, {
+      method: "PUT",
+      headers: { "Content-Type": file.type || "application/octet-stream" },
+      body: file,
+    });
+  },
+
+  // The route needs the access token, which <img> and <iframe> can't send,
+  // so the file is fetched here and handed out as an object URL
+  async getUrl(path) {
+    const response = await request(path);
+    return URL.createObjectURL(await response.blob());
+  },
+
+  async remove(path) {
+    await request(path, { method: "DELETE" });
+  },
+};
@@ -0,0 +1,41 @@
+// src/lib/attachment-storage/supabase.ts
+import { supabase } from "@/lib/supabase";
+import { RepositoryError } from "@/lib/repositories/errors";
+import type { AttachmentStorage } from "./index";
+
+const BUCKET = "attachments";
+
+// Signed URLs outlive a preview comfortably without being shareable for long
+const URL_LIFETIME_SECONDS = 60 * 60;
+
+export const supabaseAttachmentStorage: AttachmentStorage = {
+  async upload(path, file) {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (error) {
+      throw new RepositoryError(error.message, "unknown", error);
+    }
+  },
+
+  async getUrl(path) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(path, URL_LIFETIME_SECONDS);
+
+    if (error) {
+      throw new RepositoryError(error.message, "not_found", error);
+    }
+
+    return data.signedUrl;
+  },
+
+  async remove(path) {
+    const { error } = await supabase.storage.from(BUCKET).remove([path]);
+
+    if (error) {
+      throw new RepositoryError(error.message, "unknown", error);
+    }
+  },
+};
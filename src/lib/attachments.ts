@@ -0,0 +1,75 @@
+// src/lib/attachments.ts
+import type { TaskAttachment } from "@/lib/supabase";
+
+// Keep in sync with supabase/migrations/20261019001100_task_attachments.sql
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_QUOTA = 100 * 1024 * 1024;
+
+export type AttachmentPreview = "image" | "pdf" | null;
+
+// How an attachment can be shown inline, if at all. SVG can carry script,
+// so it's treated like any other file.
+export function previewKind(
+  attachment: Pick<TaskAttachment, "content_type">
+): AttachmentPreview {
+  const type = attachment.content_type.toLowerCase();
+
+  if (type.startsWith("image/") && type !== "image/svg+xml") return "image";
+  if (type === "application/pdf") return "pdf";
+  return null;
+}
+
+/**
+ * The type to serve a file as from our own origin: anything that can't be
+ * previewed is downloaded rather than rendered, so an uploaded HTML page
+ * can't run as the app.
+ */
+export const servedContentType = (
+  attachment: Pick<TaskAttachment, "content_type">
+) =>
+  previewKind(attachment)
+    ? attachment.content_type
+    : "application/octet-stream";
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Why `files` can't be uploaded by someone who has already stored
+ * `usedBytes`, or null when they fit. The backend enforces the same limits.
+ */
+export function checkAttachmentSizes(
+  files: Pick<File, "name" | "size">[],
+  usedBytes: number
+) {
+  const empty = files.find((file) => file.size === 0);
+  if (empty) return `"${empty.name}" is empty`;
+
+  const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+  if (tooLarge) {
+    return `"${tooLarge.name}" is larger than ${formatBytes(
+      MAX_ATTACHMENT_SIZE
+    )}`;
+  }
+
+  const total = files.reduce((sum, file) => sum + file.size, usedBytes);
+  if (total > ATTACHMENT_QUOTA) {
+    return `This would use ${formatBytes(total)} of your ${formatBytes(
+      ATTACHMENT_QUOTA
+    )} attachment storage`;
+  }
+
+  return null;
+}
+
+/**
+ * Where a file attached to `taskId` is stored: under the task, with a random
+ * prefix so names can repeat.
+ */
+export const attachmentPath = (taskId: string, fileName: string) =>
+  `${taskId}/${crypto.randomUUID()}-${
+    fileName.replace(/[^\w.-]+/g, "_").slice(-100) || "file"
+  }`;
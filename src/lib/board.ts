@@ -0,0 +1,48 @@
+// src/lib/board.ts
+import type { Task } from "@/lib/supabase";
+
+export const BOARD_COLUMNS: { status: Task["status"]; title: string }[] = [
+  { status: "pending", title: "Pending" },
+  { status: "in_progress", title: "In Progress" },
+  { status: "completed", title: "Completed" },
+];
+
+type Positioned = Pick<Task, "id" | "position">;
+
+// Below this gap, midpoints stop being distinct doubles soon
+const MIN_GAP = 1e-6;
+
+export const byPosition = (a: Positioned, b: Positioned) =>
+  a.position - b.position;
+
+/**
+ * Position for a task dropped at `index` of `column` (sorted, without the
+ * task itself): halfway between its new neighbours. Returns null when they
+ * are too close together and the column needs renumbering first.
+ */
+export function positionAt(column: Positioned[], index: number) {
+  const before = column[index - 1]?.position;
+  const after = column[index]?.position;
+
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return after - 1;
+  if (after === undefined) return before + 1;
+
+  return after - before > MIN_GAP ? (before + after) / 2 : null;
+}
+
+/**
+ * Evenly spaced positions for `column` in its current order, leaving room
+ * for `index` (the slot a task is being dropped into). Only tasks whose
+ * position changes are returned.
+ */
+export function renumber(column: Positioned[], index: number) {
+  const positions = new Map<string, number>();
+
+  column.forEach((task, i) => {
+    const position = i < index ? i : i + 1;
+    if (position !== task.position) positions.set(task.id, position);
+  });
+
+  return { positions, position: index };
+}
@@ -0,0 +1,62 @@
+// src/lib/calendar.ts
+import {
+  addDays,
+  dueTime,
+  toDueFields,
+  weekdayOf,
+  type DueFields,
+} from "@/lib/dates";
+
+// Calendar days are "YYYY-MM-DD" strings; see src/lib/dates.ts for which day
+// a task is due on.
+
+export type CalendarMode = "month" | "week";
+
+const toDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromDayKey = (day: string) => new Date(`${day}T00:00:00Z`);
+
+/**
+ * The days shown for `anchor`: the Monday-to-Sunday week containing it, or
+ * every full week that overlaps its month.
+ */
+export function visibleDays(anchor: string, mode: CalendarMode) {
+  const first = mode === "week" ? anchor : `${anchor.slice(0, 7)}-01`;
+  const start = addDays(first, 1 - weekdayOf(first));
+
+  let end = addDays(start, 7);
+  if (mode === "month") {
+    const nextMonth = shiftAnchor(first, "month", 1);
+    while (end < nextMonth) end = addDays(end, 7);
+  }
+
+  const days: string[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+/**
+ * Moves `anchor` by `amount` months or weeks; months land on their 1st.
+ */
+export function shiftAnchor(
+  anchor: string,
+  mode: CalendarMode,
+  amount: number
+) {
+  if (mode === "week") return addDays(anchor, amount * 7);
+
+  const date = fromDayKey(anchor);
+  return toDayKey(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + amount, 1))
+  );
+}
+
+/**
+ * The due fields of `task` moved to `day`, keeping its due time as seen in
+ * `timeZone`.
+ */
+export const reschedule = (task: DueFields, day: string, timeZone: string) =>
+  toDueFields(day, dueTime(task, timeZone), timeZone);
+
+export const isWorkDay = (day: string, workDays?: number[]) =>
+  !workDays?.length || workDays.includes(weekdayOf(day));
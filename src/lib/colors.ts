@@ -0,0 +1,26 @@
+// src/lib/colors.ts
+
+// Colors offered for categories and tags
+export const COLOR_OPTIONS = [
+  { name: "Blue", value: "#3B82F6" },
+  { name: "Red", value: "#EF4444" },
+  { name: "Green", value: "#10B981" },
+  { name: "Yellow", value: "#F59E0B" },
+  { name: "Purple", value: "#8B5CF6" },
+  { name: "Pink", value: "#EC4899" },
+  { name: "Indigo", value: "#6366F1" },
+  { name: "Gray", value: "#6B7280" },
+];
+
+/**
+ * A color for a tag created on the fly, picked from the name so that the
+ * same name always gets the same color.
+ */
+export function colorForName(name: string) {
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+
+  return COLOR_OPTIONS[Math.abs(hash) % COLOR_OPTIONS.length].value;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  dayIn,
+  dueDay,
+  dueInstant,
+  formatDue,
+  timeIn,
+  toDueFields,
+  weekdayOf,
+  zonedInstant,
+} from "@/lib/dates";
+
+describe("dates", () => {
+  it("converts wall-clock times to instants and back", () => {
+    const instant = zonedInstant("2026-10-19", "09:30", "America/New_York");
+
+    expect(instant.toISOString()).toBe("2026-10-19T13:30:00.000Z");
+    expect(dayIn(instant, "America/New_York")).toBe("2026-10-19");
+    expect(timeIn(instant, "America/New_York")).toBe("09:30");
+  });
+
+  it("follows daylight saving time", () => {
+    expect(
+      zonedInstant("2026-01-15", "09:00", "Europe/Berlin").toISOString()
+    ).toBe("2026-01-15T08:00:00.000Z");
+    expect(
+      zonedInstant("2026-07-15", "09:00", "Europe/Berlin").toISOString()
+    ).toBe("2026-07-15T07:00:00.000Z");
+  });
+
+  it("moves times skipped by a DST change past the gap", () => {
+    expect(
+      zonedInstant("2026-03-08", "02:30", "America/New_York").toISOString()
+    ).toBe("2026-03-08T07:30:00.000Z");
+    expect(
+      zonedInstant("2026-03-29", "02:30", "Europe/Berlin").toISOString()
+    ).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("keeps tasks due on a day on that day everywhere", () => {
+    const task = toDueFields("2026-10-19", null, "Pacific/Auckland");
+
+    expect(task).toEqual({
+      due_date: "2026-10-19T00:00:00.000Z",
+      has_due_time: false,
+    });
+    expect(dueDay(task, "America/Los_Angeles")).toBe("2026-10-19");
+    expect(dueDay(task, "Pacific/Auckland")).toBe("2026-10-19");
+  });
+
+  it("shows tasks due at a time on the day it is where the user is", () => {
+    const task = toDueFields("2026-10-19", "23:00", "America/New_York");
+
+    expect(task.due_date).toBe("2026-10-20T03:00:00.000Z");
+    expect(dueDay(task, "America/New_York")).toBe("2026-10-19");
+    expect(dueDay(task, "UTC")).toBe("2026-10-20");
+  });
+
+  it("makes tasks due on a day overdue at the end of that day", () => {
+    const task = toDueFields("2026-10-19", null, "UTC");
+
+    expect(dueInstant(task, "Europe/Berlin")?.toISOString()).toBe(
+      "2026-10-19T22:00:00.000Z"
+    );
+  });
+
+  it("adds days across month ends and numbers weekdays from Monday", () => {
+    expect(addDays("2026-10-31", 1)).toBe("2026-11-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+    expect(weekdayOf("2026-10-19")).toBe(1);
+    expect(weekdayOf("2026-10-25")).toBe(7);
+  });
+
+  it("formats due dates, with the year only when it isn't this year", () => {
+    const now = new Date("2026-10-19T10:00:00Z");
+
+    expect(formatDue(toDueFields("2026-10-20", null, "UTC"), "UTC", now)).toBe(
+      "Oct 20"
+    );
+    expect(formatDue(toDueFields("2027-01-02", null, "UTC"), "UTC", now)).toBe(
+      "Jan 2, 2027"
+    );
+    expect(
+      formatDue(toDueFields("2026-10-20", "15:00", "UTC"), "UTC", now)
+    ).toBe("Oct 20, 3:00 PM");
+  });
+});
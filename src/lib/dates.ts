@@ -0,0 +1,228 @@
+// src/lib/dates.ts
+import type { Task } from "@/lib/supabase";
+
+// A task is due either on a calendar day or at a moment:
+// - without a due time (has_due_time = false), due_date is midnight UTC of
+//   the day, read back as that UTC date so it's the same day everywhere;
+// - with a due time, due_date is the instant picked in the user's timezone.
+// Days are "YYYY-MM-DD" strings and times "HH:MM" throughout.
+
+export type DueFields = Pick<Task, "due_date" | "has_due_time">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The profile's timezone, falling back to the browser's and then to UTC.
+ */
+export function resolveTimeZone(timeZone?: string | null) {
+  if (timeZone && isValidTimeZone(timeZone)) return timeZone;
+
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock fields of `date` in `timeZone`
+function partsIn(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const dayIn = (date: Date, timeZone: string) => {
+  const { year, month, day } = partsIn(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const timeIn = (date: Date, timeZone: string) => {
+  const { hour, minute } = partsIn(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+export const todayIn = (timeZone: string, now = new Date()) =>
+  dayIn(now, timeZone);
+
+export const addDays = (day: string, days: number) =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+// ISO weekday of a day, 1 = Monday to 7 = Sunday, as in
+// `ProductivitySettings.work_days`
+export const weekdayOf = (day: string) =>
+  new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+
+// Minutes `timeZone` is ahead of UTC at `date`
+function offsetAt(date: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = partsIn(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((wallClock - date.getTime()) / 60000);
+}
+
+/**
+ * The instant at which clocks in `timeZone` show `day` `time`. Times skipped
+ * by a DST change move past the gap by its length, so 02:30 becomes 03:30.
+ */
+export function zonedInstant(day: string, time: string, timeZone: string) {
+  const wallClock = new Date(`${day}T${time}:00Z`);
+  let instant = wallClock.getTime() - offsetAt(wallClock, timeZone) * 60000;
+  // A second pass settles times near an offset change
+  instant = wallClock.getTime() - offsetAt(new Date(instant), timeZone) * 60000;
+  // A time in the gap shows up under neither offset; the later of the two
+  // readings is the one past the gap
+  if (timeIn(new Date(instant), timeZone) !== time) {
+    instant = Math.max(
+      instant,
+      wallClock.getTime() - offsetAt(new Date(instant), timeZone) * 60000
+    );
+  }
+  return new Date(instant);
+}
+
+// Start of `day` in `timeZone`, e.g. for bucketing timestamps by day
+export const startOfDayIn = (day: string, timeZone: string) =>
+  zonedInstant(day, "00:00", timeZone);
+
+const earliest = (...dates: Date[]) =>
+  new Date(Math.min(...dates.map((date) => date.getTime()))).toISOString();
+
+const latest = (...dates: Date[]) =>
+  new Date(Math.max(...dates.map((date) => date.getTime()))).toISOString();
+
+/**
+ * due_date bounds for tasks due from `firstDay` through `lastDay` (either
+ * may be open) in `timeZone`. Tasks due on a day are stored at midnight UTC,
+ * so the bounds are wide enough for both kinds of due dates; check what
+ * comes back with dueDay.
+ */
+export function dueDateBounds(
+  firstDay: string | null | undefined,
+  lastDay: string | null | undefined,
+  timeZone: string
+) {
+  const dayAfter = lastDay && addDays(lastDay, 1);
+
+  return {
+    dueFrom: firstDay
+      ? earliest(
+          new Date(`${firstDay}T00:00:00Z`),
+          startOfDayIn(firstDay, timeZone)
+        )
+      : undefined,
+    dueBefore: dayAfter
+      ? latest(
+          new Date(`${dayAfter}T00:00:00Z`),
+          startOfDayIn(dayAfter, timeZone)
+        )
+      : undefined,
+  };
+}
+
+/**
+ * The due_date and has_due_time columns for a day and optional time picked
+ * in `timeZone`.
+ */
+export function toDueFields(
+  day: string | null,
+  time: string | null,
+  timeZone: string
+): DueFields {
+  if (!day) return { due_date: null, has_due_time: false };
+  if (!time) {
+    return {
+      due_date: new Date(`${day}T00:00:00Z`).toISOString(),
+      has_due_time: false,
+    };
+  }
+  return {
+    due_date: zonedInstant(day, time, timeZone).toISOString(),
+    has_due_time: true,
+  };
+}
+
+/**
+ * The day a task is due on, as seen in `timeZone`.
+ */
+export function dueDay(task: DueFields, timeZone: string) {
+  if (!task.due_date) return null;
+
+  const date = new Date(task.due_date);
+  return task.has_due_time
+    ? dayIn(date, timeZone)
+    : date.toISOString().slice(0, 10);
+}
+
+// The due time as seen in `timeZone`, null for tasks due on a day
+export const dueTime = (task: DueFields, timeZone: string) =>
+  task.due_date && task.has_due_time
+    ? timeIn(new Date(task.due_date), timeZone)
+    : null;
+
+/**
+ * The moment a task becomes overdue: its due time, or the end of its due
+ * day in `timeZone`.
+ */
+export function dueInstant(task: DueFields, timeZone: string) {
+  if (!task.due_date) return null;
+  if (task.has_due_time) return new Date(task.due_date);
+
+  const day = dueDay(task, timeZone)!;
+  return startOfDayIn(addDays(day, 1), timeZone);
+}
+
+/**
+ * "Oct 20" or "Oct 20, 3:00 PM" in `timeZone`; the year is added when it
+ * isn't the current one.
+ */
+export function formatDue(task: DueFields, timeZone: string, now = new Date()) {
+  const day = dueDay(task, timeZone);
+  if (!day) return null;
+
+  const label = new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(day.slice(0, 4) !== todayIn(timeZone, now).slice(0, 4) && {
+      year: "numeric",
+    }),
+    timeZone: "UTC",
+  });
+
+  return task.has_due_time
+    ? `${label}, ${new Date(task.due_date!).toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone,
+      })}`
+    : label;
+}
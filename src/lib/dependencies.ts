@@ -0,0 +1,77 @@
+// src/lib/dependencies.ts
+import type { Task } from "@/lib/supabase";
+
+export type DependencyNode = Pick<Task, "id" | "title" | "status"> & {
+  dependencies?: string[] | null;
+};
+
+// Statuses that can only be entered once every prerequisite is completed
+const GATED_STATUSES: Task["status"][] = ["in_progress", "completed"];
+
+export const isGatedStatus = (status: Task["status"]) =>
+  GATED_STATUSES.includes(status);
+
+/**
+ * Returns the ids of a cycle that would be created by giving `taskId` the
+ * prerequisites in `dependencies`, or null when the graph stays acyclic.
+ * The returned path starts and ends with `taskId`.
+ */
+export function findDependencyCycle(
+  taskId: string,
+  dependencies: string[],
+  tasks: DependencyNode[]
+): string[] | null {
+  const graph = new Map<string, string[]>();
+  tasks.forEach((task) => graph.set(task.id, task.dependencies || []));
+  graph.set(taskId, dependencies);
+
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId && path.length > 0) {
+      return [...path, id];
+    }
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    for (const next of graph.get(id) || []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return visit(taskId, []);
+}
+
+/**
+ * Prerequisites of `task` that are not completed yet. Dependencies that can't
+ * be found in `tasks` (deleted, or not visible to the user) are ignored.
+ */
+export function getOpenPrerequisites<T extends DependencyNode>(
+  task: Pick<Task, "id"> & { dependencies?: string[] | null },
+  tasks: T[]
+): T[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+
+  return (task.dependencies || [])
+    .map((id) => byId.get(id))
+    .filter((t): t is T => !!t && t.status !== "completed");
+}
+
+export function describeCycle(cycle: string[], tasks: DependencyNode[]) {
+  const titles = new Map(tasks.map((t) => [t.id, t.title]));
+  return cycle.map((id) => `"${titles.get(id) || "this task"}"`).join(" → ");
+}
+
+export function describeBlockers(
+  task: Pick<Task, "title">,
+  status: Task["status"],
+  blockers: DependencyNode[]
+) {
+  const names = blockers.map((t) => `"${t.title}"`).join(", ");
+  const target = status === "completed" ? "completed" : "in progress";
+  const pronoun = blockers.length === 1 ? "that task" : "those tasks";
+
+  return `"${task.title}" can't be marked ${target} yet: it is blocked by ${names}. Complete ${pronoun} first.`;
+}
@@ -0,0 +1,118 @@
+// src/lib/invitations.ts
+import { supabase } from "@/lib/supabase";
+import type { WorkspaceInvitation } from "@/lib/supabase";
+import {
+  RepositoryError,
+  toRepositoryError,
+  type RepositoryErrorCode,
+} from "@/lib/repositories";
+
+export type InvitationSummary = {
+  workspace_name: string;
+  inviter_username: string | null;
+  email: string;
+  role: string;
+  status: WorkspaceInvitation["status"];
+  expires_at: string;
+};
+
+// Statuses returned by the /api/invitations route
+const HTTP_ERROR_CODES: Record<number, RepositoryErrorCode> = {
+  400: "validation",
+  401: "unauthenticated",
+  403: "permission_denied",
+};
+
+export const isInvitationExpired = (invitation: { expires_at: string }) =>
+  new Date(invitation.expires_at).getTime() < Date.now();
+
+/**
+ * Creates the invitation and emails the link. Goes through the API route
+ * because sending mail needs the server-side mailer.
+ */
+export async function createInvitation(
+  workspaceId: string,
+  email: string,
+  role: string
+): Promise<WorkspaceInvitation> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new RepositoryError("User not authenticated", "unauthenticated");
+  }
+
+  const response = await fetch("/api/invitations", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ workspaceId, email, role }),
+  });
+
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new RepositoryError(
+      body.error || "Failed to send invitation",
+      HTTP_ERROR_CODES[response.status] || "unknown"
+    );
+  }
+
+  return body.invitation;
+}
+
+export async function fetchPendingInvitations(
+  workspaceId: string
+): Promise<WorkspaceInvitation[]> {
+  const { data, error } = await supabase
+    .from("workspace_invitations")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) throw toRepositoryError(error, "Failed to fetch invitations");
+
+  return (data || []) as WorkspaceInvitation[];
+}
+
+export async function revokeInvitation(invitationId: string) {
+  const { error } = await supabase.rpc("revoke_workspace_invitation", {
+    p_invitation_id: invitationId,
+  });
+
+  if (error) throw toRepositoryError(error, "Failed to revoke invitation");
+}
+
+export async function fetchInvitationSummary(
+  token: string
+): Promise<InvitationSummary | null> {
+  const { data, error } = await supabase.rpc("get_workspace_invitation", {
+    p_token: token,
+  });
+
+  if (error) throw toRepositoryError(error, "Failed to load invitation");
+
+  return (data?.[0] as InvitationSummary | undefined) || null;
+}
+
+/**
+ * Accepts or declines the invitation for the signed-in user and returns the
+ * workspace id.
+ */
+export async function respondToInvitation(
+  token: string,
+  accept: boolean
+): Promise<string> {
+  const { data, error } = await supabase.rpc(
+    "respond_to_workspace_invitation",
+    { p_token: token, p_accept: accept }
+  );
+
+  if (error) throw toRepositoryError(error, "Failed to respond to invitation");
+
+  return data;
+}
@@ -0,0 +1,19 @@
+// src/lib/mailer/console.ts
+import type { MailTransport } from "./index";
+
+// Development transport: prints every message to the server log
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.info(
+      [
+        "----- outgoing mail -----",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+        "-------------------------",
+      ].join("\n")
+    );
+  },
+};
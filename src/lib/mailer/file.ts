@@ -0,0 +1,25 @@
+// src/lib/mailer/file.ts
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { MailTransport } from "./index";
+
+// Development transport: writes each message as a .eml file to `directory`
+export const fileTransport = (directory: string): MailTransport => ({
+  async send(message) {
+    await mkdir(directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${
+      message.to
+    }.eml`;
+    const contents = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n");
+
+    await writeFile(path.join(directory, fileName), contents, "utf8");
+  },
+});
@@ -0,0 +1,43 @@
+// src/lib/mailer/index.ts
+import { consoleTransport } from "./console";
+import { fileTransport } from "./file";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+type TransportFactory = () => MailTransport;
+
+const transports = new Map<string, TransportFactory>([
+  ["console", () => consoleTransport],
+  ["file", () => fileTransport(process.env.MAIL_OUTBOX_DIR || ".mail")],
+]);
+
+/**
+ * Makes a transport selectable through MAIL_TRANSPORT, e.g. an SMTP or
+ * provider API client in production.
+ */
+export function registerMailTransport(name: string, factory: TransportFactory) {
+  transports.set(name, factory);
+}
+
+export async function sendMail(message: MailMessage) {
+  const name = process.env.MAIL_TRANSPORT || "console";
+  const factory = transports.get(name);
+
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+
+  await factory().send({
+    from: process.env.MAIL_FROM || "TaskFlow <no-reply@taskflow.local>",
+    ...message,
+  });
+}
@@ -0,0 +1,36 @@
+// src/lib/mailer/templates.ts
+import type { MailMessage } from "./index";
+
+export function invitationEmail({
+  to,
+  workspaceName,
+  inviterName,
+  role,
+  link,
+  expiresAt,
+}: {
+  to: string;
+  workspaceName: string;
+  inviterName: string;
+  role: string;
+  link: string;
+  expiresAt: string;
+}): MailMessage {
+  const expires = new Date(expiresAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+  return {
+    to,
+    subject: `${inviterName} invited you to ${workspaceName} on TaskFlow`,
+    text: [
+      `${inviterName} has invited you to join the "${workspaceName}" workspace on TaskFlow as ${role}.`,
+      "",
+      `Accept or decline the invitation here: ${link}`,
+      "",
+      `This invitation expires on ${expires}.`,
+    ].join("\n"),
+  };
+}
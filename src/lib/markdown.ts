@@ -0,0 +1,170 @@
+// src/lib/markdown.ts
+
+// A small Markdown subset for comments: paragraphs, line breaks, fenced code,
+// block quotes, lists, `code`, **bold**, *italic*, ~~strikethrough~~,
+// [links](https://...) and bare URLs. It parses into a tree that components
+// render as React elements, so comment text is never injected as HTML.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+// Code spans are split out first, so nothing inside them is formatted
+const CODE_PATTERN = /`([^`\n]+)`/g;
+
+// Alternatives are tried left to right at each position, so ** wins over *
+const SPAN_PATTERN = new RegExp(
+  [
+    "\\[([^\\]\\n]+)\\]\\(([^)\\s]+)\\)",
+    "\\*\\*(.+?)\\*\\*",
+    "~~(.+?)~~",
+    "\\*([^*\\n]+)\\*",
+    "\\b_([^_\\n]+)_\\b",
+    "(https?:\\/\\/[^\\s<]*[^\\s<.,:;\"')\\]!?])",
+    "\\n",
+  ].join("|"),
+  "g"
+);
+
+const FENCE = /^\s*```/;
+const QUOTE = /^\s*>\s?/;
+const BULLET = /^\s*[-*+]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+
+// Only links that can't run script
+export const isSafeUrl = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(CODE_PATTERN))) {
+    nodes.push(...parseSpans(text.slice(last, match.index)));
+    nodes.push({ type: "code", text: match[1] });
+    last = match.index! + match[0].length;
+  }
+
+  nodes.push(...parseSpans(text.slice(last)));
+  return nodes;
+}
+
+function parseSpans(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (value) nodes.push({ type: "text", text: value });
+  };
+
+  for (const match of Array.from(text.matchAll(SPAN_PATTERN))) {
+    const [whole, label, href, strong, del, em, emUnderscore, url] = match;
+    pushText(text.slice(last, match.index));
+    last = match.index! + whole.length;
+
+    if (label !== undefined) {
+      if (isSafeUrl(href)) {
+        nodes.push({ type: "link", href, children: parseSpans(label) });
+      } else {
+        pushText(whole);
+      }
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseSpans(strong) });
+    } else if (del !== undefined) {
+      nodes.push({ type: "del", children: parseSpans(del) });
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: "em", children: parseSpans(em ?? emUnderscore) });
+    } else if (url !== undefined) {
+      nodes.push({
+        type: "link",
+        href: url,
+        children: [{ type: "text", text: url }],
+      });
+    } else {
+      nodes.push({ type: "break" });
+    }
+  }
+
+  pushText(text.slice(last));
+  return nodes;
+}
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) ||
+  QUOTE.test(line) ||
+  BULLET.test(line) ||
+  NUMBERED.test(line);
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      // An unclosed fence runs to the end of the comment
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+      }
+      blocks.push({
+        type: "quote",
+        children: parseMarkdown(quoted.join("\n")),
+      });
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = NUMBERED.test(line);
+      const marker = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+
+      for (; i < lines.length && lines[i].trim(); i++) {
+        if (marker.test(lines[i])) {
+          items.push(lines[i].replace(marker, ""));
+        } else if (startsBlock(lines[i])) {
+          break;
+        } else {
+          // A continuation line belongs to the item above
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        }
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        items: items.map((item) => parseInline(item)),
+      });
+    } else {
+      const paragraph: string[] = [];
+      for (
+        ;
+        i < lines.length && lines[i].trim() && !startsBlock(lines[i]);
+        i++
+      ) {
+        paragraph.push(lines[i]);
+      }
+      blocks.push({
+        type: "paragraph",
+        children: parseInline(paragraph.join("\n")),
+      });
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,93 @@
+// src/lib/permissions.ts
+
+export type WorkspaceRole = "owner" | "admin" | "member" | "viewer";
+
+export type WorkspacePermission =
+  | "workspace.update"
+  | "workspace.delete"
+  | "workspace.transfer"
+  | "members.invite"
+  | "members.manage"
+  | "tasks.create"
+  | "tasks.update"
+  | "tasks.delete"
+  | "categories.manage"
+  | "tags.manage";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = [
+  "owner",
+  "admin",
+  "member",
+  "viewer",
+];
+
+// Keep in sync with the RLS policies in supabase/migrations
+const PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: [
+    "workspace.update",
+    "workspace.delete",
+    "workspace.transfer",
+    "members.invite",
+    "members.manage",
+    "tasks.create",
+    "tasks.update",
+    "tasks.delete",
+    "categories.manage",
+    "tags.manage",
+  ],
+  admin: [
+    "workspace.update",
+    "members.invite",
+    "members.manage",
+    "tasks.create",
+    "tasks.update",
+    "tasks.delete",
+    "categories.manage",
+    "tags.manage",
+  ],
+  member: [
+    "tasks.create",
+    "tasks.update",
+    "tasks.delete",
+    "categories.manage",
+    "tags.manage",
+  ],
+  viewer: [],
+};
+
+export const toWorkspaceRole = (role: string | null | undefined) =>
+  WORKSPACE_ROLES.includes(role as WorkspaceRole)
+    ? (role as WorkspaceRole)
+    : "viewer";
+
+export const can = (
+  role: WorkspaceRole | null | undefined,
+  permission: WorkspacePermission
+) => !!role && PERMISSIONS[role].includes(permission);
+
+/**
+ * Roles `role` may hand out through invitations or role changes. Owners can
+ * promote to admin; admins can only manage members and viewers. Ownership
+ * itself only moves through a transfer.
+ */
+export function assignableRoles(role: WorkspaceRole | null | undefined) {
+  if (role === "owner") return ["admin", "member", "viewer"] as WorkspaceRole[];
+  if (role === "admin") return ["member", "viewer"] as WorkspaceRole[];
+  return [] as WorkspaceRole[];
+}
+
+export const canManageMember = (
+  role: WorkspaceRole | null | undefined,
+  memberRole: WorkspaceRole
+) => can(role, "members.manage") && assignableRoles(role).includes(memberRole);
+
+/**
+ * `can` for a single task. Personal tasks stay with whoever created them:
+ * the people they are assigned to can see them but not change them.
+ */
+export const canOnTask = (
+  role: WorkspaceRole | null | undefined,
+  permission: WorkspacePermission,
+  task: { user_id: string; workspace_id: string | null },
+  userId: string | null | undefined
+) => can(role, permission) && (!!task.workspace_id || task.user_id === userId);
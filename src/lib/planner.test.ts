@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { TaskWithCategory } from "@/lib/repositories";
+import { planDay, type PlanOptions } from "@/lib/planner";
+
+const task = (
+  id: string,
+  fields: Partial<TaskWithCategory> = {}
+): TaskWithCategory => ({
+  id,
+  title: `Task ${id}`,
+  description: null,
+  status: "pending",
+  priority: "medium",
+  due_date: null,
+  has_due_time: false,
+  category_id: null,
+  dependencies: [],
+  assigned_to: [],
+  complete_with_subtasks: false,
+  occurrence_index: null,
+  series_id: null,
+  position: 0,
+  user_id: "user-1",
+  workspace_id: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...fields,
+});
+
+// Monday, October 19th 2026, before the work day starts
+const options: PlanOptions = {
+  day: "2026-10-19",
+  now: new Date("2026-10-19T06:00:00Z"),
+  timeZone: "UTC",
+};
+
+const times = (plan: ReturnType<typeof planDay>) =>
+  plan.blocks.map((block) =>
+    block.kind === "break"
+      ? `break ${block.start}`
+      : `${block.taskId} ${block.start}-${block.end}`
+  );
+
+describe("planDay", () => {
+  it("gives every task a focus block with breaks between them", () => {
+    const plan = planDay([task("a"), task("b")], [], options);
+
+    expect(times(plan)).toEqual([
+      "a 09:00-09:25",
+      "break 09:25",
+      "b 09:30-09:55",
+    ]);
+    expect(plan.unscheduled).toEqual([]);
+  });
+
+  it("plans the most urgent work first", () => {
+    const plan = planDay(
+      [
+        task("low", { priority: "low" }),
+        task("due", { due_date: "2026-10-20T00:00:00Z" }),
+        task("high", { priority: "high" }),
+      ],
+      [],
+      options
+    );
+
+    expect(
+      plan.blocks.flatMap((b) => (b.kind === "task" ? [b.taskId] : []))
+    ).toEqual(["due", "high", "low"]);
+  });
+
+  it("saves the peak hours for deep work", () => {
+    const plan = planDay(
+      [
+        task("deep", { priority: "high" }),
+        task("light", { priority: "low" }),
+        task("lighter", { priority: "low" }),
+      ],
+      [],
+      { ...options, productivity: { peak_hours: ["10:00", "12:00"] } }
+    );
+
+    expect(plan.blocks).toContainEqual(
+      expect.objectContaining({ taskId: "deep", start: "10:00", peak: true })
+    );
+    expect(plan.blocks).toContainEqual(
+      expect.objectContaining({ taskId: "light", start: "09:00", peak: false })
+    );
+  });
+
+  it("keeps deep work for the peak hours when nothing else is left", () => {
+    const plan = planDay([task("deep", { priority: "high" })], [], {
+      ...options,
+      productivity: { peak_hours: ["10:00", "12:00"] },
+    });
+
+    expect(times(plan)).toEqual(["deep 10:00-10:25"]);
+  });
+
+  it("plans around pinned blocks", () => {
+    const plan = planDay(
+      [task("a"), task("b")],
+      [{ id: "p", task_id: "b", start_time: "09:00", end_time: "10:00" }],
+      options
+    );
+
+    expect(times(plan)).toEqual([
+      "b 09:00-10:00",
+      "break 10:00",
+      "a 10:05-10:30",
+    ]);
+  });
+
+  it("only plans the rest of today", () => {
+    const plan = planDay([task("a")], [], {
+      ...options,
+      now: new Date("2026-10-19T16:40:00Z"),
+    });
+
+    expect(times(plan)).toEqual([]);
+    expect(plan.unscheduled.map((t) => t.id)).toEqual(["a"]);
+  });
+
+  it("leaves days off to the pinned blocks", () => {
+    const plan = planDay([task("a")], [], {
+      ...options,
+      productivity: { work_days: [2, 3, 4, 5, 6] },
+    });
+
+    expect(plan.workDay).toBe(false);
+    expect(plan.blocks).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+// src/lib/planner.ts
+import type { PinnedBlock, ProductivitySettings } from "@/lib/supabase";
+import type { TaskWithCategory } from "@/lib/repositories";
+import {
+  addDays,
+  dayIn,
+  dueDay,
+  dueInstant,
+  timeIn,
+  weekdayOf,
+} from "@/lib/dates";
+import { PRIORITY_RANK } from "@/lib/smart-contexts";
+
+// Packs open tasks into focus blocks across a day. Times are wall clock
+// "HH:MM" in the user's timezone, worked with as minutes since midnight.
+
+// The work day when peak hours don't stretch it
+export const WORK_DAY_START = "09:00";
+export const WORK_DAY_END = "17:00";
+export const DEFAULT_FOCUS_MINUTES = 25;
+export const BREAK_MINUTES = 5;
+// Every fourth block in a row is followed by a longer break
+export const LONG_BREAK_MINUTES = 15;
+const BLOCKS_BEFORE_LONG_BREAK = 4;
+
+export const toMinutes = (time: string) =>
+  Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const fromMinutes = (minutes: number) =>
+  `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+export type PlanBlock =
+  | {
+      kind: "task";
+      taskId: string;
+      start: string;
+      end: string;
+      peak: boolean;
+    }
+  | {
+      kind: "pinned";
+      pinId: string;
+      taskId: string;
+      start: string;
+      end: string;
+      peak: boolean;
+    }
+  | { kind: "break"; start: string; end: string };
+
+export type DayPlan = {
+  workDay: boolean;
+  // The hours planned, from now on when planning today
+  start: string;
+  end: string;
+  focusMinutes: number;
+  // In time order, with breaks between blocks
+  blocks: PlanBlock[];
+  // Open tasks that didn't fit, most urgent first
+  unscheduled: TaskWithCategory[];
+};
+
+export type PlanOptions = {
+  day: string;
+  now: Date;
+  timeZone: string;
+  productivity?: ProductivitySettings | null;
+  // Plans days off too
+  ignoreWorkDays?: boolean;
+};
+
+// Due by the end of tomorrow, or overdue
+const dueSoon = (task: TaskWithCategory, day: string, timeZone: string) => {
+  const due = dueDay(task, timeZone);
+  return !!due && due <= addDays(day, 1);
+};
+
+/**
+ * Plans `day`: pinned blocks stay where they are, and the other open tasks
+ * get a focus block each in the time left. High-priority and due-soon work
+ * goes into the peak hours, everything else around them; when there's more
+ * of it than fits there, the rest takes the first free blocks.
+ */
+export function planDay(
+  tasks: TaskWithCategory[],
+  pins: Pick<PinnedBlock, "id" | "task_id" | "start_time" | "end_time">[],
+  { day, now, timeZone, productivity, ignoreWorkDays }: PlanOptions
+): DayPlan {
+  const focusMinutes =
+    productivity?.focus_duration && productivity.focus_duration > 0
+      ? productivity.focus_duration
+      : DEFAULT_FOCUS_MINUTES;
+  const workDays = productivity?.work_days;
+  const workDay = !workDays || workDays.includes(weekdayOf(day));
+
+  // Peak hours past midnight don't fit in one day's plan
+  const [peakStart, peakEnd] = (productivity?.peak_hours || []).map(toMinutes);
+  const hasPeak =
+    peakStart !== undefined && peakEnd !== undefined && peakStart < peakEnd;
+  const inPeak = (minute: number) =>
+    hasPeak && minute >= peakStart && minute < peakEnd;
+
+  const dayStart = Math.min(
+    toMinutes(WORK_DAY_START),
+    hasPeak ? peakStart : Infinity
+  );
+  const dayEnd = Math.max(toMinutes(WORK_DAY_END), hasPeak ? peakEnd : 0);
+
+  // Today only the rest of the day is left, starting on a 5 minute mark
+  const start =
+    dayIn(now, timeZone) === day
+      ? Math.max(dayStart, Math.ceil(toMinutes(timeIn(now, timeZone)) / 5) * 5)
+      : dayStart;
+
+  const pinned = pins
+    .map((pin) => ({
+      ...pin,
+      from: toMinutes(pin.start_time),
+      to: toMinutes(pin.end_time),
+    }))
+    .sort((a, b) => a.from - b.from);
+  const pinnedIds = new Set(pins.map((pin) => pin.task_id));
+
+  // Most urgent first: due soon, then by priority, started work, age
+  const ordered = tasks
+    .filter((task) => task.status !== "completed" && !pinnedIds.has(task.id))
+    .sort((a, b) => {
+      const soonA = dueSoon(a, day, timeZone);
+      const soonB = dueSoon(b, day, timeZone);
+      if (soonA !== soonB) return soonA ? -1 : 1;
+      if (soonA) {
+        const diff =
+          dueInstant(a, timeZone)!.getTime() -
+          dueInstant(b, timeZone)!.getTime();
+        if (diff) return diff;
+      }
+      return (
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        Number(b.status === "in_progress") -
+          Number(a.status === "in_progress") ||
+        a.created_at.localeCompare(b.created_at)
+      );
+    });
+
+  const plan: DayPlan = {
+    workDay,
+    start: fromMinutes(Math.min(start, dayEnd)),
+    end: fromMinutes(dayEnd),
+    focusMinutes,
+    blocks: [],
+    unscheduled: ordered,
+  };
+  const pinnedBlocks: PlanBlock[] = pinned.map((pin) => ({
+    kind: "pinned",
+    pinId: pin.id,
+    taskId: pin.task_id,
+    start: pin.start_time,
+    end: pin.end_time,
+    peak: inPeak(pin.from),
+  }));
+
+  if (!workDay && !ignoreWorkDays) {
+    plan.blocks = withBreaks(pinnedBlocks);
+    return plan;
+  }
+
+  // Free slots between the pins, a break after each
+  const slots: { from: number; peak: boolean }[] = [];
+  let minute = start;
+  let inARow = 0;
+  while (minute + focusMinutes <= dayEnd) {
+    const clash = pinned.find(
+      (pin) => pin.from < minute + focusMinutes && pin.to > minute
+    );
+    if (clash) {
+      minute = clash.to + BREAK_MINUTES;
+      inARow = 0;
+      continue;
+    }
+
+    // A block started before the peak hours shouldn't run into them
+    if (hasPeak && minute < peakStart && minute + focusMinutes > peakStart) {
+      minute = peakStart;
+      inARow = 0;
+      continue;
+    }
+
+    slots.push({ from: minute, peak: inPeak(minute) });
+    inARow++;
+    minute +=
+      focusMinutes +
+      (inARow % BLOCKS_BEFORE_LONG_BREAK === 0
+        ? LONG_BREAK_MINUTES
+        : BREAK_MINUTES);
+  }
+
+  const deep = ordered.filter(
+    (task) => task.priority === "high" || dueSoon(task, day, timeZone)
+  );
+  const light = ordered.filter((task) => !deep.includes(task));
+  const scheduled: PlanBlock[] = [];
+
+  slots.forEach((slot, index) => {
+    const peakAhead = slots
+      .slice(index + 1)
+      .filter((other) => other.peak).length;
+    // Off-peak blocks go to lighter work; deep work waits for the peak
+    // hours unless those left can't hold all of it
+    const task =
+      slot.peak || deep.length > peakAhead
+        ? deep.shift() || light.shift()
+        : light.shift();
+    if (!task) return;
+
+    scheduled.push({
+      kind: "task",
+      taskId: task.id,
+      start: fromMinutes(slot.from),
+      end: fromMinutes(slot.from + focusMinutes),
+      peak: slot.peak,
+    });
+  });
+
+  plan.blocks = withBreaks(
+    [...pinnedBlocks, ...scheduled].sort((a, b) =>
+      a.start.localeCompare(b.start)
+    )
+  );
+  plan.unscheduled = [...deep, ...light].sort(
+    (a, b) => ordered.indexOf(a) - ordered.indexOf(b)
+  );
+
+  return plan;
+}
+
+// Short gaps between blocks are breaks; longer ones are just free time
+function withBreaks(blocks: PlanBlock[]) {
+  const result: PlanBlock[] = [];
+
+  blocks.forEach((block, index) => {
+    const previous = blocks[index - 1];
+    if (previous) {
+      const gap = toMinutes(block.start) - toMinutes(previous.end);
+      if (gap > 0 && gap <= LONG_BREAK_MINUTES) {
+        result.push({ kind: "break", start: previous.end, end: block.start });
+      }
+    }
+    result.push(block);
+  });
+
+  return result;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { Category, WorkspaceMember } from "@/lib/supabase";
+import { parseQuickAdd, toDueDate } from "@/lib/quick-add";
+
+const finance: Category = {
+  id: "c1",
+  name: "Finance",
+  color: "#3B82F6",
+  user_id: "user-1",
+  workspace_id: null,
+  created_at: "2026-01-01T00:00:00Z",
+};
+
+const alice: WorkspaceMember = {
+  user_id: "u1",
+  role: "member",
+  username: "alice",
+};
+
+// Monday, October 19th 2026
+const parse = (input: string) =>
+  parseQuickAdd(input, {
+    categories: [finance],
+    members: [alice],
+    timeZone: "UTC",
+    now: new Date("2026-10-19T10:00:00Z"),
+  });
+
+describe("parseQuickAdd", () => {
+  it("takes every field out of the title", () => {
+    expect(parse("Send invoice tomorrow 3pm !high #finance @alice")).toEqual({
+      title: "Send invoice",
+      dueDate: "2026-10-20",
+      dueTime: "15:00",
+      priority: "high",
+      category: finance,
+      assignees: [alice],
+      unmatched: [],
+    });
+  });
+
+  it("leaves unknown categories and members in the title", () => {
+    const parsed = parse("Call #dentist @bob");
+
+    expect(parsed.title).toBe("Call #dentist @bob");
+    expect(parsed.unmatched).toEqual(["#dentist", "@bob"]);
+  });
+
+  it.each([
+    ["today", "2026-10-19"],
+    ["in 3 days", "2026-10-22"],
+    ["in 2 weeks", "2026-11-02"],
+    ["next week", "2026-10-26"],
+    ["friday", "2026-10-23"],
+    ["monday", "2026-10-26"],
+    ["next friday", "2026-10-30"],
+    ["nov 3", "2026-11-03"],
+    ["3rd november", "2026-11-03"],
+    ["jan 5", "2027-01-05"],
+    ["2026-12-24", "2026-12-24"],
+    ["fri", "2026-10-23"],
+    ["sat 10am", "2026-10-24"],
+    ["sept 30", "2027-09-30"],
+  ])("reads %s as a date", (words, date) => {
+    const parsed = parse(`Pay rent ${words}`);
+
+    expect(parsed.dueDate).toBe(date);
+    expect(parsed.title).toBe("Pay rent");
+  });
+
+  it.each([
+    ["3pm", "15:00"],
+    ["3:30 pm", "15:30"],
+    ["12am", "00:00"],
+    ["15:45", "15:45"],
+    ["noon", "12:00"],
+  ])("reads %s as a time today", (words, time) => {
+    const parsed = parse(`Standup ${words}`);
+
+    expect(parsed).toMatchObject({
+      title: "Standup",
+      dueDate: "2026-10-19",
+      dueTime: time,
+    });
+  });
+
+  it("drops the word that introduces a date", () => {
+    expect(parse("Report due friday").title).toBe("Report");
+  });
+
+  it.each(["Fix the sat solver", "Wed anniversary plan", "Month-end close"])(
+    "keeps words that only look like dates in %s",
+    (input) => {
+      const parsed = parse(input);
+
+      expect(parsed.title).toBe(input);
+      expect(parsed.dueDate).toBeNull();
+    }
+  );
+
+  it.each(["2026-02-31", "feb 30"])("leaves out days like %s", (words) => {
+    const parsed = parse(`Pay rent ${words}`);
+
+    expect(parsed.title).toBe(`Pay rent ${words}`);
+    expect(parsed.dueDate).toBeNull();
+  });
+
+  it("keeps bare numbers in the title", () => {
+    const parsed = parse("Buy 3 apples");
+
+    expect(parsed.title).toBe("Buy 3 apples");
+    expect(parsed.dueDate).toBeNull();
+  });
+});
+
+describe("toDueDate", () => {
+  it("stores days at midnight UTC and times in the user's timezone", () => {
+    expect(toDueDate(parse("Call friday"), "Europe/Berlin")).toEqual({
+      due_date: "2026-10-23T00:00:00.000Z",
+      has_due_time: false,
+    });
+    expect(toDueDate(parse("Call friday 9am"), "Europe/Berlin")).toEqual({
+      due_date: "2026-10-23T07:00:00.000Z",
+      has_due_time: true,
+    });
+  });
+});
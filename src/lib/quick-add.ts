@@ -0,0 +1,320 @@
+// src/lib/quick-add.ts
+import type { Category, Task, WorkspaceMember } from "@/lib/supabase";
+import { resolveTimeZone, toDueFields, todayIn } from "@/lib/dates";
+
+/**
+ * A quick-add string broken into task fields, e.g.
+ * "Send invoice tomorrow 3pm !high #Finance @alice".
+ */
+export type ParsedQuickAdd = {
+  title: string;
+  // Calendar day (YYYY-MM-DD) and optional time of day (HH:MM) in the
+  // user's timezone
+  dueDate: string | null;
+  dueTime: string | null;
+  priority: Task["priority"] | null;
+  category: Category | null;
+  assignees: WorkspaceMember[];
+  // #tags and @mentions that didn't match a category or member; they are
+  // left in the title
+  unmatched: string[];
+};
+
+type QuickAddContext = {
+  categories: Category[];
+  members: WorkspaceMember[];
+  timeZone?: string;
+  now?: Date;
+};
+
+const PRIORITIES: Record<string, Task["priority"]> = {
+  high: "high",
+  h: "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  low: "low",
+  l: "low",
+};
+
+// Each name followed by its abbreviations
+const WEEKDAYS = [
+  ["sunday", "sun"],
+  ["monday", "mon"],
+  ["tuesday", "tue", "tues"],
+  ["wednesday", "wed"],
+  ["thursday", "thu", "thur", "thurs"],
+  ["friday", "fri"],
+  ["saturday", "sat"],
+];
+
+const MONTHS = [
+  ["january", "jan"],
+  ["february", "feb"],
+  ["march", "mar"],
+  ["april", "apr"],
+  ["may"],
+  ["june", "jun"],
+  ["july", "jul"],
+  ["august", "aug"],
+  ["september", "sep", "sept"],
+  ["october", "oct"],
+  ["november", "nov"],
+  ["december", "dec"],
+];
+
+// Words that introduce a date or time and go with it, as in "due friday"
+const PREPOSITIONS = ["at", "on", "by", "due"];
+
+// "Deep Work", "deep-work" and "deepwork" all match each other
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// "mon" and "monday" both name Monday, "mond" and "month" nothing
+const matchName = (word: string, names: string[][]) =>
+  names.findIndex((forms) => forms.includes(word));
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const toDay = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Null for days the month doesn't have, which Date would roll over
+const dateOf = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month ? date : null;
+};
+
+// Matches at the start of `words`: the number of words used and the result
+type Match<T> = { length: number; value: T } | null;
+
+function matchDate(
+  words: string[],
+  today: Date,
+  previous?: string
+): Match<Date> {
+  const [first, second, third] = words;
+
+  if (first === "today") return { length: 1, value: today };
+  if (first === "tomorrow" || first === "tmrw" || first === "tmr") {
+    return { length: 1, value: addDays(today, 1) };
+  }
+
+  // "in 3 days", "in 2 weeks"
+  if (first === "in" && /^\d+$/.test(second || "")) {
+    const unit = third?.replace(/s$/, "");
+    if (unit === "day") {
+      return { length: 3, value: addDays(today, Number(second)) };
+    }
+    if (unit === "week") {
+      return { length: 3, value: addDays(today, Number(second) * 7) };
+    }
+  }
+
+  if (first === "next" && second === "week") {
+    // Monday of next week
+    return { length: 2, value: addDays(today, 8 - (today.getDay() || 7)) };
+  }
+
+  // "friday" is the coming Friday, "next friday" the one in the following week
+  const isNext = first === "next";
+  const name = isNext ? second || "" : first;
+  const weekday = matchName(name, WEEKDAYS);
+  // "sat" and "wed" are words too: abbreviations count where a date is
+  // expected, i.e. after "next" or "on", last, or before a time or a token
+  const after = words.slice(isNext ? 2 : 1);
+  const expected =
+    isNext ||
+    WEEKDAYS[weekday]?.[0] === name ||
+    PREPOSITIONS.includes(previous || "") ||
+    !after.length ||
+    /^[!#@]/.test(after[0]) ||
+    !!matchTime(after);
+  if (weekday >= 0 && expected) {
+    const ahead = (weekday - today.getDay() + 7) % 7 || 7;
+    return {
+      length: isNext ? 2 : 1,
+      value: addDays(today, isNext && ahead < 7 ? ahead + 7 : ahead),
+    };
+  }
+
+  // 2026-11-03
+  const iso = first.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const isoDate =
+    iso && dateOf(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  if (isoDate) return { length: 1, value: isoDate };
+
+  // "nov 3", "3 nov", "november 3rd"; the next such date when no year is given
+  const dayOf = (word?: string) => {
+    const day = word?.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+    return day && Number(day[1]) >= 1 && Number(day[1]) <= 31
+      ? Number(day[1])
+      : null;
+  };
+  const monthFirst = matchName(first, MONTHS);
+  const monthSecond = matchName(second || "", MONTHS);
+  const [month, day] =
+    monthFirst >= 0 && dayOf(second)
+      ? [monthFirst, dayOf(second)]
+      : monthSecond >= 0 && dayOf(first)
+      ? [monthSecond, dayOf(first)]
+      : [-1, null];
+
+  if (month >= 0 && day) {
+    const thisYear = dateOf(today.getFullYear(), month, day);
+    const date =
+      thisYear && thisYear >= today
+        ? thisYear
+        : dateOf(today.getFullYear() + 1, month, day);
+    if (date) return { length: 2, value: date };
+  }
+
+  return null;
+}
+
+function matchTime(words: string[]): Match<string> {
+  const [first, second] = words;
+
+  if (first === "noon") return { length: 1, value: "12:00" };
+  if (first === "midnight") return { length: 1, value: "00:00" };
+
+  // "3pm", "3:30pm", "3 pm", "15:00"
+  const time = first.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!time) return null;
+
+  const meridiem =
+    time[3] || (second === "am" || second === "pm" ? second : "");
+  // A bare number is more likely part of the title than a time
+  if (!meridiem && !time[2]) return null;
+
+  let hours = Number(time[1]);
+  const minutes = Number(time[2] || 0);
+  if (minutes > 59 || hours > (meridiem ? 12 : 23) || (meridiem && !hours)) {
+    return null;
+  }
+
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+
+  return {
+    length: !time[3] && meridiem ? 2 : 1,
+    value: `${pad(hours)}:${pad(minutes)}`,
+  };
+}
+
+/**
+ * Parses a quick-add string. Recognized tokens are removed from the title:
+ * dates ("today", "fri", "next week", "in 3 days", "nov 3"), times ("3pm",
+ * "15:30"), priorities ("!high", "!m"), a #category and @assignees.
+ */
+export function parseQuickAdd(
+  input: string,
+  {
+    categories,
+    members,
+    timeZone = resolveTimeZone(),
+    now = new Date(),
+  }: QuickAddContext
+): ParsedQuickAdd {
+  // Dates are worked out on a local Date standing for today in `timeZone`
+  const [year, month, day] = todayIn(timeZone, now).split("-").map(Number);
+  const today = new Date(year, month - 1, day);
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const used = new Array(words.length).fill(false);
+
+  const parsed: ParsedQuickAdd = {
+    title: "",
+    dueDate: null,
+    dueTime: null,
+    priority: null,
+    category: null,
+    assignees: [],
+    unmatched: [],
+  };
+
+  const consume = (start: number, length: number) => {
+    for (let i = start; i < start + length; i++) used[i] = true;
+
+    const previous = words[start - 1]?.toLowerCase();
+    if (start > 0 && !used[start - 1] && PREPOSITIONS.includes(previous)) {
+      used[start - 1] = true;
+    }
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+
+    if (word.length > 1 && word.startsWith("!")) {
+      const priority = PRIORITIES[word.slice(1).toLowerCase()];
+      if (priority) {
+        parsed.priority = priority;
+        used[i] = true;
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith("#")) {
+      const category = categories.find(
+        (c) => normalize(c.name) === normalize(word.slice(1))
+      );
+      if (category) {
+        parsed.category = category;
+        used[i] = true;
+      } else {
+        parsed.unmatched.push(word);
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith("@")) {
+      const name = normalize(word.slice(1));
+      const member = members.find((m) => normalize(m.username) === name);
+      if (member) {
+        if (!parsed.assignees.includes(member)) parsed.assignees.push(member);
+        used[i] = true;
+      } else {
+        parsed.unmatched.push(word);
+      }
+      continue;
+    }
+
+    const rest = words.slice(i).map((w) => w.toLowerCase().replace(/,$/, ""));
+
+    if (!parsed.dueDate) {
+      const date = matchDate(rest, today, words[i - 1]?.toLowerCase());
+      if (date) {
+        parsed.dueDate = toDay(date.value);
+        consume(i, date.length);
+        i += date.length - 1;
+        continue;
+      }
+    }
+
+    if (!parsed.dueTime) {
+      const time = matchTime(rest);
+      if (time) {
+        parsed.dueTime = time.value;
+        consume(i, time.length);
+        i += time.length - 1;
+        continue;
+      }
+    }
+  }
+
+  // A time alone means today
+  if (parsed.dueTime && !parsed.dueDate) parsed.dueDate = toDay(today);
+
+  parsed.title = words.filter((_, i) => !used[i]).join(" ");
+  return parsed;
+}
+
+/**
+ * The due_date and has_due_time columns for a parsed string.
+ */
+export const toDueDate = (
+  { dueDate, dueTime }: ParsedQuickAdd,
+  timeZone = resolveTimeZone()
+) => toDueFields(dueDate, dueTime, timeZone);
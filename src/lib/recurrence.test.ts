@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRecurrence,
+  firstOccurrence,
+  nextOccurrence,
+  type Occurrence,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+const WORK_DAYS = [1, 2, 3, 4, 5];
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+// The dates of the first `count` occurrences from `start`
+function series(
+  rule: RecurrenceRule,
+  start: string,
+  count: number,
+  workDays?: number[]
+) {
+  const dates: string[] = [];
+  let occurrence: Occurrence | null = firstOccurrence(rule, day(start), {
+    workDays,
+  });
+
+  while (occurrence && dates.length < count) {
+    dates.push(occurrence.date.toISOString().slice(0, 10));
+    occurrence = nextOccurrence(rule, occurrence, { workDays });
+  }
+  return dates;
+}
+
+describe("recurrence", () => {
+  it("repeats every n days", () => {
+    expect(series({ freq: "daily", interval: 2 }, "2026-10-19", 3)).toEqual([
+      "2026-10-19",
+      "2026-10-21",
+      "2026-10-23",
+    ]);
+  });
+
+  it("repeats on the weekdays given", () => {
+    const rule: RecurrenceRule = {
+      freq: "weekly",
+      interval: 1,
+      by_weekday: [1, 3],
+    };
+
+    expect(series(rule, "2026-10-20", 3)).toEqual([
+      "2026-10-21",
+      "2026-10-26",
+      "2026-10-28",
+    ]);
+  });
+
+  it("skips weeks for longer intervals", () => {
+    const rule: RecurrenceRule = {
+      freq: "weekly",
+      interval: 2,
+      by_weekday: [5],
+    };
+
+    expect(series(rule, "2026-10-23", 3)).toEqual([
+      "2026-10-23",
+      "2026-11-06",
+      "2026-11-20",
+    ]);
+  });
+
+  it("clamps monthly days to shorter months", () => {
+    const rule: RecurrenceRule = {
+      freq: "monthly",
+      interval: 1,
+      by_monthday: 31,
+    };
+
+    expect(series(rule, "2026-01-31", 3)).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+
+  it("finds the nth and last weekday of the month", () => {
+    const secondTuesday: RecurrenceRule = {
+      freq: "monthly",
+      interval: 1,
+      by_weekday: [2],
+      by_setpos: 2,
+    };
+    const lastFriday: RecurrenceRule = {
+      ...secondTuesday,
+      by_weekday: [5],
+      by_setpos: -1,
+    };
+
+    expect(series(secondTuesday, "2026-10-01", 2)).toEqual([
+      "2026-10-13",
+      "2026-11-10",
+    ]);
+    expect(series(lastFriday, "2026-10-01", 2)).toEqual([
+      "2026-10-30",
+      "2026-11-27",
+    ]);
+  });
+
+  it("moves occurrences off days off", () => {
+    const rule: RecurrenceRule = {
+      freq: "daily",
+      interval: 1,
+      work_days_only: true,
+    };
+
+    expect(series(rule, "2026-10-23", 3, WORK_DAYS)).toEqual([
+      "2026-10-23",
+      "2026-10-26",
+      "2026-10-27",
+    ]);
+  });
+
+  it("steps monthly rules from their own day, not the work day", () => {
+    const rule: RecurrenceRule = {
+      freq: "monthly",
+      interval: 1,
+      by_monthday: 31,
+      work_days_only: true,
+    };
+
+    expect(series(rule, "2024-08-31", 5, WORK_DAYS)).toEqual([
+      "2024-09-02",
+      "2024-09-30",
+      "2024-10-31",
+      "2024-12-02",
+      "2024-12-31",
+    ]);
+  });
+
+  it("stops after count or until", () => {
+    const daily: RecurrenceRule = { freq: "daily", interval: 1 };
+
+    expect(series({ ...daily, count: 2 }, "2026-10-19", 5)).toHaveLength(2);
+    expect(series({ ...daily, until: "2026-10-21" }, "2026-10-19", 5)).toEqual([
+      "2026-10-19",
+      "2026-10-20",
+      "2026-10-21",
+    ]);
+  });
+
+  it("skips occurrences before notBefore but still counts them", () => {
+    const rule: RecurrenceRule = { freq: "daily", interval: 1 };
+    const next = nextOccurrence(
+      rule,
+      { date: day("2026-10-19"), index: 0 },
+      { notBefore: day("2026-10-22") }
+    );
+
+    expect(next).toEqual({ date: day("2026-10-22"), index: 3 });
+  });
+
+  it("describes rules in words", () => {
+    expect(
+      describeRecurrence({ freq: "weekly", interval: 2, by_weekday: [5, 1] })
+    ).toBe("Every 2 weeks on Mon, Fri");
+    expect(
+      describeRecurrence({ freq: "daily", interval: 1, work_days_only: true })
+    ).toBe("Every work day");
+  });
+});
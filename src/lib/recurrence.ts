@@ -0,0 +1,350 @@
+// src/lib/recurrence.ts
+import { weekdayOf } from "@/lib/dates";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * How a task series repeats, stored in task_series.recurrence. Modelled on
+ * RRULE (FREQ, INTERVAL, BYDAY, BYSETPOS, BYMONTHDAY, UNTIL, COUNT).
+ * Weekdays are numbered like `work_days` in the productivity settings:
+ * 1 = Monday ... 7 = Sunday.
+ */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  // Every `interval` days, weeks or months
+  interval: number;
+  // Weekly: the days to repeat on. Monthly: the weekday `by_setpos` picks
+  by_weekday?: number[];
+  // Monthly: 1-4 for the nth `by_weekday` of the month, -1 for the last one
+  by_setpos?: number | null;
+  // Monthly: day of the month, clamped to the length of shorter months
+  by_monthday?: number | null;
+  // Move occurrences that fall outside the user's work days forward
+  work_days_only?: boolean;
+  // Last possible date (YYYY-MM-DD, inclusive)
+  until?: string | null;
+  // Total number of occurrences, the first one included
+  count?: number | null;
+};
+
+export type Occurrence = {
+  date: Date;
+  // 0 for the first occurrence of a series
+  index: number;
+};
+
+type RecurrenceOptions = {
+  // Profile work days, used when `work_days_only` is set
+  workDays?: number[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plenty for any sensible rule; guards against rules that never match
+const MAX_STEPS = 1000;
+
+export const WEEKDAY_NAMES = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+// Dates are compared by their UTC calendar day, the way due dates are stored
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// `date` moved to another day, keeping its time of day
+const withDay = (date: Date, year: number, month: number, day: number) =>
+  new Date(
+    Date.UTC(
+      year,
+      month,
+      day,
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds()
+    )
+  );
+
+function nthWeekdayOfMonth(
+  template: Date,
+  year: number,
+  month: number,
+  weekday: number,
+  setpos: number
+) {
+  if (setpos < 0) {
+    const last = withDay(template, year, month, daysInMonth(year, month));
+    return addDays(last, -((weekdayOf(toDay(last)) - weekday + 7) % 7));
+  }
+
+  const first = withDay(template, year, month, 1);
+  const date = addDays(
+    first,
+    ((weekday - weekdayOf(toDay(first)) + 7) % 7) + (setpos - 1) * 7
+  );
+  // A 5th weekday doesn't exist in every month
+  return date.getUTCMonth() === first.getUTCMonth() ? date : null;
+}
+
+const interval = (rule: RecurrenceRule) =>
+  Math.max(1, Math.floor(rule.interval || 1));
+
+const weeklyDays = (rule: RecurrenceRule, date: Date) =>
+  rule.by_weekday?.length ? rule.by_weekday : [weekdayOf(toDay(date))];
+
+// The occurrence after `from` according to the frequency alone
+function step(rule: RecurrenceRule, from: Date): Date | null {
+  switch (rule.freq) {
+    case "daily":
+      return addDays(from, interval(rule));
+
+    case "weekly": {
+      const weekdays = weeklyDays(rule, from);
+      const weekStart = addDays(from, 1 - weekdayOf(toDay(from)));
+
+      for (let offset = 1; offset <= 7 * (interval(rule) + 1); offset++) {
+        const date = addDays(from, offset);
+        const week = Math.round(
+          (addDays(date, 1 - weekdayOf(toDay(date))).getTime() -
+            weekStart.getTime()) /
+            (7 * DAY_MS)
+        );
+
+        if (
+          week % interval(rule) === 0 &&
+          weekdays.includes(weekdayOf(toDay(date)))
+        ) {
+          return date;
+        }
+      }
+      return null;
+    }
+
+    case "monthly": {
+      let month = from.getUTCMonth();
+      let year = from.getUTCFullYear();
+
+      // Skip months without a matching day, e.g. a 5th Friday
+      for (let i = 0; i < 12; i++) {
+        month += interval(rule);
+        year += Math.floor(month / 12);
+        month %= 12;
+
+        if (rule.by_setpos && rule.by_weekday?.length) {
+          const date = nthWeekdayOfMonth(
+            from,
+            year,
+            month,
+            rule.by_weekday[0],
+            rule.by_setpos
+          );
+          if (date) return date;
+        } else {
+          const day = Math.min(
+            rule.by_monthday || from.getUTCDate(),
+            daysInMonth(year, month)
+          );
+          return withDay(from, year, month, day);
+        }
+      }
+      return null;
+    }
+  }
+}
+
+const isWorkDay = (date: Date, workDays?: number[]) =>
+  !workDays?.length || workDays.includes(weekdayOf(toDay(date)));
+
+// The date the rule gave an occurrence that was moved to a work day
+function ruleDate(rule: RecurrenceRule, date: Date) {
+  for (let days = 0; days < 7; days++) {
+    const candidate = addDays(date, -days);
+    if (matchesRule(rule, candidate)) return candidate;
+  }
+  return date;
+}
+
+function nextDate(
+  rule: RecurrenceRule,
+  from: Date,
+  { workDays }: RecurrenceOptions
+): Date | null {
+  // Step from where the rule put the last occurrence, not from the work day
+  // it was moved to, or monthly rules could skip a month
+  let date = step(rule, rule.work_days_only ? ruleDate(rule, from) : from);
+  if (!date || !rule.work_days_only) return date;
+
+  // Weekly rules already name their days, so skip to the next one that is
+  // a work day; other rules move forward to the next work day
+  for (let i = 0; date && !isWorkDay(date, workDays) && i < 7; i++) {
+    date = rule.freq === "weekly" ? step(rule, date) : addDays(date, 1);
+  }
+  return date && isWorkDay(date, workDays) ? date : null;
+}
+
+const isPastEnd = (rule: RecurrenceRule, occurrence: Occurrence) =>
+  (!!rule.count && occurrence.index >= rule.count) ||
+  (!!rule.until && toDay(occurrence.date) > rule.until);
+
+function matchesRule(rule: RecurrenceRule, date: Date) {
+  switch (rule.freq) {
+    case "daily":
+      return true;
+    case "weekly":
+      return weeklyDays(rule, date).includes(weekdayOf(toDay(date)));
+    case "monthly": {
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+
+      if (rule.by_setpos && rule.by_weekday?.length) {
+        const match = nthWeekdayOfMonth(
+          date,
+          year,
+          month,
+          rule.by_weekday[0],
+          rule.by_setpos
+        );
+        return !!match && toDay(match) === toDay(date);
+      }
+      return (
+        !rule.by_monthday ||
+        Math.min(rule.by_monthday, daysInMonth(year, month)) ===
+          date.getUTCDate()
+      );
+    }
+  }
+}
+
+/**
+ * First occurrence of a series starting on `start`: `start` itself when it
+ * fits the rule, otherwise the next date that does.
+ */
+export function firstOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  { workDays }: RecurrenceOptions = {}
+): Occurrence | null {
+  for (let offset = 0; offset < 400; offset++) {
+    let date = addDays(start, offset);
+    if (!matchesRule(rule, date)) continue;
+
+    if (rule.work_days_only && !isWorkDay(date, workDays)) {
+      if (rule.freq === "weekly") continue;
+      for (let i = 0; i < 7 && !isWorkDay(date, workDays); i++) {
+        date = addDays(date, 1);
+      }
+    }
+
+    const occurrence = { date, index: 0 };
+    return isPastEnd(rule, occurrence) ? null : occurrence;
+  }
+
+  return null;
+}
+
+/**
+ * The occurrence that follows `previous`, or null once the series has ended.
+ * With `notBefore`, occurrences before that date are skipped; they still
+ * count towards `count`.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  previous: Occurrence,
+  options: RecurrenceOptions & { notBefore?: Date } = {}
+): Occurrence | null {
+  let occurrence = previous;
+
+  for (let i = 0; i < MAX_STEPS; i++) {
+    const date = nextDate(rule, occurrence.date, options);
+    if (!date) return null;
+
+    occurrence = { date, index: occurrence.index + 1 };
+    if (isPastEnd(rule, occurrence)) return null;
+
+    if (!options.notBefore || toDay(date) >= toDay(options.notBefore)) {
+      return occurrence;
+    }
+  }
+
+  return null;
+}
+
+const ordinal = (n: number) =>
+  n === -1 ? "last" : ["1st", "2nd", "3rd", "4th", "5th"][n - 1] || `${n}th`;
+
+const plural = (count: number, unit: string) =>
+  count === 1 ? unit : `${count} ${unit}s`;
+
+export function describeRecurrence(rule: RecurrenceRule) {
+  const every = `Every ${plural(
+    interval(rule),
+    rule.freq === "daily" ? "day" : rule.freq === "weekly" ? "week" : "month"
+  )}`;
+  const shortDays = (days: number[]) =>
+    [...days]
+      .sort()
+      .map((day) => WEEKDAY_NAMES[day - 1]?.slice(0, 3))
+      .join(", ");
+
+  let description = every;
+
+  if (rule.freq === "daily" && rule.work_days_only && interval(rule) === 1) {
+    description = "Every work day";
+  } else if (rule.freq === "weekly" && rule.by_weekday?.length) {
+    description += ` on ${shortDays(rule.by_weekday)}`;
+  } else if (rule.freq === "monthly") {
+    description +=
+      rule.by_setpos && rule.by_weekday?.length
+        ? ` on the ${ordinal(rule.by_setpos)} ${
+            WEEKDAY_NAMES[rule.by_weekday[0] - 1]
+          }`
+        : rule.by_monthday
+        ? ` on day ${rule.by_monthday}`
+        : "";
+  }
+
+  if (rule.work_days_only && description !== "Every work day") {
+    description += " (work days only)";
+  }
+
+  if (rule.until) {
+    description += `, until ${new Date(rule.until).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })}`;
+  } else if (rule.count) {
+    description += `, ${plural(rule.count, "time")}`;
+  }
+
+  return description;
+}
+
+/**
+ * Reads a rule stored as jsonb, or null when it isn't one.
+ */
+export function toRecurrenceRule(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== "object") return null;
+
+  const rule = value as Partial<RecurrenceRule>;
+  if (!rule.freq || !FREQUENCIES.includes(rule.freq)) return null;
+
+  return {
+    ...rule,
+    freq: rule.freq,
+    interval: interval(rule as RecurrenceRule),
+  };
+}
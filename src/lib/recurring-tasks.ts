@@ -0,0 +1,267 @@
+// src/lib/recurring-tasks.ts
+import type { Task } from "@/lib/supabase";
+import {
+  RepositoryError,
+  type Repositories,
+  type TaskInput,
+  type TaskUpdate,
+} from "@/lib/repositories";
+import {
+  firstOccurrence,
+  nextOccurrence,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import {
+  dueDay,
+  dueTime,
+  resolveTimeZone,
+  todayIn,
+  zonedInstant,
+  type DueFields,
+} from "@/lib/dates";
+import {
+  describeBlockers,
+  getOpenPrerequisites,
+  isGatedStatus,
+  type DependencyNode,
+} from "@/lib/dependencies";
+
+// The task fields a series copies into each new occurrence
+const templateOf = (task: TaskUpdate) => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  category_id: task.category_id,
+  assigned_to: task.assigned_to,
+});
+
+async function scheduleSettingsOf(repositories: Repositories, userId?: string) {
+  try {
+    const profile = userId
+      ? await repositories.profiles.get(userId)
+      : await repositories.profiles.getCurrent();
+    return {
+      workDays: profile.productivity_settings?.work_days,
+      timeZone: resolveTimeZone(profile.timezone),
+    };
+  } catch (err) {
+    // Fall back to every day rather than failing the whole operation
+    console.error("Error loading work days:", err);
+    return { workDays: undefined, timeZone: resolveTimeZone() };
+  }
+}
+
+// Rules work on UTC calendar days, so a task due at a time is moved to its
+// wall-clock time as if in UTC and back; "Tuesdays 8pm" stays on Tuesdays
+// whatever the offset and across DST changes.
+const toWallClock = (task: DueFields, timeZone: string) =>
+  new Date(
+    task.has_due_time
+      ? `${dueDay(task, timeZone)}T${dueTime(task, timeZone)}:00Z`
+      : task.due_date!
+  );
+
+const fromWallClock = (
+  date: Date,
+  hasDueTime: boolean | undefined,
+  timeZone: string
+) =>
+  hasDueTime
+    ? zonedInstant(
+        date.toISOString().slice(0, 10),
+        date.toISOString().slice(11, 16),
+        timeZone
+      ).toISOString()
+    : date.toISOString();
+
+/**
+ * Creates a series and its first occurrence, due on the first date from
+ * `input.due_date` onwards that fits the rule.
+ */
+export async function createRecurringTask(
+  repositories: Repositories,
+  input: TaskInput,
+  rule: RecurrenceRule
+): Promise<Task> {
+  if (!input.due_date) {
+    throw new RepositoryError("Recurring tasks need a due date", "validation");
+  }
+
+  const { workDays, timeZone } = await scheduleSettingsOf(repositories);
+  const first = firstOccurrence(
+    rule,
+    toWallClock(
+      { due_date: input.due_date, has_due_time: !!input.has_due_time },
+      timeZone
+    ),
+    { workDays }
+  );
+
+  if (!first) {
+    throw new RepositoryError(
+      "This schedule doesn't have any occurrences",
+      "validation"
+    );
+  }
+
+  const series = await repositories.series.create({
+    ...templateOf(input),
+    title: input.title,
+    workspace_id: input.workspace_id,
+    recurrence: rule,
+  });
+
+  const task = await repositories.series.createOccurrence(
+    series.id,
+    first.index,
+    fromWallClock(first.date, input.has_due_time, timeZone),
+    input.has_due_time
+  );
+
+  return input.dependencies?.length
+    ? repositories.tasks.update(task.id, { dependencies: input.dependencies })
+    : task;
+}
+
+/**
+ * Turns an existing task into the first occurrence of a new series.
+ */
+export async function makeTaskRecurring(
+  repositories: Repositories,
+  task: Task,
+  rule: RecurrenceRule
+): Promise<Task> {
+  if (!task.due_date) {
+    throw new RepositoryError("Recurring tasks need a due date", "validation");
+  }
+
+  const series = await repositories.series.create({
+    ...templateOf(task),
+    title: task.title,
+    workspace_id: task.workspace_id,
+    recurrence: rule,
+  });
+
+  return repositories.tasks.update(task.id, {
+    series_id: series.id,
+    occurrence_index: 0,
+  });
+}
+
+/**
+ * Applies `changes` to `task` and, minus the due date, to the series and any
+ * of its open occurrences that come after `task`.
+ */
+export async function updateFutureOccurrences(
+  repositories: Repositories,
+  task: Task,
+  changes: TaskUpdate,
+  rule: RecurrenceRule
+): Promise<Task> {
+  if (!task.series_id) return repositories.tasks.update(task.id, changes);
+
+  await repositories.series.update(task.series_id, {
+    ...templateOf(changes),
+    recurrence: rule,
+  });
+
+  const later = await repositories.tasks.list({
+    workspaceId: task.workspace_id,
+    seriesId: task.series_id,
+    excludeStatus: "completed",
+  });
+
+  await Promise.all(
+    later
+      .filter(
+        (occurrence) =>
+          (occurrence.occurrence_index ?? 0) > (task.occurrence_index ?? 0)
+      )
+      .map((occurrence) =>
+        repositories.tasks.update(occurrence.id, templateOf(changes))
+      )
+  );
+
+  return repositories.tasks.update(task.id, changes);
+}
+
+/**
+ * Ends a series. Its occurrences stay around as plain tasks.
+ */
+export const stopRecurring = (repositories: Repositories, seriesId: string) =>
+  repositories.series.remove(seriesId);
+
+/**
+ * Creates the occurrence that follows `task` in its series, skipping dates
+ * that have already passed. Returns null when the series has ended.
+ */
+export async function scheduleNextOccurrence(
+  repositories: Repositories,
+  task: Task
+): Promise<Task | null> {
+  if (!task.series_id) return null;
+
+  const series = await repositories.series.get(task.series_id);
+  // "My work days" are those of whoever set up the series
+  const { workDays, timeZone } = await scheduleSettingsOf(
+    repositories,
+    series.user_id
+  );
+  const today = new Date(`${todayIn(timeZone)}T00:00:00Z`);
+  const next = nextOccurrence(
+    series.recurrence,
+    {
+      date: task.due_date ? toWallClock(task, timeZone) : today,
+      index: task.occurrence_index ?? 0,
+    },
+    { workDays, notBefore: today }
+  );
+
+  if (!next) return null;
+
+  return repositories.series.createOccurrence(
+    series.id,
+    next.index,
+    fromWallClock(next.date, task.has_due_time, timeZone),
+    task.has_due_time
+  );
+}
+
+/**
+ * Why `task` can't be moved to `status` yet, naming the prerequisites among
+ * `tasks` that are still open, or null when nothing stands in the way.
+ */
+export function statusBlocker(
+  task: Task,
+  status: Task["status"],
+  tasks: DependencyNode[]
+): string | null {
+  if (!isGatedStatus(status)) return null;
+
+  const blockers = getOpenPrerequisites(task, tasks);
+  return blockers.length > 0 ? describeBlockers(task, status, blockers) : null;
+}
+
+/**
+ * Changes the status of a task, along with any other `changes` such as its
+ * board position. Tasks with open `prerequisites` are refused. Completing an
+ * occurrence of a recurring task creates the next one, which is returned.
+ */
+export async function updateTaskStatus(
+  repositories: Repositories,
+  task: Task,
+  status: Task["status"],
+  {
+    changes = {},
+    prerequisites = [],
+  }: { changes?: TaskUpdate; prerequisites?: DependencyNode[] } = {}
+): Promise<Task | null> {
+  const blocker = statusBlocker(task, status, prerequisites);
+  if (blocker) throw new RepositoryError(blocker, "validation");
+
+  await repositories.tasks.update(task.id, { ...changes, status });
+
+  if (status !== "completed" || task.status === "completed") return null;
+
+  return scheduleNextOccurrence(repositories, task);
+}
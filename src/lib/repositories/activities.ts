@@ -0,0 +1,46 @@
+// src/lib/repositories/activities.ts
+import { supabase } from "@/lib/supabase";
+import type { TaskActivity } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import type { WorkspaceScope } from "./types";
+
+export type ActivityQuery = {
+  // Scoped through the workspace of the task the activity belongs to
+  workspaceId: WorkspaceScope;
+  type?: TaskActivity["activity_type"];
+  // ISO timestamps, both inclusive
+  from?: string;
+  to?: string;
+};
+
+export interface ActivityRepository {
+  list(query: ActivityQuery): Promise<TaskActivity[]>;
+}
+
+export const supabaseActivityRepository: ActivityRepository = {
+  async list(query) {
+    let request = supabase
+      .from("task_activities")
+      .select("*, tasks!inner(workspace_id)");
+
+    request = query.workspaceId
+      ? request.eq("tasks.workspace_id", query.workspaceId)
+      : request.is("tasks.workspace_id", null);
+
+    if (query.type) request = request.eq("activity_type", query.type);
+    if (query.from) request = request.gte("created_at", query.from);
+    if (query.to) request = request.lte("created_at", query.to);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Failed to fetch task activity");
+
+    return data.map((activity) => ({
+      id: activity.id,
+      task_id: activity.task_id,
+      user_id: activity.user_id,
+      activity_type: activity.activity_type as TaskActivity["activity_type"],
+      created_at: activity.created_at,
+    }));
+  },
+};
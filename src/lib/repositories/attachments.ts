@@ -0,0 +1,82 @@
+// src/lib/repositories/attachments.ts
+import { supabase } from "@/lib/supabase";
+import type { TaskAttachment } from "@/lib/supabase";
+import { getAttachmentStorage } from "@/lib/attachment-storage";
+import { attachmentPath } from "@/lib/attachments";
+import { toRepositoryError } from "./errors";
+
+export interface AttachmentRepository {
+  // Oldest first
+  list(taskId: string): Promise<TaskAttachment[]>;
+  // Bytes the signed-in user has uploaded, counted against their quota
+  usage(): Promise<number>;
+  upload(taskId: string, file: File): Promise<TaskAttachment>;
+  getUrl(attachment: TaskAttachment): Promise<string>;
+  remove(attachment: TaskAttachment): Promise<void>;
+}
+
+export const supabaseAttachmentRepository: AttachmentRepository = {
+  async list(taskId) {
+    const { data, error } = await supabase
+      .from("task_attachments")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("created_at");
+
+    if (error) throw toRepositoryError(error, "Failed to fetch attachments");
+
+    return data;
+  },
+
+  async usage() {
+    const { data, error } = await supabase.rpc("attachment_usage");
+
+    if (error) {
+      throw toRepositoryError(error, "Failed to fetch attachment usage");
+    }
+
+    return data;
+  },
+
+  // The row goes first so the size limits are checked before any upload
+  async upload(taskId, file) {
+    const { data, error } = await supabase
+      .from("task_attachments")
+      .insert({
+        task_id: taskId,
+        name: file.name,
+        content_type: file.type || "application/octet-stream",
+        size: file.size,
+        storage_path: attachmentPath(taskId, file.name),
+      })
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to add attachment");
+
+    try {
+      await getAttachmentStorage().upload(data.storage_path, file);
+    } catch (err) {
+      await supabase.from("task_attachments").delete().eq("id", data.id);
+      throw err;
+    }
+
+    return data;
+  },
+
+  async getUrl(attachment) {
+    return getAttachmentStorage().getUrl(attachment.storage_path);
+  },
+
+  // The file goes first: its access rules look at the row
+  async remove(attachment) {
+    await getAttachmentStorage().remove(attachment.storage_path);
+
+    const { error } = await supabase
+      .from("task_attachments")
+      .delete()
+      .eq("id", attachment.id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete attachment");
+  },
+};
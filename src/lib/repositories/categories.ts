@@ -0,0 +1,85 @@
+// src/lib/repositories/categories.ts
+import { supabase } from "@/lib/supabase";
+import type { Category } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe, WorkspaceScope } from "./types";
+
+export type CategoryInput = {
+  name: string;
+  color?: string;
+  workspace_id?: string | null;
+};
+
+export type CategoryUpdate = Partial<Pick<Category, "name" | "color">>;
+
+export interface CategoryRepository {
+  // Sorted by name
+  list(workspaceId: WorkspaceScope): Promise<Category[]>;
+  create(input: CategoryInput): Promise<Category>;
+  update(id: string, changes: CategoryUpdate): Promise<Category>;
+  remove(id: string): Promise<void>;
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+export const supabaseCategoryRepository: CategoryRepository = {
+  async list(workspaceId) {
+    let request = supabase.from("categories").select("*").order("name");
+
+    request = workspaceId
+      ? request.eq("workspace_id", workspaceId)
+      : request.is("workspace_id", null);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Failed to fetch categories");
+
+    return data;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("categories")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create category");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("categories")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update category");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("categories").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete category");
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("categories-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "categories" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
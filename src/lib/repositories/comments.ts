@@ -0,0 +1,104 @@
+// src/lib/repositories/comments.ts
+import { supabase } from "@/lib/supabase";
+import type { TaskComment, WorkspaceMember } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe } from "./types";
+
+export type CommentAuthor = Pick<WorkspaceMember, "username" | "avatar_url">;
+
+export type CommentWithAuthor = TaskComment & { author?: CommentAuthor };
+
+export type CommentInput = {
+  task_id: string;
+  body: string;
+  // The top-level comment this replies to
+  parent_id?: string | null;
+};
+
+export interface CommentRepository {
+  // Oldest first. Deleted comments come back blanked so their replies keep
+  // their thread.
+  list(taskId: string): Promise<CommentWithAuthor[]>;
+  create(input: CommentInput): Promise<TaskComment>;
+  update(id: string, body: string): Promise<TaskComment>;
+  remove(id: string): Promise<void>;
+  // Calls `onChange` whenever a comment on the task changes
+  subscribe(taskId: string, onChange: () => void): Unsubscribe;
+}
+
+export const supabaseCommentRepository: CommentRepository = {
+  async list(taskId) {
+    const { data, error } = await supabase
+      .from("task_comments")
+      .select("*, profiles(username, avatar_url)")
+      .eq("task_id", taskId)
+      .order("created_at");
+
+    if (error) throw toRepositoryError(error, "Failed to fetch comments");
+
+    return data.map(({ profiles, ...comment }) => ({
+      ...comment,
+      author: profiles
+        ? {
+            username: profiles.username,
+            avatar_url: profiles.avatar_url || undefined,
+          }
+        : undefined,
+    }));
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("task_comments")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to post comment");
+
+    return data;
+  },
+
+  async update(id, body) {
+    const { data, error } = await supabase
+      .from("task_comments")
+      .update({ body })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update comment");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase
+      .from("task_comments")
+      .update({ body: "", deleted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete comment");
+  },
+
+  subscribe(taskId, onChange) {
+    const channel = supabase
+      .channel(channelTopic(`task-comments-${taskId}`))
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "task_comments",
+          filter: `task_id=eq.${taskId}`,
+        },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
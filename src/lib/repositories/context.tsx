@@ -0,0 +1,28 @@
+// src/lib/repositories/context.tsx
+"use client";
+
+import { createContext, useContext } from "react";
+import { supabaseRepositories, type Repositories } from ".";
+
+const RepositoryContext = createContext<Repositories>(supabaseRepositories);
+
+/**
+ * Swaps the data layer for everything below it, e.g. with
+ * `createMemoryRepositories()` to run components without Supabase. Without
+ * a provider components talk to Supabase.
+ */
+export function RepositoryProvider({
+  repositories,
+  children,
+}: {
+  repositories: Repositories;
+  children: React.ReactNode;
+}) {
+  return (
+    <RepositoryContext.Provider value={repositories}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+}
+
+export const useRepositories = () => useContext(RepositoryContext);
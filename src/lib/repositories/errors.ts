@@ -0,0 +1,63 @@
+// src/lib/repositories/errors.ts
+
+export type RepositoryErrorCode =
+  | "unauthenticated"
+  | "permission_denied"
+  | "not_found"
+  | "conflict"
+  | "validation"
+  | "unknown";
+
+/**
+ * The one error type repositories throw, whatever the backend. Components
+ * only need `message`; `code` lets callers react to specific failures.
+ */
+export class RepositoryError extends Error {
+  code: RepositoryErrorCode;
+  cause?: unknown;
+
+  constructor(message: string, code: RepositoryErrorCode, cause?: unknown) {
+    super(message);
+    this.name = "RepositoryError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+type PostgrestLikeError = { message?: string; code?: string };
+
+// Postgres / PostgREST error codes we map to something meaningful
+const POSTGREST_CODES: Record<string, RepositoryErrorCode> = {
+  PGRST116: "not_found",
+  PGRST301: "unauthenticated",
+  "42501": "permission_denied",
+  "23505": "conflict",
+  "23503": "conflict",
+  "23514": "validation",
+  "22P02": "validation",
+  P0001: "validation",
+};
+
+export function toRepositoryError(
+  err: unknown,
+  fallbackMessage = "Something went wrong"
+): RepositoryError {
+  if (err instanceof RepositoryError) return err;
+
+  if (err && typeof err === "object") {
+    const { message, code } = err as PostgrestLikeError;
+    return new RepositoryError(
+      message || fallbackMessage,
+      (code && POSTGREST_CODES[code]) || "unknown",
+      err
+    );
+  }
+
+  return new RepositoryError(fallbackMessage, "unknown", err);
+}
+
+/**
+ * Message to show for an error thrown by a repository (or anything else).
+ */
+export const errorMessage = (err: unknown, fallbackMessage: string) =>
+  err instanceof Error && err.message ? err.message : fallbackMessage;
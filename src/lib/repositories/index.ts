@@ -0,0 +1,141 @@
+// src/lib/repositories/index.ts
+import {
+  supabaseActivityRepository,
+  type ActivityRepository,
+} from "./activities";
+import {
+  supabaseAttachmentRepository,
+  type AttachmentRepository,
+} from "./attachments";
+import {
+  supabaseCategoryRepository,
+  type CategoryRepository,
+} from "./categories";
+import { supabaseCommentRepository, type CommentRepository } from "./comments";
+import {
+  supabasePinnedBlockRepository,
+  type PinnedBlockRepository,
+} from "./pinned-blocks";
+import { supabaseProfileRepository, type ProfileRepository } from "./profiles";
+import { supabaseSearchRepository, type SearchRepository } from "./search";
+import {
+  supabaseSmartContextRepository,
+  type SmartContextRepository,
+} from "./smart-contexts";
+import {
+  supabaseTaskSeriesRepository,
+  type TaskSeriesRepository,
+} from "./series";
+import { supabaseSubtaskRepository, type SubtaskRepository } from "./subtasks";
+import { supabaseTagRepository, type TagRepository } from "./tags";
+import { supabaseTaskRepository, type TaskRepository } from "./tasks";
+import { supabaseSavedViewRepository, type SavedViewRepository } from "./views";
+import {
+  supabaseWorkspaceRepository,
+  type WorkspaceRepository,
+} from "./workspaces";
+
+export type Repositories = {
+  tasks: TaskRepository;
+  subtasks: SubtaskRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  series: TaskSeriesRepository;
+  categories: CategoryRepository;
+  tags: TagRepository;
+  views: SavedViewRepository;
+  smartContexts: SmartContextRepository;
+  pinnedBlocks: PinnedBlockRepository;
+  workspaces: WorkspaceRepository;
+  profiles: ProfileRepository;
+  activities: ActivityRepository;
+  search: SearchRepository;
+};
+
+export const supabaseRepositories: Repositories = {
+  tasks: supabaseTaskRepository,
+  subtasks: supabaseSubtaskRepository,
+  comments: supabaseCommentRepository,
+  attachments: supabaseAttachmentRepository,
+  series: supabaseTaskSeriesRepository,
+  categories: supabaseCategoryRepository,
+  tags: supabaseTagRepository,
+  views: supabaseSavedViewRepository,
+  smartContexts: supabaseSmartContextRepository,
+  pinnedBlocks: supabasePinnedBlockRepository,
+  workspaces: supabaseWorkspaceRepository,
+  profiles: supabaseProfileRepository,
+  activities: supabaseActivityRepository,
+  search: supabaseSearchRepository,
+};
+
+export { createMemoryRepositories } from "./memory";
+export type { MemoryMember, MemorySeed, MemoryTaskTag } from "./memory";
+export { RepositoryError, errorMessage, toRepositoryError } from "./errors";
+export type { RepositoryErrorCode } from "./errors";
+export type { CurrentUser, Unsubscribe, WorkspaceScope } from "./types";
+export type { ActivityQuery, ActivityRepository } from "./activities";
+export type { AttachmentRepository } from "./attachments";
+export type {
+  CategoryInput,
+  CategoryRepository,
+  CategoryUpdate,
+} from "./categories";
+export type {
+  CommentAuthor,
+  CommentInput,
+  CommentRepository,
+  CommentWithAuthor,
+} from "./comments";
+export type {
+  PinnedBlockInput,
+  PinnedBlockRepository,
+  PinnedBlockUpdate,
+} from "./pinned-blocks";
+export { DEFAULT_PRODUCTIVITY_SETTINGS } from "./profiles";
+export type {
+  ProfileInput,
+  ProfileRepository,
+  ProfileUpdate,
+} from "./profiles";
+export type {
+  SearchRepository,
+  SearchResult,
+  SearchResultKind,
+} from "./search";
+export type {
+  SmartContextInput,
+  SmartContextRepository,
+  SmartContextUpdate,
+} from "./smart-contexts";
+export type {
+  SubtaskInput,
+  SubtaskRepository,
+  SubtaskUpdate,
+} from "./subtasks";
+export type { TagInput, TagRepository, TagUpdate, TagWithUsage } from "./tags";
+export type {
+  TaskSeriesInput,
+  TaskSeriesRepository,
+  TaskSeriesUpdate,
+} from "./series";
+export type {
+  SubtaskProgress,
+  TaskInput,
+  TaskPriority,
+  TaskQuery,
+  TaskRepository,
+  TaskStatus,
+  TaskUpdate,
+  TaskWithCategory,
+} from "./tasks";
+export type {
+  SavedViewInput,
+  SavedViewRepository,
+  SavedViewUpdate,
+} from "./views";
+export type {
+  WorkspaceInput,
+  WorkspaceRepository,
+  WorkspaceWithRole,
+} from "./workspaces";
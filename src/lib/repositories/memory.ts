@@ -0,0 +1,1690 @@
+// src/lib/repositories/memory.ts
+import type {
+  Category,
+  ContextExclusion,
+  PinnedBlock,
+  Profile,
+  SavedView,
+  SmartContext,
+  Subtask,
+  Tag,
+  Task,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskSeries,
+  Workspace,
+} from "@/lib/supabase";
+import { toWorkspaceRole } from "@/lib/permissions";
+import {
+  findDependencyCycle,
+  getOpenPrerequisites,
+  isGatedStatus,
+} from "@/lib/dependencies";
+import {
+  ATTACHMENT_QUOTA,
+  MAX_ATTACHMENT_SIZE,
+  attachmentPath,
+  servedContentType,
+} from "@/lib/attachments";
+import { markMatches, matchesTerms, searchTerms } from "@/lib/search";
+import { RepositoryError } from "./errors";
+import type { Repositories } from ".";
+import type { ActivityRepository } from "./activities";
+import type { AttachmentRepository } from "./attachments";
+import type { CategoryRepository } from "./categories";
+import type { CommentRepository } from "./comments";
+import {
+  DEFAULT_PRODUCTIVITY_SETTINGS,
+  type ProfileRepository,
+} from "./profiles";
+import type { TaskSeriesRepository } from "./series";
+import type { SearchRepository, SearchResult } from "./search";
+import type { SubtaskRepository } from "./subtasks";
+import type { TagRepository } from "./tags";
+import type { SavedViewRepository } from "./views";
+import type { SmartContextRepository } from "./smart-contexts";
+import type { PinnedBlockRepository } from "./pinned-blocks";
+import {
+  sortTags,
+  toSubtaskProgress,
+  type TaskQuery,
+  type TaskRepository,
+} from "./tasks";
+import { toMember, uniqueBy, type WorkspaceRepository } from "./workspaces";
+import type { CurrentUser, WorkspaceScope } from "./types";
+
+export type MemoryTaskTag = {
+  task_id: string;
+  tag_id: string;
+};
+
+export type MemoryMember = {
+  workspace_id: string;
+  user_id: string;
+  role: string;
+};
+
+export type MemorySeed = {
+  // The signed-in user; null behaves as signed out
+  user?: CurrentUser | null;
+  profiles?: Profile[];
+  workspaces?: Workspace[];
+  members?: MemoryMember[];
+  categories?: Category[];
+  tags?: Tag[];
+  taskTags?: MemoryTaskTag[];
+  views?: SavedView[];
+  smartContexts?: SmartContext[];
+  contextExclusions?: ContextExclusion[];
+  pinnedBlocks?: PinnedBlock[];
+  tasks?: Task[];
+  subtasks?: Subtask[];
+  series?: TaskSeries[];
+  activities?: TaskActivity[];
+  comments?: TaskComment[];
+  // Seeded attachments have no file contents
+  attachments?: TaskAttachment[];
+};
+
+const DEFAULT_USER: CurrentUser = {
+  id: "00000000-0000-4000-8000-000000000001",
+  email: "you@example.com",
+};
+
+const now = () => new Date().toISOString();
+
+const newId = () => crypto.randomUUID();
+
+// Same default as tasks.position: new tasks go to the top of their column
+const newPosition = () => -Date.now() / 1000;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const inDueRange = (task: Task, from?: string, before?: string) =>
+  (!from && !before) ||
+  (!!task.due_date &&
+    (!from || new Date(task.due_date) >= new Date(from)) &&
+    (!before || new Date(task.due_date) < new Date(before)));
+
+// Enum order of task_priority
+const PRIORITY_RANK: Record<Task["priority"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+// Same order as the query: missing due dates go last either way
+const compareTasks =
+  (orderBy: NonNullable<TaskQuery["orderBy"]>, ascending: boolean) =>
+  (a: Task, b: Task) => {
+    const x = a[orderBy];
+    const y = b[orderBy];
+
+    if (x === y) return 0;
+    if (x === null) return 1;
+    if (y === null) return -1;
+
+    const order =
+      orderBy === "priority"
+        ? PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+        : String(x).localeCompare(String(y));
+    return ascending ? order : -order;
+  };
+
+// Leaves out keys explicitly set to undefined so they don't wipe defaults
+const defined = <T extends object>(values: T) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+const inScope = (
+  row: { workspace_id: string | null },
+  workspaceId: WorkspaceScope
+) => row.workspace_id === (workspaceId || null);
+
+function notFound(label: string): never {
+  throw new RepositoryError(`${label} not found`, "not_found");
+}
+
+/**
+ * Repositories backed by plain arrays, for running components without a
+ * Supabase project. Mirrors the triggers and visibility rules of the schema
+ * in supabase/migrations closely enough for the UI, but not row level
+ * security as a whole.
+ */
+export function createMemoryRepositories(seed: MemorySeed = {}): Repositories {
+  const user = seed.user === undefined ? DEFAULT_USER : seed.user;
+  const profiles = clone(seed.profiles || []);
+  const workspaces = clone(seed.workspaces || []);
+  const members = clone(seed.members || []);
+  const categories = clone(seed.categories || []);
+  const tags = clone(seed.tags || []);
+  const taskTags = clone(seed.taskTags || []);
+  const views = clone(seed.views || []);
+  const smartContexts = clone(seed.smartContexts || []);
+  const contextExclusions = clone(seed.contextExclusions || []);
+  const pinnedBlocks = clone(seed.pinnedBlocks || []);
+  const tasks = clone(seed.tasks || []);
+  const subtasks = clone(seed.subtasks || []);
+  const series = clone(seed.series || []);
+  const activities = clone(seed.activities || []);
+  const comments = clone(seed.comments || []);
+  const attachments = clone(seed.attachments || []);
+  // File contents by storage path, standing in for the storage bucket
+  const files = new Map<string, Blob>();
+
+  if (user && !profiles.some((profile) => profile.id === user.id)) {
+    profiles.push({
+      id: user.id,
+      username: user.email?.split("@")[0] || "you",
+      avatar_url: null,
+      productivity_settings: DEFAULT_PRODUCTIVITY_SETTINGS,
+      keyboard_shortcuts: {},
+      active_workspace_id: null,
+      timezone: null,
+      created_at: now(),
+      updated_at: now(),
+    });
+  }
+
+  const taskListeners = new Set<{
+    workspaceId: WorkspaceScope;
+    onChange: () => void;
+  }>();
+  const commentListeners = new Set<{
+    taskId: string;
+    onChange: () => void;
+  }>();
+  const categoryListeners = new Set<() => void>();
+  const tagListeners = new Set<() => void>();
+  const viewListeners = new Set<() => void>();
+  const smartContextListeners = new Set<() => void>();
+  const pinnedBlockListeners = new Set<() => void>();
+  const workspaceListeners = new Set<() => void>();
+
+  // Deliver changes asynchronously, like realtime does
+  const notify = (callbacks: Iterable<() => void>) => {
+    Array.from(callbacks).forEach((callback) => queueMicrotask(callback));
+  };
+
+  const notifyTasks = (...workspaceIds: (string | null)[]) =>
+    notify(
+      Array.from(taskListeners)
+        .filter(
+          (listener) =>
+            !listener.workspaceId || workspaceIds.includes(listener.workspaceId)
+        )
+        .map((listener) => listener.onChange)
+    );
+
+  const requireUser = () => {
+    if (!user)
+      throw new RepositoryError("Not authenticated", "unauthenticated");
+    return user;
+  };
+
+  const isMember = (workspaceId: string, userId: string) =>
+    workspaces.some(
+      (workspace) =>
+        workspace.id === workspaceId && workspace.created_by === userId
+    ) ||
+    members.some(
+      (member) =>
+        member.workspace_id === workspaceId && member.user_id === userId
+    );
+
+  // Personal tasks are visible to their owner and assignees, workspace
+  // tasks to every member
+  const visibleTasks = () => {
+    const { id } = requireUser();
+    return tasks.filter((task) =>
+      task.workspace_id
+        ? isMember(task.workspace_id, id)
+        : task.user_id === id || task.assigned_to.includes(id)
+    );
+  };
+
+  const findTask = (id: string) =>
+    visibleTasks().find((task) => task.id === id) || notFound("Task");
+
+  // Same rules as the check_task_dependencies trigger
+  const checkDependencies = (task: Task, previous?: Task) => {
+    if (task.dependencies.includes(task.id)) {
+      throw new RepositoryError("A task cannot depend on itself", "validation");
+    }
+
+    if (findDependencyCycle(task.id, task.dependencies, tasks)) {
+      throw new RepositoryError(
+        "These dependencies would create a cycle",
+        "validation"
+      );
+    }
+
+    if (isGatedStatus(task.status) && task.status !== previous?.status) {
+      const blockers = getOpenPrerequisites(task, tasks);
+      if (blockers.length > 0) {
+        throw new RepositoryError(
+          `Task is blocked by ${blockers
+            .map((t) => `"${t.title}"`)
+            .join(", ")}`,
+          "validation"
+        );
+      }
+    }
+  };
+
+  // Same rows the log_task_activity trigger writes
+  const logActivity = (
+    task: Task,
+    activityType: TaskActivity["activity_type"]
+  ) => {
+    activities.push({
+      id: newId(),
+      task_id: task.id,
+      user_id: requireUser().id,
+      activity_type: activityType,
+      created_at: now(),
+    });
+  };
+
+  const tagsOf = (taskId: string) =>
+    taskTags
+      .filter((row) => row.task_id === taskId)
+      .map((row) => tags.find((tag) => tag.id === row.tag_id))
+      .filter((tag): tag is Tag => !!tag);
+
+  const taskRepository: TaskRepository = {
+    async list(query) {
+      const search = query.search?.trim().toLowerCase();
+
+      return visibleTasks()
+        .filter((task) => inScope(task, query.workspaceId))
+        .filter((task) => !query.status || task.status === query.status)
+        .filter(
+          (task) => !query.excludeStatus || task.status !== query.excludeStatus
+        )
+        .filter(
+          (task) =>
+            !query.priorities?.length ||
+            query.priorities.includes(task.priority)
+        )
+        .filter(
+          (task) => !query.categoryId || task.category_id === query.categoryId
+        )
+        .filter(
+          (task) =>
+            !query.assignedTo || task.assigned_to.includes(query.assignedTo)
+        )
+        .filter((task) => !query.seriesId || task.series_id === query.seriesId)
+        .filter(
+          (task) =>
+            !query.tagId ||
+            taskTags.some(
+              (row) => row.task_id === task.id && row.tag_id === query.tagId
+            )
+        )
+        .filter((task) => inDueRange(task, query.dueFrom, query.dueBefore))
+        .filter(
+          (task) =>
+            !search ||
+            `${task.title}\n${task.description || ""}`
+              .toLowerCase()
+              .includes(search)
+        )
+        .sort(compareTasks(query.orderBy || "created_at", !!query.ascending))
+        .slice(0, query.limit)
+        .map((task) =>
+          clone({
+            ...task,
+            category: categories.find(
+              (category) => category.id === task.category_id
+            ),
+            tags: sortTags(tagsOf(task.id)),
+            series: series.find((item) => item.id === task.series_id),
+            subtaskProgress: toSubtaskProgress(
+              subtasks.filter((subtask) => subtask.task_id === task.id)
+            ),
+            commentCount: comments.filter(
+              (comment) => comment.task_id === task.id && !comment.deleted_at
+            ).length,
+          })
+        );
+    },
+
+    async getByIds(ids) {
+      return clone(visibleTasks().filter((task) => ids.includes(task.id)));
+    },
+
+    async create(input) {
+      const task: Task = {
+        id: newId(),
+        user_id: requireUser().id,
+        title: "",
+        description: null,
+        due_date: null,
+        priority: "medium",
+        status: "pending",
+        category_id: null,
+        dependencies: [],
+        assigned_to: [],
+        workspace_id: null,
+        series_id: null,
+        occurrence_index: null,
+        position: newPosition(),
+        has_due_time: false,
+        complete_with_subtasks: false,
+        created_at: now(),
+        updated_at: now(),
+        ...defined(input),
+      };
+
+      checkDependencies(task);
+      tasks.push(task);
+      logActivity(task, "create");
+      notifyTasks(task.workspace_id);
+
+      return clone(task);
+    },
+
+    async update(id, changes) {
+      const previous = findTask(id);
+      const task: Task = {
+        ...previous,
+        ...defined(changes),
+        updated_at: now(),
+      };
+
+      checkDependencies(task, previous);
+      tasks[tasks.indexOf(previous)] = task;
+
+      // Like the trigger, moving a task on the board isn't logged
+      const moved = (Object.keys(changes) as (keyof Task)[]).every(
+        (key) =>
+          key === "position" ||
+          JSON.stringify(task[key]) === JSON.stringify(previous[key])
+      );
+
+      if (task.status === "completed" && previous.status !== "completed") {
+        logActivity(task, "complete");
+      } else if (!moved) {
+        logActivity(task, "update");
+      }
+      notifyTasks(previous.workspace_id, task.workspace_id);
+
+      return clone(task);
+    },
+
+    async remove(id) {
+      const task = findTask(id);
+
+      tasks.splice(tasks.indexOf(task), 1);
+      activities.splice(
+        0,
+        activities.length,
+        ...activities.filter((activity) => activity.task_id !== id)
+      );
+      subtasks.splice(
+        0,
+        subtasks.length,
+        ...subtasks.filter((subtask) => subtask.task_id !== id)
+      );
+      comments.splice(
+        0,
+        comments.length,
+        ...comments.filter((comment) => comment.task_id !== id)
+      );
+      taskTags.splice(
+        0,
+        taskTags.length,
+        ...taskTags.filter((row) => row.task_id !== id)
+      );
+      contextExclusions.splice(
+        0,
+        contextExclusions.length,
+        ...contextExclusions.filter((row) => row.task_id !== id)
+      );
+      pinnedBlocks.splice(
+        0,
+        pinnedBlocks.length,
+        ...pinnedBlocks.filter((block) => block.task_id !== id)
+      );
+      attachments
+        .filter((attachment) => attachment.task_id === id)
+        .forEach((attachment) => {
+          files.delete(attachment.storage_path);
+          attachments.splice(attachments.indexOf(attachment), 1);
+        });
+      notifyTasks(task.workspace_id);
+    },
+
+    subscribe(workspaceId, onChange) {
+      const listener = { workspaceId, onChange };
+      taskListeners.add(listener);
+      return () => {
+        taskListeners.delete(listener);
+      };
+    },
+  };
+
+  // Subtasks are visible along with their task
+  const findSubtask = (id: string) => {
+    const subtask = subtasks.find((s) => s.id === id);
+    if (subtask) findTask(subtask.task_id);
+    return subtask || notFound("Subtask");
+  };
+
+  const subtaskRepository: SubtaskRepository = {
+    async list(taskId) {
+      findTask(taskId);
+
+      return clone(
+        subtasks
+          .filter((subtask) => subtask.task_id === taskId)
+          .sort((a, b) => a.position - b.position)
+      );
+    },
+
+    async create(input) {
+      findTask(input.task_id);
+
+      const subtask: Subtask = {
+        id: newId(),
+        task_id: input.task_id,
+        title: input.title,
+        status: "pending",
+        // Same default as subtasks.position: new subtasks go to the bottom
+        position: Date.now() / 1000,
+        created_at: now(),
+        updated_at: now(),
+        ...defined(input),
+      };
+
+      subtasks.push(subtask);
+
+      return clone(subtask);
+    },
+
+    async update(id, changes) {
+      const subtask = Object.assign(findSubtask(id), defined(changes), {
+        updated_at: now(),
+      });
+
+      return clone(subtask);
+    },
+
+    async remove(id) {
+      subtasks.splice(subtasks.indexOf(findSubtask(id)), 1);
+    },
+  };
+
+  const notifyComments = (taskId: string) =>
+    notify(
+      Array.from(commentListeners)
+        .filter((listener) => listener.taskId === taskId)
+        .map((listener) => listener.onChange)
+    );
+
+  // Comments are visible along with their task; only their author may
+  // change them
+  const findOwnComment = (id: string) => {
+    const comment = comments.find((c) => c.id === id);
+    if (!comment) notFound("Comment");
+
+    findTask(comment.task_id);
+    if (comment.user_id !== requireUser().id) {
+      throw new RepositoryError(
+        "You can only change your own comments",
+        "permission_denied"
+      );
+    }
+    return comment;
+  };
+
+  const commentRepository: CommentRepository = {
+    async list(taskId) {
+      findTask(taskId);
+
+      return comments
+        .filter((comment) => comment.task_id === taskId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((comment) => {
+          const profile = profiles.find((p) => p.id === comment.user_id);
+
+          return clone({
+            ...comment,
+            author: profile && {
+              username: profile.username,
+              avatar_url: profile.avatar_url || undefined,
+            },
+          });
+        });
+    },
+
+    async create(input) {
+      findTask(input.task_id);
+
+      // Same rule as the check_task_comment_parent trigger
+      if (
+        input.parent_id &&
+        !comments.some(
+          (c) =>
+            c.id === input.parent_id &&
+            c.task_id === input.task_id &&
+            !c.parent_id
+        )
+      ) {
+        throw new RepositoryError(
+          "Replies must answer a top-level comment on the same task",
+          "validation"
+        );
+      }
+
+      const comment: TaskComment = {
+        id: newId(),
+        task_id: input.task_id,
+        user_id: requireUser().id,
+        parent_id: input.parent_id || null,
+        body: input.body,
+        deleted_at: null,
+        created_at: now(),
+        updated_at: now(),
+      };
+
+      comments.push(comment);
+      notifyComments(comment.task_id);
+
+      return clone(comment);
+    },
+
+    async update(id, body) {
+      const comment = Object.assign(findOwnComment(id), {
+        body,
+        updated_at: now(),
+      });
+      notifyComments(comment.task_id);
+
+      return clone(comment);
+    },
+
+    async remove(id) {
+      const comment = Object.assign(findOwnComment(id), {
+        body: "",
+        deleted_at: now(),
+        updated_at: now(),
+      });
+      notifyComments(comment.task_id);
+    },
+
+    subscribe(taskId, onChange) {
+      const listener = { taskId, onChange };
+      commentListeners.add(listener);
+      return () => {
+        commentListeners.delete(listener);
+      };
+    },
+  };
+
+  const usedBytes = (userId: string) =>
+    attachments
+      .filter((attachment) => attachment.user_id === userId)
+      .reduce((sum, attachment) => sum + attachment.size, 0);
+
+  const attachmentRepository: AttachmentRepository = {
+    async list(taskId) {
+      findTask(taskId);
+
+      return clone(
+        attachments
+          .filter((attachment) => attachment.task_id === taskId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      );
+    },
+
+    async usage() {
+      return usedBytes(requireUser().id);
+    },
+
+    async upload(taskId, file) {
+      const { id: userId } = requireUser();
+      findTask(taskId);
+
+      // Same limits as the table constraint and the quota trigger
+      if (file.size === 0 || file.size > MAX_ATTACHMENT_SIZE) {
+        throw new RepositoryError("Attachment is too large", "validation");
+      }
+      if (usedBytes(userId) + file.size > ATTACHMENT_QUOTA) {
+        throw new RepositoryError(
+          "Attachment storage limit reached",
+          "validation"
+        );
+      }
+
+      const attachment: TaskAttachment = {
+        id: newId(),
+        task_id: taskId,
+        user_id: userId,
+        name: file.name,
+        content_type: file.type || "application/octet-stream",
+        size: file.size,
+        storage_path: attachmentPath(taskId, file.name),
+        created_at: now(),
+      };
+
+      attachments.push(attachment);
+      files.set(attachment.storage_path, file);
+
+      return clone(attachment);
+    },
+
+    async getUrl(attachment) {
+      const file = files.get(attachment.storage_path);
+      if (!file) notFound("Attachment file");
+
+      // Served like the local storage route does
+      return URL.createObjectURL(
+        new Blob([file], { type: servedContentType(attachment) })
+      );
+    },
+
+    async remove(attachment) {
+      const existing =
+        attachments.find((a) => a.id === attachment.id) ||
+        notFound("Attachment");
+      findTask(existing.task_id);
+
+      attachments.splice(attachments.indexOf(existing), 1);
+      files.delete(existing.storage_path);
+    },
+  };
+
+  // Series follow the same visibility rules as tasks
+  const findSeries = (id: string) => {
+    const { id: userId } = requireUser();
+    const item = series.find((s) => s.id === id);
+
+    return item &&
+      (item.workspace_id
+        ? isMember(item.workspace_id, userId)
+        : item.user_id === userId || item.assigned_to.includes(userId))
+      ? item
+      : notFound("Task series");
+  };
+
+  const seriesRepository: TaskSeriesRepository = {
+    async get(id) {
+      return clone(findSeries(id));
+    },
+
+    async create(input) {
+      const item: TaskSeries = {
+        id: newId(),
+        user_id: requireUser().id,
+        workspace_id: null,
+        title: input.title,
+        recurrence: input.recurrence,
+        description: null,
+        priority: "medium",
+        category_id: null,
+        assigned_to: [],
+        created_at: now(),
+        updated_at: now(),
+        ...defined(input),
+      };
+
+      series.push(item);
+
+      return clone(item);
+    },
+
+    async update(id, changes) {
+      const item = Object.assign(findSeries(id), defined(changes), {
+        updated_at: now(),
+      });
+
+      return clone(item);
+    },
+
+    async remove(id) {
+      const item = findSeries(id);
+
+      series.splice(series.indexOf(item), 1);
+
+      // series_id is "on delete set null"
+      tasks
+        .filter((task) => task.series_id === id)
+        .forEach((task) => {
+          task.series_id = null;
+          task.occurrence_index = null;
+        });
+      notifyTasks(item.workspace_id);
+    },
+
+    async createOccurrence(seriesId, index, dueDate, hasDueTime = false) {
+      const item = findSeries(seriesId);
+      const existing = tasks.find(
+        (task) => task.series_id === seriesId && task.occurrence_index === index
+      );
+
+      if (existing) return clone(existing);
+
+      const task: Task = {
+        id: newId(),
+        user_id: item.user_id,
+        workspace_id: item.workspace_id,
+        series_id: item.id,
+        occurrence_index: index,
+        title: item.title,
+        description: item.description,
+        priority: item.priority,
+        status: "pending",
+        category_id: item.category_id,
+        dependencies: [],
+        assigned_to: item.assigned_to,
+        due_date: dueDate,
+        has_due_time: hasDueTime,
+        complete_with_subtasks: false,
+        position: newPosition(),
+        created_at: now(),
+        updated_at: now(),
+      };
+
+      tasks.push(task);
+      logActivity(task, "create");
+      notifyTasks(task.workspace_id);
+
+      return clone(task);
+    },
+  };
+
+  const visibleCategories = (workspaceId: WorkspaceScope) => {
+    const { id } = requireUser();
+    return categories.filter(
+      (category) =>
+        inScope(category, workspaceId) &&
+        (workspaceId ? isMember(workspaceId, id) : category.user_id === id)
+    );
+  };
+
+  const findCategory = (id: string) => {
+    const category = categories.find((c) => c.id === id);
+    return category &&
+      visibleCategories(category.workspace_id).includes(category)
+      ? category
+      : notFound("Category");
+  };
+
+  const categoryRepository: CategoryRepository = {
+    async list(workspaceId) {
+      return clone(
+        visibleCategories(workspaceId).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+    },
+
+    async create(input) {
+      const category: Category = {
+        id: newId(),
+        user_id: requireUser().id,
+        name: input.name,
+        color: input.color || "#3B82F6",
+        workspace_id: input.workspace_id || null,
+        created_at: now(),
+      };
+
+      categories.push(category);
+      notify(categoryListeners);
+
+      return clone(category);
+    },
+
+    async update(id, changes) {
+      const category = Object.assign(findCategory(id), defined(changes));
+      notify(categoryListeners);
+
+      return clone(category);
+    },
+
+    async remove(id) {
+      const category = findCategory(id);
+
+      categories.splice(categories.indexOf(category), 1);
+      notify(categoryListeners);
+
+      // category_id is "on delete set null"
+      const affected = tasks.filter((task) => task.category_id === id);
+      affected.forEach((task) => (task.category_id = null));
+      if (affected.length > 0) notifyTasks(category.workspace_id);
+    },
+
+    subscribe(onChange) {
+      categoryListeners.add(onChange);
+      return () => {
+        categoryListeners.delete(onChange);
+      };
+    },
+  };
+
+  // Tags are scoped like categories
+  const visibleTags = (workspaceId: WorkspaceScope) => {
+    const { id } = requireUser();
+    return tags.filter(
+      (tag) =>
+        inScope(tag, workspaceId) &&
+        (workspaceId ? isMember(workspaceId, id) : tag.user_id === id)
+    );
+  };
+
+  const findTag = (id: string) => {
+    const tag = tags.find((t) => t.id === id);
+    return tag && visibleTags(tag.workspace_id).includes(tag)
+      ? tag
+      : notFound("Tag");
+  };
+
+  // Same rule as the tags_*_name_idx unique indexes
+  const checkTagName = (tag: Tag) => {
+    if (!tag.name) {
+      throw new RepositoryError("Tag name can't be empty", "validation");
+    }
+
+    if (
+      tags.some(
+        (other) =>
+          other.id !== tag.id &&
+          inScope(other, tag.workspace_id) &&
+          (tag.workspace_id || other.user_id === tag.user_id) &&
+          other.name.toLowerCase() === tag.name.toLowerCase()
+      )
+    ) {
+      throw new RepositoryError(
+        `A tag named "${tag.name}" already exists`,
+        "conflict"
+      );
+    }
+  };
+
+  const tagRepository: TagRepository = {
+    async list(workspaceId) {
+      const taskIds = new Set(visibleTasks().map((task) => task.id));
+
+      return clone(
+        visibleTags(workspaceId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((tag) => ({
+            ...tag,
+            taskCount: taskTags.filter(
+              (row) => row.tag_id === tag.id && taskIds.has(row.task_id)
+            ).length,
+          }))
+      );
+    },
+
+    async create(input) {
+      const tag: Tag = {
+        id: newId(),
+        user_id: requireUser().id,
+        name: input.name.trim(),
+        color: input.color || "#6B7280",
+        workspace_id: input.workspace_id || null,
+        created_at: now(),
+      };
+
+      checkTagName(tag);
+      tags.push(tag);
+      notify(tagListeners);
+
+      return clone(tag);
+    },
+
+    async update(id, changes) {
+      const previous = findTag(id);
+      const tag: Tag = {
+        ...previous,
+        ...defined(changes),
+        name: (changes.name ?? previous.name).trim(),
+      };
+
+      checkTagName(tag);
+      tags[tags.indexOf(previous)] = tag;
+      notify(tagListeners);
+      notifyTasks(tag.workspace_id);
+
+      return clone(tag);
+    },
+
+    async remove(id) {
+      const tag = findTag(id);
+
+      tags.splice(tags.indexOf(tag), 1);
+      taskTags.splice(
+        0,
+        taskTags.length,
+        ...taskTags.filter((row) => row.tag_id !== id)
+      );
+      notify(tagListeners);
+      notifyTasks(tag.workspace_id);
+    },
+
+    // Same checks as the merge_tags function
+    async merge(sourceId, targetId) {
+      const source = findTag(sourceId);
+      const target = findTag(targetId);
+
+      if (source.id === target.id) {
+        throw new RepositoryError(
+          "A tag cannot be merged into itself",
+          "validation"
+        );
+      }
+
+      if (source.workspace_id !== target.workspace_id) {
+        throw new RepositoryError(
+          "Only tags from the same workspace can be merged",
+          "validation"
+        );
+      }
+
+      taskTags
+        .filter((row) => row.tag_id === source.id)
+        .forEach((row) => {
+          if (
+            !taskTags.some(
+              (other) =>
+                other.task_id === row.task_id && other.tag_id === target.id
+            )
+          ) {
+            taskTags.push({ task_id: row.task_id, tag_id: target.id });
+          }
+        });
+
+      await this.remove(source.id);
+    },
+
+    async setTaskTags(taskId, tagIds) {
+      const task = findTask(taskId);
+      const added = tagIds.map(findTag);
+
+      // Same rule as the check_task_tag_scope trigger
+      if (added.some((tag) => tag.workspace_id !== task.workspace_id)) {
+        throw new RepositoryError(
+          "This tag belongs to a different workspace",
+          "validation"
+        );
+      }
+
+      taskTags.splice(
+        0,
+        taskTags.length,
+        ...taskTags.filter((row) => row.task_id !== taskId),
+        ...added.map((tag) => ({ task_id: taskId, tag_id: tag.id }))
+      );
+      notifyTasks(task.workspace_id);
+    },
+
+    subscribe(onChange) {
+      tagListeners.add(onChange);
+      return () => {
+        tagListeners.delete(onChange);
+      };
+    },
+  };
+
+  // Saved views are private to their creator
+  const findView = (id: string) =>
+    views.find((view) => view.id === id && view.user_id === requireUser().id) ||
+    notFound("Saved view");
+
+  const savedViewRepository: SavedViewRepository = {
+    async list(workspaceId) {
+      const { id } = requireUser();
+
+      return clone(
+        views
+          .filter((view) => view.user_id === id && inScope(view, workspaceId))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+
+    async create(input) {
+      const view: SavedView = {
+        id: newId(),
+        user_id: requireUser().id,
+        name: input.name.trim(),
+        query: input.query,
+        workspace_id: input.workspace_id || null,
+        created_at: now(),
+      };
+
+      if (!view.name) {
+        throw new RepositoryError("Give the view a name", "validation");
+      }
+
+      views.push(view);
+      notify(viewListeners);
+
+      return clone(view);
+    },
+
+    async update(id, changes) {
+      const view = Object.assign(findView(id), defined(changes));
+      view.name = view.name.trim();
+      notify(viewListeners);
+
+      return clone(view);
+    },
+
+    async remove(id) {
+      views.splice(views.indexOf(findView(id)), 1);
+      notify(viewListeners);
+    },
+
+    subscribe(onChange) {
+      viewListeners.add(onChange);
+      return () => {
+        viewListeners.delete(onChange);
+      };
+    },
+  };
+
+  // Smart contexts too are private to their creator
+  const findSmartContext = (id: string) =>
+    smartContexts.find(
+      (context) => context.id === id && context.user_id === requireUser().id
+    ) || notFound("Smart context");
+
+  const checkContextName = (context: SmartContext) => {
+    if (!context.name) {
+      throw new RepositoryError("Give the context a name", "validation");
+    }
+  };
+
+  const smartContextRepository: SmartContextRepository = {
+    async list(workspaceId) {
+      const { id } = requireUser();
+
+      return clone(
+        smartContexts
+          .filter(
+            (context) => context.user_id === id && inScope(context, workspaceId)
+          )
+          .sort(
+            (a, b) =>
+              a.position - b.position ||
+              a.created_at.localeCompare(b.created_at)
+          )
+      );
+    },
+
+    async create(input) {
+      const context: SmartContext = {
+        id: newId(),
+        user_id: requireUser().id,
+        workspace_id: input.workspace_id || null,
+        name: input.name.trim(),
+        priority: input.priority || "medium",
+        criteria: input.criteria,
+        position: input.position ?? 0,
+        enabled: input.enabled ?? true,
+        created_at: now(),
+      };
+
+      checkContextName(context);
+      smartContexts.push(context);
+      notify(smartContextListeners);
+
+      return clone(context);
+    },
+
+    async update(id, changes) {
+      const context = findSmartContext(id);
+      const updated = { ...context, ...defined(changes) };
+      updated.name = updated.name.trim();
+      checkContextName(updated);
+
+      Object.assign(context, updated);
+      notify(smartContextListeners);
+
+      return clone(context);
+    },
+
+    async remove(id) {
+      smartContexts.splice(smartContexts.indexOf(findSmartContext(id)), 1);
+      notify(smartContextListeners);
+    },
+
+    async listExclusions() {
+      const { id } = requireUser();
+      return clone(contextExclusions.filter((row) => row.user_id === id));
+    },
+
+    async exclude(taskId, contextId) {
+      const { id } = requireUser();
+      findTask(taskId);
+
+      if (
+        !contextExclusions.some(
+          (row) =>
+            row.user_id === id &&
+            row.task_id === taskId &&
+            row.context_id === contextId
+        )
+      ) {
+        contextExclusions.push({
+          user_id: id,
+          task_id: taskId,
+          context_id: contextId,
+          created_at: now(),
+        });
+        notify(smartContextListeners);
+      }
+    },
+
+    async include(taskId, contextId) {
+      const { id } = requireUser();
+
+      contextExclusions.splice(
+        0,
+        contextExclusions.length,
+        ...contextExclusions.filter(
+          (row) =>
+            row.user_id !== id ||
+            row.task_id !== taskId ||
+            row.context_id !== contextId
+        )
+      );
+      notify(smartContextListeners);
+    },
+
+    subscribe(onChange) {
+      smartContextListeners.add(onChange);
+      return () => {
+        smartContextListeners.delete(onChange);
+      };
+    },
+  };
+
+  // Same rules as the pinned_blocks constraints
+  const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+  const findPinnedBlock = (id: string) =>
+    pinnedBlocks.find(
+      (block) => block.id === id && block.user_id === requireUser().id
+    ) || notFound("Pinned block");
+
+  const checkPinnedBlock = (block: PinnedBlock) => {
+    if (
+      !TIME_PATTERN.test(block.start_time) ||
+      !TIME_PATTERN.test(block.end_time) ||
+      block.end_time <= block.start_time
+    ) {
+      throw new RepositoryError(
+        "A block has to end after it starts, on the same day",
+        "validation"
+      );
+    }
+    if (
+      pinnedBlocks.some(
+        (other) =>
+          other.id !== block.id &&
+          other.user_id === block.user_id &&
+          other.task_id === block.task_id &&
+          other.day === block.day
+      )
+    ) {
+      throw new RepositoryError(
+        "This task is already pinned on that day",
+        "conflict"
+      );
+    }
+  };
+
+  const pinnedBlockRepository: PinnedBlockRepository = {
+    async list(day) {
+      const { id } = requireUser();
+
+      return clone(
+        pinnedBlocks
+          .filter((block) => block.user_id === id && block.day === day)
+          .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      );
+    },
+
+    async create(input) {
+      findTask(input.task_id);
+
+      const block: PinnedBlock = {
+        id: newId(),
+        user_id: requireUser().id,
+        ...input,
+        created_at: now(),
+      };
+
+      checkPinnedBlock(block);
+      pinnedBlocks.push(block);
+      notify(pinnedBlockListeners);
+
+      return clone(block);
+    },
+
+    async update(id, changes) {
+      const block = findPinnedBlock(id);
+      const updated = { ...block, ...defined(changes) };
+      checkPinnedBlock(updated);
+
+      Object.assign(block, updated);
+      notify(pinnedBlockListeners);
+
+      return clone(block);
+    },
+
+    async remove(id) {
+      pinnedBlocks.splice(pinnedBlocks.indexOf(findPinnedBlock(id)), 1);
+      notify(pinnedBlockListeners);
+    },
+
+    subscribe(onChange) {
+      pinnedBlockListeners.add(onChange);
+      return () => {
+        pinnedBlockListeners.delete(onChange);
+      };
+    },
+  };
+
+  const roleIn = (workspace: Workspace, userId: string) =>
+    workspace.created_by === userId
+      ? "owner"
+      : toWorkspaceRole(
+          members.find(
+            (member) =>
+              member.workspace_id === workspace.id && member.user_id === userId
+          )?.role
+        );
+
+  const findWorkspace = (id: string) =>
+    workspaces.find(
+      (workspace) =>
+        workspace.id === id && isMember(workspace.id, requireUser().id)
+    ) || notFound("Workspace");
+
+  const findMember = (workspaceId: string, userId: string) =>
+    members.find(
+      (member) =>
+        member.workspace_id === workspaceId && member.user_id === userId
+    ) || notFound("Member");
+
+  const toWorkspaceMember = (member: MemoryMember) =>
+    toMember({
+      ...member,
+      profiles:
+        profiles.find((profile) => profile.id === member.user_id) || null,
+    });
+
+  const workspaceRepository: WorkspaceRepository = {
+    async listForCurrentUser() {
+      const { id } = requireUser();
+
+      return clone(
+        workspaces
+          .filter((workspace) => isMember(workspace.id, id))
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((workspace) => ({ ...workspace, role: roleIn(workspace, id) }))
+      );
+    },
+
+    async create(input) {
+      const workspace: Workspace = {
+        id: newId(),
+        name: input.name,
+        description: input.description || null,
+        created_by: requireUser().id,
+        created_at: now(),
+      };
+
+      workspaces.push(workspace);
+      members.push({
+        workspace_id: workspace.id,
+        user_id: workspace.created_by,
+        role: "owner",
+      });
+      notify(workspaceListeners);
+
+      return clone(workspace);
+    },
+
+    async update(id, changes) {
+      const workspace = Object.assign(findWorkspace(id), defined(changes));
+      notify(workspaceListeners);
+
+      return clone(workspace);
+    },
+
+    async remove(id) {
+      const workspace = findWorkspace(id);
+
+      // Everything that belongs to the workspace cascades
+      const keep = <T extends { workspace_id: string | null }>(rows: T[]) =>
+        rows.splice(
+          0,
+          rows.length,
+          ...rows.filter((row) => row.workspace_id !== id)
+        );
+
+      workspaces.splice(workspaces.indexOf(workspace), 1);
+      keep(members);
+      keep(categories);
+      keep(tags);
+      keep(views);
+      keep(smartContexts);
+      keep(tasks);
+      taskTags.splice(
+        0,
+        taskTags.length,
+        ...taskTags.filter(
+          (row) =>
+            tasks.some((task) => task.id === row.task_id) &&
+            tags.some((tag) => tag.id === row.tag_id)
+        )
+      );
+      contextExclusions.splice(
+        0,
+        contextExclusions.length,
+        ...contextExclusions.filter((row) =>
+          tasks.some((task) => task.id === row.task_id)
+        )
+      );
+      pinnedBlocks.splice(
+        0,
+        pinnedBlocks.length,
+        ...pinnedBlocks.filter((block) =>
+          tasks.some((task) => task.id === block.task_id)
+        )
+      );
+      profiles
+        .filter((profile) => profile.active_workspace_id === id)
+        .forEach((profile) => (profile.active_workspace_id = null));
+
+      notify(workspaceListeners);
+      notify(categoryListeners);
+      notify(tagListeners);
+      notify(viewListeners);
+      notifyTasks(id);
+    },
+
+    async listMembers(workspaceId) {
+      const { id } = requireUser();
+
+      return uniqueBy(
+        members
+          .filter((member) =>
+            workspaceId
+              ? member.workspace_id === workspaceId && isMember(workspaceId, id)
+              : isMember(member.workspace_id, id)
+          )
+          .map(toWorkspaceMember),
+        (member) => member.user_id
+      );
+    },
+
+    async listAssignableMembers() {
+      const { id } = requireUser();
+      const workspaceMembers = await this.listMembers();
+
+      return workspaceMembers.some((member) => member.user_id === id)
+        ? workspaceMembers
+        : [
+            toWorkspaceMember({ workspace_id: "", user_id: id, role: "owner" }),
+            ...workspaceMembers,
+          ];
+    },
+
+    async updateMemberRole(workspaceId, userId, role) {
+      findWorkspace(workspaceId);
+      findMember(workspaceId, userId).role = role;
+    },
+
+    async removeMember(workspaceId, userId) {
+      findWorkspace(workspaceId);
+      members.splice(members.indexOf(findMember(workspaceId, userId)), 1);
+    },
+
+    async transferOwnership(workspaceId, userId) {
+      const workspace = findWorkspace(workspaceId);
+      const previousOwner = requireUser().id;
+
+      if (roleIn(workspace, previousOwner) !== "owner") {
+        throw new RepositoryError(
+          "Only the owner can transfer this workspace",
+          "permission_denied"
+        );
+      }
+
+      const newOwner = members.find(
+        (member) =>
+          member.workspace_id === workspaceId && member.user_id === userId
+      );
+
+      if (!newOwner) {
+        throw new RepositoryError(
+          "The new owner must be a member of the workspace",
+          "validation"
+        );
+      }
+
+      workspace.created_by = userId;
+      newOwner.role = "owner";
+
+      const previous = members.find(
+        (member) =>
+          member.workspace_id === workspaceId &&
+          member.user_id === previousOwner
+      );
+      if (previous) {
+        previous.role = "admin";
+      } else {
+        members.push({
+          workspace_id: workspaceId,
+          user_id: previousOwner,
+          role: "admin",
+        });
+      }
+
+      notify(workspaceListeners);
+    },
+
+    subscribe(onChange) {
+      workspaceListeners.add(onChange);
+      return () => {
+        workspaceListeners.delete(onChange);
+      };
+    },
+  };
+
+  const findProfile = (id: string) =>
+    profiles.find((profile) => profile.id === id) || notFound("Profile");
+
+  const profileRepository: ProfileRepository = {
+    async getCurrentUser() {
+      return clone(requireUser());
+    },
+
+    async getCurrent() {
+      return clone(findProfile(requireUser().id));
+    },
+
+    async get(id) {
+      requireUser();
+      return clone(findProfile(id));
+    },
+
+    async create(input) {
+      if (profiles.some((profile) => profile.id === input.id)) {
+        throw new RepositoryError("Profile already exists", "conflict");
+      }
+
+      profiles.push({
+        avatar_url: null,
+        productivity_settings: DEFAULT_PRODUCTIVITY_SETTINGS,
+        keyboard_shortcuts: {},
+        active_workspace_id: null,
+        timezone: null,
+        created_at: now(),
+        updated_at: now(),
+        ...defined(input),
+      } as Profile);
+    },
+
+    async updateCurrent(changes) {
+      const profile = Object.assign(
+        findProfile(requireUser().id),
+        defined(changes),
+        { updated_at: now() }
+      );
+
+      return clone(profile);
+    },
+  };
+
+  const activityRepository: ActivityRepository = {
+    async list(query) {
+      const scopedTaskIds = new Set(
+        visibleTasks()
+          .filter((task) => inScope(task, query.workspaceId))
+          .map((task) => task.id)
+      );
+
+      return clone(
+        activities.filter(
+          (activity) =>
+            scopedTaskIds.has(activity.task_id) &&
+            (!query.type || activity.activity_type === query.type) &&
+            (!query.from || activity.created_at >= query.from) &&
+            (!query.to || activity.created_at <= query.to)
+        )
+      );
+    },
+  };
+
+  // Prefix matching on whole words like the database, ranked by where the
+  // words were found rather than how often
+  const SNIPPET_LENGTH = 120;
+
+  const searchRepository: SearchRepository = {
+    async search(query, limit = 8) {
+      const { id: userId } = requireUser();
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+
+      const matches = (...texts: (string | null)[]) =>
+        matchesTerms(texts.filter(Boolean).join(" "), terms);
+      const snippet = (text: string | null) =>
+        text && terms.some((term) => matchesTerms(text, [term]))
+          ? markMatches(text, terms, SNIPPET_LENGTH)
+          : null;
+
+      const taskResults = visibleTasks().flatMap((task): SearchResult[] => {
+        const hits: SearchResult[] = [];
+
+        if (matches(task.title, task.description)) {
+          hits.push({
+            kind: "task",
+            id: task.id,
+            taskId: task.id,
+            workspaceId: task.workspace_id,
+            title: markMatches(task.title, terms),
+            snippet: snippet(task.description),
+            rank: matches(task.title) ? 1 : 0.5,
+          });
+        }
+
+        for (const comment of comments) {
+          if (
+            comment.task_id === task.id &&
+            !comment.deleted_at &&
+            matches(comment.body)
+          ) {
+            hits.push({
+              kind: "comment",
+              id: comment.id,
+              taskId: task.id,
+              workspaceId: task.workspace_id,
+              title: task.title,
+              snippet: snippet(comment.body),
+              rank: 0.25,
+            });
+          }
+        }
+
+        return hits;
+      });
+
+      const categoryResults = categories
+        .filter(
+          (category) =>
+            (category.workspace_id
+              ? isMember(category.workspace_id, userId)
+              : category.user_id === userId) && matches(category.name)
+        )
+        .map(
+          (category): SearchResult => ({
+            kind: "category",
+            id: category.id,
+            taskId: null,
+            workspaceId: category.workspace_id,
+            title: markMatches(category.name, terms),
+            snippet: null,
+            rank: 1,
+          })
+        );
+
+      const workspaceResults = workspaces
+        .filter(
+          (workspace) =>
+            isMember(workspace.id, userId) &&
+            matches(workspace.name, workspace.description)
+        )
+        .map(
+          (workspace): SearchResult => ({
+            kind: "workspace",
+            id: workspace.id,
+            taskId: null,
+            workspaceId: workspace.id,
+            title: markMatches(workspace.name, terms),
+            snippet: snippet(workspace.description),
+            rank: matches(workspace.name) ? 1 : 0.5,
+          })
+        );
+
+      const results = [...taskResults, ...categoryResults, ...workspaceResults];
+      const counts = new Map<string, number>();
+
+      return clone(
+        results
+          .sort((a, b) => b.rank - a.rank)
+          .filter((result) => {
+            const count = (counts.get(result.kind) || 0) + 1;
+            counts.set(result.kind, count);
+            return count <= limit;
+          })
+      );
+    },
+  };
+
+  return {
+    tasks: taskRepository,
+    subtasks: subtaskRepository,
+    comments: commentRepository,
+    attachments: attachmentRepository,
+    series: seriesRepository,
+    categories: categoryRepository,
+    tags: tagRepository,
+    views: savedViewRepository,
+    smartContexts: smartContextRepository,
+    pinnedBlocks: pinnedBlockRepository,
+    workspaces: workspaceRepository,
+    profiles: profileRepository,
+    activities: activityRepository,
+    search: searchRepository,
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/repositories/pinned-blocks.ts
+import { supabase } from "@/lib/supabase";
+import type { PinnedBlock } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe } from "./types";
+
+export type PinnedBlockInput = Pick<
+  PinnedBlock,
+  "task_id" | "day" | "start_time" | "end_time"
+>;
+
+export type PinnedBlockUpdate = Partial<
+  Pick<PinnedBlock, "start_time" | "end_time">
+>;
+
+export interface PinnedBlockRepository {
+  // The current user's pins on a day, across workspaces, by start time
+  list(day: string): Promise<PinnedBlock[]>;
+  create(input: PinnedBlockInput): Promise<PinnedBlock>;
+  update(id: string, changes: PinnedBlockUpdate): Promise<PinnedBlock>;
+  remove(id: string): Promise<void>;
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+export const supabasePinnedBlockRepository: PinnedBlockRepository = {
+  async list(day) {
+    const { data, error } = await supabase
+      .from("pinned_blocks")
+      .select("*")
+      .eq("day", day)
+      .order("start_time");
+
+    if (error) throw toRepositoryError(error, "Failed to fetch pinned blocks");
+
+    return data;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("pinned_blocks")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to pin the block");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("pinned_blocks")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to move the block");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase
+      .from("pinned_blocks")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to unpin the block");
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("pinned-blocks-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "pinned_blocks" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
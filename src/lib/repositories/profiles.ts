@@ -0,0 +1,106 @@
+// src/lib/repositories/profiles.ts
+import { supabase } from "@/lib/supabase";
+import type {
+  Profile,
+  ProductivitySettings,
+  ShortcutBindings,
+} from "@/lib/supabase";
+import type { Tables } from "@/lib/database.types";
+import { RepositoryError, toRepositoryError } from "./errors";
+import type { CurrentUser } from "./types";
+
+export type ProfileInput = {
+  id: string;
+  username: string;
+  productivity_settings?: ProductivitySettings;
+};
+
+export type ProfileUpdate = Partial<
+  Pick<
+    Profile,
+    | "username"
+    | "avatar_url"
+    | "productivity_settings"
+    | "active_workspace_id"
+    | "timezone"
+    | "keyboard_shortcuts"
+  >
+>;
+
+export const DEFAULT_PRODUCTIVITY_SETTINGS: ProductivitySettings = {
+  peak_hours: ["09:00", "14:00"],
+  work_days: [1, 2, 3, 4, 5], // Monday to Friday
+  focus_duration: 25, // Minutes
+};
+
+export interface ProfileRepository {
+  // Throws an "unauthenticated" error when nobody is signed in
+  getCurrentUser(): Promise<CurrentUser>;
+  getCurrent(): Promise<Profile>;
+  get(id: string): Promise<Profile>;
+  create(input: ProfileInput): Promise<void>;
+  updateCurrent(changes: ProfileUpdate): Promise<Profile>;
+}
+
+const toProfile = (row: Tables<"profiles">): Profile => ({
+  ...row,
+  productivity_settings: row.productivity_settings as ProductivitySettings,
+  keyboard_shortcuts: row.keyboard_shortcuts as ShortcutBindings,
+});
+
+export const supabaseProfileRepository: ProfileRepository = {
+  async getCurrentUser() {
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+
+    if (error || !user) {
+      throw new RepositoryError("Not authenticated", "unauthenticated", error);
+    }
+
+    return { id: user.id, email: user.email || null };
+  },
+
+  async getCurrent() {
+    const user = await this.getCurrentUser();
+    return this.get(user.id);
+  },
+
+  async get(id) {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to load profile");
+
+    return toProfile(data);
+  },
+
+  async create(input) {
+    // No select here: right after sign-up there may not be a session yet
+    const { error } = await supabase.from("profiles").insert({
+      productivity_settings: DEFAULT_PRODUCTIVITY_SETTINGS,
+      ...input,
+    });
+
+    if (error) throw toRepositoryError(error, "Failed to create profile");
+  },
+
+  async updateCurrent(changes) {
+    const user = await this.getCurrentUser();
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .update(changes)
+      .eq("id", user.id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update profile");
+
+    return toProfile(data);
+  },
+};
@@ -0,0 +1,8 @@
+// src/lib/repositories/realtime.ts
+
+// realtime-js builds a new channel on every call, and the server keeps one
+// per topic: a second join on a topic replaces the first, and leaving either
+// ends it for both. Each subscription gets a topic of its own instead.
+let subscriptions = 0;
+
+export const channelTopic = (name: string) => `${name}-${++subscriptions}`;
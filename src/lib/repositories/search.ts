@@ -0,0 +1,61 @@
+// src/lib/repositories/search.ts
+import { supabase } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+
+export type SearchResultKind = "task" | "comment" | "category" | "workspace";
+
+export type SearchResult = {
+  kind: SearchResultKind;
+  id: string;
+  // The task itself, or the one a comment is on
+  taskId: string | null;
+  workspaceId: string | null;
+  // Matches are marked as described in src/lib/search.ts
+  title: string;
+  // The matching part of a description or comment
+  snippet: string | null;
+  rank: number;
+};
+
+export interface SearchRepository {
+  // Tasks, comments, categories and workspaces matching every word of the
+  // query, best first, at most `limit` of each kind
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+}
+
+const SEARCH_RESULT_KINDS: SearchResultKind[] = [
+  "task",
+  "comment",
+  "category",
+  "workspace",
+];
+
+const isKind = (kind: string): kind is SearchResultKind =>
+  SEARCH_RESULT_KINDS.includes(kind as SearchResultKind);
+
+export const supabaseSearchRepository: SearchRepository = {
+  async search(query, limit) {
+    const { data, error } = await supabase.rpc("search_all", {
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) throw toRepositoryError(error, "Search failed");
+
+    return data.flatMap((row) =>
+      isKind(row.kind)
+        ? [
+            {
+              kind: row.kind,
+              id: row.id,
+              taskId: row.task_id,
+              workspaceId: row.workspace_id,
+              title: row.title,
+              snippet: row.snippet,
+              rank: row.rank,
+            },
+          ]
+        : []
+    );
+  },
+};
@@ -0,0 +1,111 @@
+// src/lib/repositories/series.ts
+import { supabase } from "@/lib/supabase";
+import type { Task, TaskSeries } from "@/lib/supabase";
+import type { Tables, TablesInsert } from "@/lib/database.types";
+import { toRecurrenceRule, type RecurrenceRule } from "@/lib/recurrence";
+import { RepositoryError, toRepositoryError } from "./errors";
+
+// Owner, id and timestamps are filled in by the backend
+export type TaskSeriesInput = Omit<
+  TablesInsert<"task_series">,
+  "id" | "user_id" | "created_at" | "updated_at" | "recurrence"
+> & { recurrence: RecurrenceRule };
+
+export type TaskSeriesUpdate = Partial<TaskSeriesInput>;
+
+export interface TaskSeriesRepository {
+  get(id: string): Promise<TaskSeries>;
+  create(input: TaskSeriesInput): Promise<TaskSeries>;
+  update(id: string, changes: TaskSeriesUpdate): Promise<TaskSeries>;
+  // Existing occurrences are kept as plain tasks
+  remove(id: string): Promise<void>;
+  // Creates occurrence `index` from the series template. Creating the same
+  // occurrence twice returns the existing task.
+  createOccurrence(
+    seriesId: string,
+    index: number,
+    dueDate: string,
+    hasDueTime?: boolean
+  ): Promise<Task>;
+}
+
+export const toTaskSeries = (row: Tables<"task_series">): TaskSeries => {
+  const recurrence = toRecurrenceRule(row.recurrence);
+
+  if (!recurrence) {
+    throw new RepositoryError("Invalid recurrence rule", "validation", row);
+  }
+
+  return { ...row, recurrence };
+};
+
+export const supabaseTaskSeriesRepository: TaskSeriesRepository = {
+  async get(id) {
+    const { data, error } = await supabase
+      .from("task_series")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to load task series");
+
+    return toTaskSeries(data);
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("task_series")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create task series");
+
+    return toTaskSeries(data);
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("task_series")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update task series");
+
+    return toTaskSeries(data);
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("task_series").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to stop task series");
+  },
+
+  async createOccurrence(seriesId, index, dueDate, hasDueTime = false) {
+    const { data: taskId, error } = await supabase.rpc(
+      "create_task_occurrence",
+      {
+        p_series_id: seriesId,
+        p_occurrence_index: index,
+        p_due_date: dueDate,
+        p_has_due_time: hasDueTime,
+      }
+    );
+
+    if (error) throw toRepositoryError(error, "Failed to create occurrence");
+
+    const { data, error: taskError } = await supabase
+      .from("tasks")
+      .select("*")
+      .eq("id", taskId)
+      .single();
+
+    if (taskError) {
+      throw toRepositoryError(taskError, "Failed to create occurrence");
+    }
+
+    return data;
+  },
+};
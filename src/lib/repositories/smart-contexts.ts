@@ -0,0 +1,150 @@
+// src/lib/repositories/smart-contexts.ts
+import { supabase } from "@/lib/supabase";
+import type { ContextExclusion, SmartContext } from "@/lib/supabase";
+import type { Tables } from "@/lib/database.types";
+import type { ContextCriteria, ContextPriority } from "@/lib/smart-contexts";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe, WorkspaceScope } from "./types";
+
+export type SmartContextInput = {
+  name: string;
+  priority?: ContextPriority;
+  criteria: ContextCriteria;
+  position?: number;
+  enabled?: boolean;
+  workspace_id?: string | null;
+};
+
+export type SmartContextUpdate = Partial<
+  Pick<SmartContext, "name" | "priority" | "criteria" | "position" | "enabled">
+>;
+
+export interface SmartContextRepository {
+  // The current user's contexts in a workspace, in their order
+  list(workspaceId: WorkspaceScope): Promise<SmartContext[]>;
+  create(input: SmartContextInput): Promise<SmartContext>;
+  update(id: string, changes: SmartContextUpdate): Promise<SmartContext>;
+  remove(id: string): Promise<void>;
+  // Tasks the current user hid from contexts, by the context's rule id
+  listExclusions(): Promise<ContextExclusion[]>;
+  exclude(taskId: string, contextId: string): Promise<void>;
+  include(taskId: string, contextId: string): Promise<void>;
+  // Changes to the contexts and to the exclusions
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+const toSmartContext = (row: Tables<"smart_contexts">): SmartContext => ({
+  ...row,
+  priority: row.priority as ContextPriority,
+  criteria: row.criteria as ContextCriteria,
+});
+
+export const supabaseSmartContextRepository: SmartContextRepository = {
+  async list(workspaceId) {
+    let request = supabase
+      .from("smart_contexts")
+      .select("*")
+      .order("position")
+      .order("created_at");
+
+    request = workspaceId
+      ? request.eq("workspace_id", workspaceId)
+      : request.is("workspace_id", null);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Failed to fetch smart contexts");
+
+    return data.map(toSmartContext);
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("smart_contexts")
+      .insert({ ...input, name: input.name.trim() })
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create smart context");
+
+    return toSmartContext(data);
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("smart_contexts")
+      .update(
+        changes.name ? { ...changes, name: changes.name.trim() } : changes
+      )
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update smart context");
+
+    return toSmartContext(data);
+  },
+
+  async remove(id) {
+    const { error } = await supabase
+      .from("smart_contexts")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete smart context");
+  },
+
+  async listExclusions() {
+    const { data, error } = await supabase
+      .from("smart_context_exclusions")
+      .select("*");
+
+    if (error) {
+      throw toRepositoryError(error, "Failed to fetch hidden context tasks");
+    }
+
+    return data;
+  },
+
+  async exclude(taskId, contextId) {
+    const { error } = await supabase
+      .from("smart_context_exclusions")
+      .upsert(
+        { task_id: taskId, context_id: contextId },
+        { onConflict: "user_id,task_id,context_id", ignoreDuplicates: true }
+      );
+
+    if (error) throw toRepositoryError(error, "Failed to hide the task");
+  },
+
+  async include(taskId, contextId) {
+    const { error } = await supabase
+      .from("smart_context_exclusions")
+      .delete()
+      .eq("task_id", taskId)
+      .eq("context_id", contextId);
+
+    if (error) throw toRepositoryError(error, "Failed to show the task again");
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("smart-contexts-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "smart_contexts" },
+        () => onChange()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "smart_context_exclusions" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
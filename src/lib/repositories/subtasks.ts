@@ -0,0 +1,68 @@
+// src/lib/repositories/subtasks.ts
+import { supabase } from "@/lib/supabase";
+import type { Subtask } from "@/lib/supabase";
+import type { TablesInsert } from "@/lib/database.types";
+import { toRepositoryError } from "./errors";
+
+// Id and timestamps are filled in by the backend
+export type SubtaskInput = Omit<
+  TablesInsert<"subtasks">,
+  "id" | "created_at" | "updated_at"
+>;
+
+export type SubtaskUpdate = Partial<
+  Pick<Subtask, "title" | "status" | "position">
+>;
+
+export interface SubtaskRepository {
+  // In checklist order
+  list(taskId: string): Promise<Subtask[]>;
+  create(input: SubtaskInput): Promise<Subtask>;
+  update(id: string, changes: SubtaskUpdate): Promise<Subtask>;
+  remove(id: string): Promise<void>;
+}
+
+export const supabaseSubtaskRepository: SubtaskRepository = {
+  async list(taskId) {
+    const { data, error } = await supabase
+      .from("subtasks")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("position");
+
+    if (error) throw toRepositoryError(error, "Failed to fetch subtasks");
+
+    return data;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("subtasks")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create subtask");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("subtasks")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update subtask");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("subtasks").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete subtask");
+  },
+};
@@ -0,0 +1,145 @@
+// src/lib/repositories/tags.ts
+import { supabase } from "@/lib/supabase";
+import type { Tag } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe, WorkspaceScope } from "./types";
+
+// A tag with how many of the visible tasks carry it
+export type TagWithUsage = Tag & { taskCount: number };
+
+export type TagInput = {
+  name: string;
+  color?: string;
+  workspace_id?: string | null;
+};
+
+export type TagUpdate = Partial<Pick<Tag, "name" | "color">>;
+
+export interface TagRepository {
+  // Sorted by name
+  list(workspaceId: WorkspaceScope): Promise<TagWithUsage[]>;
+  create(input: TagInput): Promise<Tag>;
+  update(id: string, changes: TagUpdate): Promise<Tag>;
+  remove(id: string): Promise<void>;
+  // Moves every task tagged `sourceId` over to `targetId`, then deletes
+  // `sourceId`
+  merge(sourceId: string, targetId: string): Promise<void>;
+  // Replaces the tags on a task
+  setTaskTags(taskId: string, tagIds: string[]): Promise<void>;
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+export const supabaseTagRepository: TagRepository = {
+  async list(workspaceId) {
+    let request = supabase
+      .from("tags")
+      .select("*, task_tags(count)")
+      .order("name");
+
+    request = workspaceId
+      ? request.eq("workspace_id", workspaceId)
+      : request.is("workspace_id", null);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Failed to fetch tags");
+
+    return data.map(({ task_tags, ...tag }) => ({
+      ...tag,
+      taskCount: task_tags[0]?.count ?? 0,
+    }));
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("tags")
+      .insert({ ...input, name: input.name.trim() })
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create tag");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("tags")
+      .update(
+        changes.name ? { ...changes, name: changes.name.trim() } : changes
+      )
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update tag");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("tags").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete tag");
+  },
+
+  async merge(sourceId, targetId) {
+    const { error } = await supabase.rpc("merge_tags", {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+    });
+
+    if (error) throw toRepositoryError(error, "Failed to merge tags");
+  },
+
+  async setTaskTags(taskId, tagIds) {
+    const { data, error } = await supabase
+      .from("task_tags")
+      .select("tag_id")
+      .eq("task_id", taskId);
+
+    if (error) throw toRepositoryError(error, "Failed to update task tags");
+
+    const current = data.map((row) => row.tag_id);
+    const removed = current.filter((id) => !tagIds.includes(id));
+    const added = tagIds.filter((id) => !current.includes(id));
+
+    if (removed.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("task_tags")
+        .delete()
+        .eq("task_id", taskId)
+        .in("tag_id", removed);
+
+      if (deleteError) {
+        throw toRepositoryError(deleteError, "Failed to update task tags");
+      }
+    }
+
+    if (added.length > 0) {
+      const { error: insertError } = await supabase
+        .from("task_tags")
+        .insert(added.map((tagId) => ({ task_id: taskId, tag_id: tagId })));
+
+      if (insertError) {
+        throw toRepositoryError(insertError, "Failed to update task tags");
+      }
+    }
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("tags-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "tags" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
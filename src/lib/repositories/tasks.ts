@@ -0,0 +1,227 @@
+// src/lib/repositories/tasks.ts
+import { supabase } from "@/lib/supabase";
+import type { Category, Subtask, Tag, Task, TaskSeries } from "@/lib/supabase";
+import type { TablesInsert } from "@/lib/database.types";
+import { toRepositoryError } from "./errors";
+import { toTaskSeries } from "./series";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe, WorkspaceScope } from "./types";
+
+export type TaskStatus = Task["status"];
+
+export type TaskPriority = Task["priority"];
+
+// How much of a task's checklist is done
+export type SubtaskProgress = { completed: number; total: number };
+
+// A task with its category and tags, its checklist progress when it has
+// subtasks, how many comments it has and, for recurring tasks, its series
+export type TaskWithCategory = Task & {
+  category?: Category;
+  tags?: Tag[];
+  series?: TaskSeries;
+  subtaskProgress?: SubtaskProgress;
+  commentCount?: number;
+};
+
+export const toSubtaskProgress = (
+  subtasks: Pick<Subtask, "status">[]
+): SubtaskProgress | undefined =>
+  subtasks.length > 0
+    ? {
+        completed: subtasks.filter((s) => s.status === "completed").length,
+        total: subtasks.length,
+      }
+    : undefined;
+
+export const sortTags = (tags: Tag[]) =>
+  [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+// Owner, id and timestamps are filled in by the backend
+export type TaskInput = Omit<
+  TablesInsert<"tasks">,
+  "id" | "user_id" | "created_at" | "updated_at"
+>;
+
+export type TaskUpdate = Partial<TaskInput>;
+
+export type TaskQuery = {
+  workspaceId: WorkspaceScope;
+  status?: TaskStatus;
+  excludeStatus?: TaskStatus;
+  // Only tasks with one of these priorities
+  priorities?: TaskPriority[];
+  categoryId?: string;
+  // Only tasks assigned to this user
+  assignedTo?: string;
+  // Only occurrences of this recurring series
+  seriesId?: string;
+  // Only tasks carrying this tag
+  tagId?: string;
+  // Only tasks due in [dueFrom, dueBefore) (ISO timestamps)
+  dueFrom?: string;
+  dueBefore?: string;
+  // Only tasks with this text in their title or description
+  search?: string;
+  // Tasks without a due date come last either way
+  orderBy?: "created_at" | "due_date" | "priority" | "title" | "updated_at";
+  ascending?: boolean;
+  limit?: number;
+};
+
+export interface TaskRepository {
+  list(query: TaskQuery): Promise<TaskWithCategory[]>;
+  // Looks tasks up by id regardless of workspace, e.g. prerequisites
+  getByIds(ids: string[]): Promise<Task[]>;
+  create(input: TaskInput): Promise<Task>;
+  update(id: string, changes: TaskUpdate): Promise<Task>;
+  remove(id: string): Promise<void>;
+  // Calls `onChange` whenever a task in the workspace changes; null listens
+  // to every task the user can see
+  subscribe(workspaceId: WorkspaceScope, onChange: () => void): Unsubscribe;
+}
+
+// An ilike pattern for `text` anywhere, quoted for a PostgREST filter list
+const containsPattern = (text: string) =>
+  `"%${text.replace(/[\\%_]/g, "\\$&").replace(/[\\"]/g, "\\$&")}%"`;
+
+export const supabaseTaskRepository: TaskRepository = {
+  async list(query) {
+    let request = supabase
+      .from("tasks")
+      .select(
+        "*, categories(*), task_series(*), subtasks(status), task_comments(count), task_tags(tags(*)), tagged:task_tags(tag_id)"
+      )
+      // Only count comments that weren't deleted
+      .is("task_comments.deleted_at", null)
+      .order(query.orderBy || "created_at", {
+        ascending: query.ascending ?? false,
+        nullsFirst: false,
+      });
+
+    request = query.workspaceId
+      ? request.eq("workspace_id", query.workspaceId)
+      : request.is("workspace_id", null);
+
+    if (query.status) request = request.eq("status", query.status);
+    if (query.excludeStatus) {
+      request = request.neq("status", query.excludeStatus);
+    }
+    if (query.priorities?.length) {
+      request = request.in("priority", query.priorities);
+    }
+    if (query.categoryId) request = request.eq("category_id", query.categoryId);
+    if (query.assignedTo) {
+      request = request.contains("assigned_to", [query.assignedTo]);
+    }
+    if (query.seriesId) request = request.eq("series_id", query.seriesId);
+    // Filtered through a second embedding so `task_tags` keeps every tag
+    if (query.tagId) {
+      request = request
+        .eq("tagged.tag_id", query.tagId)
+        .not("tagged", "is", null);
+    }
+    if (query.dueFrom) request = request.gte("due_date", query.dueFrom);
+    if (query.dueBefore) request = request.lt("due_date", query.dueBefore);
+    if (query.search?.trim()) {
+      const pattern = containsPattern(query.search.trim());
+      request = request.or(
+        `title.ilike.${pattern},description.ilike.${pattern}`
+      );
+    }
+    if (query.limit) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Error fetching tasks");
+
+    return data.map(
+      ({
+        categories,
+        task_series,
+        subtasks,
+        task_comments,
+        task_tags,
+        // Only selected to filter by tag
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        tagged,
+        ...task
+      }) => ({
+        ...task,
+        category: categories || undefined,
+        tags: sortTags(task_tags.map((row) => row.tags)),
+        series: task_series ? toTaskSeries(task_series) : undefined,
+        subtaskProgress: toSubtaskProgress(subtasks),
+        commentCount: task_comments[0]?.count ?? 0,
+      })
+    );
+  },
+
+  async getByIds(ids) {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("tasks")
+      .select("*")
+      .in("id", ids);
+
+    if (error) throw toRepositoryError(error, "Error fetching tasks");
+
+    return data;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("tasks")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Error creating task");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("tasks")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Error updating task");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("tasks").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Error deleting task");
+  },
+
+  subscribe(workspaceId, onChange) {
+    const channel = supabase
+      .channel(
+        channelTopic(
+          workspaceId ? `tasks-changes-${workspaceId}` : "tasks-changes"
+        )
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "tasks",
+          ...(workspaceId && { filter: `workspace_id=eq.${workspaceId}` }),
+        },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
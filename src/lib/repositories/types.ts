@@ -0,0 +1,11 @@
+// src/lib/repositories/types.ts
+
+// A workspace id, or null for the signed-in user's personal space
+export type WorkspaceScope = string | null;
+
+export type Unsubscribe = () => void;
+
+export type CurrentUser = {
+  id: string;
+  email: string | null;
+};
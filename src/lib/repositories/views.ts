@@ -0,0 +1,87 @@
+// src/lib/repositories/views.ts
+import { supabase } from "@/lib/supabase";
+import type { SavedView } from "@/lib/supabase";
+import { toRepositoryError } from "./errors";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe, WorkspaceScope } from "./types";
+
+export type SavedViewInput = {
+  name: string;
+  query: string;
+  workspace_id?: string | null;
+};
+
+export type SavedViewUpdate = Partial<Pick<SavedView, "name" | "query">>;
+
+export interface SavedViewRepository {
+  // The current user's views in a workspace, sorted by name
+  list(workspaceId: WorkspaceScope): Promise<SavedView[]>;
+  create(input: SavedViewInput): Promise<SavedView>;
+  update(id: string, changes: SavedViewUpdate): Promise<SavedView>;
+  remove(id: string): Promise<void>;
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+export const supabaseSavedViewRepository: SavedViewRepository = {
+  async list(workspaceId) {
+    let request = supabase.from("saved_views").select("*").order("name");
+
+    request = workspaceId
+      ? request.eq("workspace_id", workspaceId)
+      : request.is("workspace_id", null);
+
+    const { data, error } = await request;
+
+    if (error) throw toRepositoryError(error, "Failed to fetch saved views");
+
+    return data;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("saved_views")
+      .insert({ ...input, name: input.name.trim() })
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to save view");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("saved_views")
+      .update(
+        changes.name ? { ...changes, name: changes.name.trim() } : changes
+      )
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update saved view");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("saved_views").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete saved view");
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("saved-views-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "saved_views" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
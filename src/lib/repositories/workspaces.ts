@@ -0,0 +1,255 @@
+// src/lib/repositories/workspaces.ts
+import { supabase } from "@/lib/supabase";
+import type { Workspace, WorkspaceMember } from "@/lib/supabase";
+import { toWorkspaceRole, type WorkspaceRole } from "@/lib/permissions";
+import { RepositoryError, toRepositoryError } from "./errors";
+import { supabaseProfileRepository } from "./profiles";
+import { channelTopic } from "./realtime";
+import type { Unsubscribe } from "./types";
+
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+
+export type WorkspaceInput = {
+  name: string;
+  description?: string | null;
+};
+
+export interface WorkspaceRepository {
+  // Workspaces the current user created or is a member of, newest first,
+  // along with the user's role in each
+  listForCurrentUser(): Promise<WorkspaceWithRole[]>;
+  create(input: WorkspaceInput): Promise<Workspace>;
+  update(id: string, changes: Partial<WorkspaceInput>): Promise<Workspace>;
+  remove(id: string): Promise<void>;
+  // Members of a single workspace, or of every workspace visible to the
+  // current user when no id is given (deduplicated by user)
+  listMembers(workspaceId?: string): Promise<WorkspaceMember[]>;
+  // Everyone a personal task can be assigned to: the current user plus the
+  // members of their workspaces
+  listAssignableMembers(): Promise<WorkspaceMember[]>;
+  updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<void>;
+  removeMember(workspaceId: string, userId: string): Promise<void>;
+  // The previous owner stays on as an admin
+  transferOwnership(workspaceId: string, userId: string): Promise<void>;
+  subscribe(onChange: () => void): Unsubscribe;
+}
+
+type MemberProfile = { username: string; avatar_url?: string | null };
+
+type WorkspaceMemberWithProfile = {
+  user_id: string;
+  role: string;
+  // PostgREST returns a single object for this join, older clients an array
+  profiles: MemberProfile | MemberProfile[] | null;
+};
+
+export const toMember = (
+  member: WorkspaceMemberWithProfile
+): WorkspaceMember => {
+  const profile = Array.isArray(member.profiles)
+    ? member.profiles[0]
+    : member.profiles;
+
+  return {
+    user_id: member.user_id,
+    role: toWorkspaceRole(member.role),
+    username: profile?.username || "Unknown User",
+    avatar_url: profile?.avatar_url || undefined,
+  };
+};
+
+export const uniqueBy = <T>(items: T[], key: (item: T) => string) =>
+  Array.from(new Map(items.map((item) => [key(item), item])).values());
+
+export const supabaseWorkspaceRepository: WorkspaceRepository = {
+  async listForCurrentUser() {
+    const user = await supabaseProfileRepository.getCurrentUser();
+
+    // First, get workspaces created by the user
+    const { data: ownedWorkspaces, error: ownedError } = await supabase
+      .from("workspaces")
+      .select("*")
+      .eq("created_by", user.id)
+      .order("created_at", { ascending: false });
+
+    if (ownedError) {
+      throw toRepositoryError(ownedError, "Failed to fetch workspaces");
+    }
+
+    // Then, get workspaces where the user is a member
+    const { data: memberWorkspaces, error: memberError } = await supabase
+      .from("workspace_members")
+      .select(
+        `
+        workspace_id,
+        role,
+        workspaces (*)
+      `
+      )
+      .eq("user_id", user.id);
+
+    if (memberError) {
+      throw toRepositoryError(memberError, "Failed to fetch workspaces");
+    }
+
+    // Combine and deduplicate the workspaces; the creator is always the owner
+    const memberWorkspacesData = memberWorkspaces
+      .filter((item) => item.workspaces)
+      .map((item) => ({
+        ...item.workspaces,
+        role: toWorkspaceRole(item.role),
+      }));
+
+    return uniqueBy<WorkspaceWithRole>(
+      [
+        ...memberWorkspacesData,
+        ...ownedWorkspaces.map((workspace) => ({
+          ...workspace,
+          role: "owner" as const,
+        })),
+      ],
+      (workspace) => workspace.id
+    );
+  },
+
+  async create(input) {
+    const { data, error } = await supabase
+      .from("workspaces")
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to create workspace");
+
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from("workspaces")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, "Failed to update workspace");
+
+    return data;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from("workspaces").delete().eq("id", id);
+
+    if (error) throw toRepositoryError(error, "Failed to delete workspace");
+  },
+
+  async listMembers(workspaceId) {
+    let request = supabase.from("workspace_members").select(
+      `
+        user_id,
+        role,
+        profiles (username, avatar_url)
+      `
+    );
+
+    if (workspaceId) {
+      request = request.eq("workspace_id", workspaceId);
+    }
+
+    const { data, error } = await request;
+
+    if (error) {
+      throw toRepositoryError(error, "Error fetching workspace members");
+    }
+
+    return uniqueBy(data.map(toMember), (member) => member.user_id);
+  },
+
+  async listAssignableMembers() {
+    const [user, members] = await Promise.all([
+      supabaseProfileRepository.getCurrentUser(),
+      this.listMembers(),
+    ]);
+
+    if (!members.some((member) => member.user_id === user.id)) {
+      const { data: profile, error } = await supabase
+        .from("profiles")
+        .select("username, avatar_url")
+        .eq("id", user.id)
+        .single();
+
+      if (error) throw toRepositoryError(error, "Failed to load profile");
+
+      members.unshift(
+        toMember({ user_id: user.id, role: "owner", profiles: profile })
+      );
+    }
+
+    return members;
+  },
+
+  async updateMemberRole(workspaceId, userId, role) {
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .update({ role })
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+      .select();
+
+    if (error) throw toRepositoryError(error, "Failed to change role");
+
+    // RLS hides rows the caller may not change instead of failing
+    if (data.length === 0) {
+      throw new RepositoryError(
+        "You can't change this member's role",
+        "permission_denied"
+      );
+    }
+  },
+
+  async removeMember(workspaceId, userId) {
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+      .select();
+
+    if (error) throw toRepositoryError(error, "Failed to remove member");
+
+    if (data.length === 0) {
+      throw new RepositoryError(
+        "You can't remove this member",
+        "permission_denied"
+      );
+    }
+  },
+
+  async transferOwnership(workspaceId, userId) {
+    const { error } = await supabase.rpc("transfer_workspace_ownership", {
+      p_workspace_id: workspaceId,
+      p_new_owner_id: userId,
+    });
+
+    if (error) throw toRepositoryError(error, "Failed to transfer ownership");
+  },
+
+  subscribe(onChange) {
+    const channel = supabase
+      .channel(channelTopic("workspaces-changes"))
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "workspaces" },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+};
@@ -0,0 +1,74 @@
+// src/lib/search.ts
+
+// Matches in search results are wrapped in these, by Postgres' ts_headline
+// or by markMatches below
+export const MATCH_START = "\u0002";
+export const MATCH_END = "\u0003";
+
+export type SearchSegment = { text: string; match: boolean };
+
+/**
+ * Splits marked-up text into plain and matching runs for rendering.
+ */
+export function matchSegments(text: string): SearchSegment[] {
+  const segments: SearchSegment[] = [];
+  let match = false;
+
+  for (const part of text.split(/([\u0002\u0003])/)) {
+    if (part === MATCH_START) match = true;
+    else if (part === MATCH_END) match = false;
+    else if (part) segments.push({ text: part, match });
+  }
+
+  return segments;
+}
+
+export const hasMatch = (text: string | null) =>
+  !!text && text.includes(MATCH_START);
+
+/**
+ * The words of a search query, lowercased. Like the database, each one
+ * matches any word starting with it.
+ */
+export function searchTerms(query: string) {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+const wordPattern = (terms: string[]) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms
+      .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("|")})[\\p{L}\\p{N}]*`,
+    "giu"
+  );
+
+// Whether every term starts a word of `text`
+export function matchesTerms(text: string, terms: string[]) {
+  return terms.every((term) => wordPattern([term]).test(text));
+}
+
+/**
+ * Marks the words of `text` that start with one of the terms. Long text is
+ * cut down to the part around the first match.
+ */
+export function markMatches(text: string, terms: string[], maxLength?: number) {
+  const pattern = wordPattern(terms);
+  let start = 0;
+  let end = text.length;
+
+  if (maxLength && text.length > maxLength) {
+    const first = text.search(pattern);
+    start = Math.max(0, Math.min(first - maxLength / 4, end - maxLength));
+    end = start + maxLength;
+  }
+
+  const marked = text
+    .slice(start, end)
+    .trim()
+    .replace(pattern, (word) => `${MATCH_START}${word}${MATCH_END}`);
+
+  return `${start > 0 ? "… " : ""}${marked}${end < text.length ? " …" : ""}`;
+}
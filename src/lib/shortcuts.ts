@@ -0,0 +1,221 @@
+// src/lib/shortcuts.ts
+import type { ShortcutBindings } from "@/lib/supabase";
+
+export type ShortcutAction =
+  | "palette"
+  | "help"
+  | "createTask"
+  | "nextTask"
+  | "previousTask"
+  | "openTask"
+  | "completeTask"
+  | "editTask"
+  | "deleteTask";
+
+// Global shortcuts work anywhere in the dashboard, list shortcuts act on
+// the task selected in a list
+export type ShortcutScope = "global" | "list";
+
+export type ShortcutDefinition = {
+  action: ShortcutAction;
+  label: string;
+  scope: ShortcutScope;
+  defaultKey: string;
+};
+
+/**
+ * Keys are written as the key itself, lowercased, after any of "mod" (Ctrl,
+ * or Cmd on a Mac), "alt" and "shift", e.g. "mod+k" or "shift+enter".
+ * Shift is left out for keys that are only typed with it, such as "#".
+ */
+export const SHORTCUTS: ShortcutDefinition[] = [
+  {
+    action: "palette",
+    label: "Open the command palette",
+    scope: "global",
+    defaultKey: "mod+k",
+  },
+  {
+    action: "help",
+    label: "Show keyboard shortcuts",
+    scope: "global",
+    defaultKey: "?",
+  },
+  {
+    action: "createTask",
+    label: "Create a task",
+    scope: "global",
+    defaultKey: "c",
+  },
+  {
+    action: "nextTask",
+    label: "Select next task",
+    scope: "list",
+    defaultKey: "j",
+  },
+  {
+    action: "previousTask",
+    label: "Select previous task",
+    scope: "list",
+    defaultKey: "k",
+  },
+  {
+    action: "openTask",
+    label: "Open task details",
+    scope: "list",
+    defaultKey: "o",
+  },
+  {
+    action: "completeTask",
+    label: "Complete task",
+    scope: "list",
+    defaultKey: "x",
+  },
+  { action: "editTask", label: "Edit task", scope: "list", defaultKey: "e" },
+  {
+    action: "deleteTask",
+    label: "Delete task",
+    scope: "list",
+    defaultKey: "#",
+  },
+];
+
+export type ResolvedShortcuts = Record<ShortcutAction, string>;
+
+/**
+ * The key of every action: the user's own where they rebound it, otherwise
+ * the default. An empty key turns the shortcut off.
+ */
+export function resolveShortcuts(
+  bindings: ShortcutBindings | null | undefined
+): ResolvedShortcuts {
+  return Object.fromEntries(
+    SHORTCUTS.map(({ action, defaultKey }) => [
+      action,
+      typeof bindings?.[action] === "string" ? bindings[action] : defaultKey,
+    ])
+  ) as ResolvedShortcuts;
+}
+
+// Only the bindings that differ from the defaults are stored
+export function customBindings(shortcuts: ResolvedShortcuts): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUTS.filter(
+      ({ action, defaultKey }) => shortcuts[action] !== defaultKey
+    ).map(({ action }) => [action, shortcuts[action]])
+  );
+}
+
+const MODIFIER_KEYS = ["Control", "Meta", "Alt", "Shift", "AltGraph"];
+
+/**
+ * The key pressed in the notation above, or null for a lone modifier.
+ */
+export function keyFromEvent(event: KeyboardEvent | React.KeyboardEvent) {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const key = event.key === " " ? "space" : event.key.toLowerCase();
+  const parts: string[] = [];
+
+  if (event.ctrlKey || event.metaKey) parts.push("mod");
+  if (event.altKey) parts.push("alt");
+  if (event.shiftKey && (event.key.length > 1 || /^[a-z]$/i.test(event.key))) {
+    parts.push("shift");
+  }
+
+  return [...parts, key].join("+");
+}
+
+export const isMacPlatform = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+const KEY_NAMES: Record<string, string> = {
+  enter: "Enter",
+  escape: "Esc",
+  space: "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  backspace: "Backspace",
+  delete: "Delete",
+  tab: "Tab",
+};
+
+/**
+ * A key as shown to the user, e.g. "⌘K" on a Mac and "Ctrl+K" elsewhere.
+ */
+export function formatKey(key: string, mac = isMacPlatform()) {
+  if (!key) return "None";
+
+  const parts = key.split("+");
+  // "+" itself ends up as two empty parts
+  const last = key.endsWith("+") ? "+" : parts.pop()!;
+  const modifiers = key.endsWith("+") ? parts.slice(0, -2) : parts;
+  const name =
+    KEY_NAMES[last] || (last.length === 1 ? last.toUpperCase() : last);
+
+  const labels = modifiers.map((modifier) =>
+    modifier === "mod"
+      ? mac
+        ? "⌘"
+        : "Ctrl"
+      : modifier === "alt"
+      ? mac
+        ? "⌥"
+        : "Alt"
+      : mac
+      ? "⇧"
+      : "Shift"
+  );
+
+  return mac ? [...labels, name].join("") : [...labels, name].join("+");
+}
+
+/**
+ * Actions sharing a key with another action, so only one of them would run.
+ */
+export function conflictingActions(shortcuts: ResolvedShortcuts) {
+  const conflicts = new Set<ShortcutAction>();
+
+  for (const a of SHORTCUTS) {
+    for (const b of SHORTCUTS) {
+      if (
+        a.action !== b.action &&
+        shortcuts[a.action] &&
+        shortcuts[a.action] === shortcuts[b.action]
+      ) {
+        conflicts.add(a.action);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Typing in a field shouldn't trigger single-key shortcuts
+export function isEditableTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+/**
+ * The id `step` places after `current` in `ids`, stopping at either end.
+ * Starts from the first or last one when nothing is selected yet.
+ */
+export function stepSelection(
+  ids: string[],
+  current: string | null,
+  step: number
+) {
+  if (ids.length === 0) return null;
+
+  const index = current ? ids.indexOf(current) : -1;
+  if (index === -1) return step > 0 ? ids[0] : ids[ids.length - 1];
+
+  return ids[Math.min(Math.max(index + step, 0), ids.length - 1)];
+}
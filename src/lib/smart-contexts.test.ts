@@ -0,0 +1,279 @@
+import { describe, expect, it } from "vitest";
+import type { TaskWithCategory } from "@/lib/repositories";
+import type { SmartContext } from "@/lib/supabase";
+import {
+  BUILT_IN_RULES,
+  buildContexts,
+  contextRules,
+  matchesCriteria,
+  workSchedule,
+  type ContextEnvironment,
+  type ContextRule,
+} from "@/lib/smart-contexts";
+
+// Monday, October 19th 2026
+const env: ContextEnvironment = {
+  now: new Date("2026-10-19T10:00:00Z"),
+  timeZone: "UTC",
+};
+
+const task = (
+  id: string,
+  fields: Partial<TaskWithCategory> = {}
+): TaskWithCategory => ({
+  id,
+  title: `Task ${id}`,
+  description: null,
+  status: "pending",
+  priority: "medium",
+  due_date: null,
+  has_due_time: false,
+  category_id: null,
+  dependencies: [],
+  assigned_to: [],
+  complete_with_subtasks: false,
+  occurrence_index: null,
+  series_id: null,
+  position: 0,
+  user_id: "user-1",
+  workspace_id: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...fields,
+});
+
+const rule = (
+  id: string,
+  matches: ContextRule["matches"],
+  fields: Partial<ContextRule> = {}
+): ContextRule => ({
+  id,
+  name: id,
+  priority: "medium",
+  explain: `it's ${id}`,
+  matches,
+  ...fields,
+});
+
+const high = rule("high", (t) => t.priority === "high");
+const started = rule("started", (t) => t.status === "in_progress");
+const everything = rule("everything", () => true);
+
+const ids = (tasks: TaskWithCategory[]) => tasks.map((t) => t.id);
+
+describe("buildContexts", () => {
+  it("puts every task in the first rule it matches", () => {
+    const tasks = [
+      task("a", { priority: "high", status: "in_progress" }),
+      task("b", { status: "in_progress" }),
+      task("c"),
+    ];
+
+    const contexts = buildContexts(tasks, [high, started, everything], env);
+
+    expect(contexts.map((c) => [c.id, ids(c.tasks)])).toEqual([
+      ["high", ["a"]],
+      ["started", ["b"]],
+      ["everything", ["c"]],
+    ]);
+  });
+
+  it("leaves out rules no task ends up in", () => {
+    const contexts = buildContexts([task("a")], [high, everything], env);
+
+    expect(contexts.map((c) => c.id)).toEqual(["everything"]);
+  });
+
+  it("lets hidden tasks fall through to later rules", () => {
+    const contexts = buildContexts(
+      [task("a", { priority: "high" })],
+      [high, everything],
+      { ...env, exclusions: [{ task_id: "a", context_id: "high" }] }
+    );
+
+    expect(contexts.map((c) => c.id)).toEqual(["everything"]);
+    expect(contexts[0].reasons.a.passedOver).toEqual([
+      { ruleId: "high", because: "excluded" },
+    ]);
+  });
+
+  it("keeps only the largest group of a grouping rule", () => {
+    const byCategory = rule("category", (t) => !!t.category_id, {
+      groupBy: (t) => t.category_id,
+    });
+    const tasks = [
+      task("a", { category_id: "home" }),
+      task("b", { category_id: "work" }),
+      task("c", { category_id: "work" }),
+    ];
+
+    const [grouped, rest] = buildContexts(tasks, [byCategory, everything], env);
+
+    expect(ids(grouped.tasks)).toEqual(["b", "c"]);
+    expect(ids(rest.tasks)).toEqual(["a"]);
+    expect(rest.reasons.a.passedOver).toEqual([
+      { ruleId: "category", because: "smaller-group" },
+    ]);
+  });
+
+  it("explains placements and names other rules the task fits", () => {
+    const [context] = buildContexts(
+      [task("a", { priority: "high", status: "in_progress" })],
+      [high, started, everything],
+      env
+    );
+
+    expect(context.reasons.a).toEqual({
+      ruleId: "high",
+      explanation: "it's high",
+      passedOver: [],
+      alsoMatches: ["started", "everything"],
+    });
+  });
+
+  it("sorts tasks within a context", () => {
+    const byTitle = rule("all", () => true, {
+      compare: (a, b) => a.title.localeCompare(b.title),
+    });
+
+    const [context] = buildContexts(
+      [task("b", { title: "Beta" }), task("a", { title: "Alpha" })],
+      [byTitle],
+      env
+    );
+
+    expect(ids(context.tasks)).toEqual(["a", "b"]);
+  });
+});
+
+describe("built-in rules", () => {
+  const contextOf = (t: TaskWithCategory, environment = env) =>
+    buildContexts([t], BUILT_IN_RULES, environment)[0];
+
+  it("finds overdue tasks before anything else", () => {
+    const overdue = task("a", {
+      priority: "high",
+      due_date: "2026-10-18T00:00:00Z",
+    });
+
+    expect(contextOf(overdue).id).toBe("overdue");
+  });
+
+  it("treats a task due today as due until the end of the day", () => {
+    const today = task("a", { due_date: "2026-10-19T00:00:00Z" });
+
+    expect(contextOf(today).id).toBe("due-today");
+  });
+
+  it("leaves the catch-all out of other matches", () => {
+    const context = contextOf(task("a", { priority: "high" }));
+
+    expect(context.id).toBe("high-priority");
+    expect(context.reasons.a.alsoMatches).not.toContain("other");
+  });
+
+  it("plans for the next work day on days off", () => {
+    const saturday = {
+      ...env,
+      now: new Date("2026-10-24T10:00:00Z"),
+      productivity: { work_days: [1, 2, 3, 4, 5] },
+    };
+
+    const context = contextOf(task("a", { priority: "high" }), saturday);
+
+    expect(context.id).toBe("next-work-day");
+    expect(context.name).toBe("Plan for Monday");
+  });
+
+  it("puts user contexts first", () => {
+    const context: SmartContext = {
+      id: "1",
+      user_id: "user-1",
+      workspace_id: null,
+      name: "Errands",
+      priority: "low",
+      criteria: { statuses: ["pending"] },
+      enabled: true,
+      position: 0,
+      created_at: "2026-01-01T00:00:00Z",
+    };
+
+    const [first] = buildContexts(
+      [task("a", { priority: "high" })],
+      contextRules([context]),
+      env
+    );
+
+    expect(first.id).toBe("custom-1");
+    expect(first.name).toBe("Errands");
+  });
+});
+
+describe("matchesCriteria", () => {
+  it("requires every condition given", () => {
+    const t = task("a", { priority: "low", status: "in_progress" });
+
+    expect(matchesCriteria(t, { priorities: ["low", "medium"] }, env)).toBe(
+      true
+    );
+    expect(
+      matchesCriteria(t, { priorities: ["low"], statuses: ["pending"] }, env)
+    ).toBe(false);
+  });
+
+  it("matches due dates in the user's timezone", () => {
+    // 01:00 on the 20th in UTC is still the 19th in New York
+    const t = task("a", {
+      due_date: "2026-10-20T01:00:00Z",
+      has_due_time: true,
+    });
+
+    expect(matchesCriteria(t, { due: "today" }, env)).toBe(false);
+    expect(
+      matchesCriteria(
+        t,
+        { due: "today" },
+        { ...env, timeZone: "America/New_York" }
+      )
+    ).toBe(true);
+  });
+
+  it("only matches tasks assigned to the signed-in user", () => {
+    const t = task("a", { assigned_to: ["user-2"] });
+
+    expect(
+      matchesCriteria(t, { assignedToMe: true }, { ...env, userId: "user-2" })
+    ).toBe(true);
+    expect(matchesCriteria(t, { assignedToMe: true }, env)).toBe(false);
+  });
+});
+
+describe("workSchedule", () => {
+  const productivity = { peak_hours: ["09:00", "12:00"], work_days: [1, 2] };
+
+  it("places now against the peak hours", () => {
+    const at = (time: string) =>
+      workSchedule({
+        ...env,
+        now: new Date(`2026-10-19T${time}:00Z`),
+        productivity,
+      }).phase;
+
+    expect(at("08:00")).toBe("before");
+    expect(at("10:00")).toBe("peak");
+    expect(at("13:00")).toBe("after");
+  });
+
+  it("finds the next work day", () => {
+    const schedule = workSchedule({
+      ...env,
+      now: new Date("2026-10-20T10:00:00Z"),
+      productivity,
+    });
+
+    expect(schedule).toMatchObject({
+      workDay: true,
+      nextWorkDay: "2026-10-26",
+    });
+  });
+});
@@ -0,0 +1,527 @@
+// src/lib/smart-contexts.ts
+import type {
+  Category,
+  ContextExclusion,
+  ProductivitySettings,
+  SmartContext,
+  Tag,
+  Task,
+} from "@/lib/supabase";
+import type { TaskWithCategory } from "@/lib/repositories";
+import {
+  addDays,
+  dueDay,
+  dueInstant,
+  timeIn,
+  todayIn,
+  weekdayOf,
+} from "@/lib/dates";
+
+export type ContextPriority = "high" | "medium" | "low";
+
+// What rules may look at besides the task
+export type ContextEnvironment = {
+  now: Date;
+  timeZone: string;
+  // The signed-in user, for rules about assignees
+  userId?: string;
+  // Their peak hours and work days; without them every day is a work day
+  // with no peak window
+  productivity?: ProductivitySettings | null;
+  // Tasks the user hid from contexts; they fall through to later rules
+  exclusions?: Pick<ContextExclusion, "task_id" | "context_id">[];
+};
+
+export type ContextRule = {
+  id: string;
+  // Fixed, or worked out from the tasks the context ended up with
+  name:
+    | string
+    | ((tasks: TaskWithCategory[], env: ContextEnvironment) => string);
+  priority: ContextPriority;
+  // Whether a task no earlier rule took belongs here
+  matches: (task: TaskWithCategory, env: ContextEnvironment) => boolean;
+  // Why a task belongs here, to finish "Here because ...", e.g. "it's high
+  // priority"
+  explain:
+    | string
+    | ((task: TaskWithCategory, env: ContextEnvironment) => string);
+  // Keeps only the biggest group of matching tasks, e.g. the busiest
+  // category; tasks without a key are left for later rules
+  groupBy?: (task: TaskWithCategory) => string | null;
+  // Order of the context's tasks; as given when left out
+  compare?: (
+    a: TaskWithCategory,
+    b: TaskWithCategory,
+    env: ContextEnvironment
+  ) => number;
+};
+
+// An earlier rule the task fits but didn't end up in: one the user hid it
+// from, or one that kept another group, e.g. a busier category
+export type PassedOverMatch = {
+  ruleId: string;
+  because: "excluded" | "smaller-group";
+};
+
+/**
+ * Why a task is in its context. Rules are referred to by id, like
+ * exclusions are.
+ */
+export type ContextReason = {
+  ruleId: string;
+  explanation: string;
+  passedOver: PassedOverMatch[];
+  // Later rules the task fits too, which this one claimed it from
+  alsoMatches: string[];
+};
+
+export type ContextGroup = {
+  id: string;
+  name: string;
+  priority: ContextPriority;
+  tasks: TaskWithCategory[];
+  // By task id
+  reasons: Record<string, ContextReason>;
+};
+
+const exclusionKey = (taskId: string, ruleId: string) => `${taskId}:${ruleId}`;
+
+// The last built-in rule, which takes whatever the others left
+const CATCH_ALL_RULE_ID = "other";
+
+/**
+ * Sorts tasks into contexts. Rules are tried in order and every task lands
+ * in the first one it matches and wasn't hidden from, so no rule sees tasks
+ * an earlier one took. Rules that end up empty are left out.
+ */
+export function buildContexts(
+  tasks: TaskWithCategory[],
+  rules: ContextRule[],
+  env: ContextEnvironment
+): ContextGroup[] {
+  const contexts: ContextGroup[] = [];
+  const excluded = new Set(
+    (env.exclusions || []).map((row) =>
+      exclusionKey(row.task_id, row.context_id)
+    )
+  );
+  const passedOver = new Map<string, PassedOverMatch[]>();
+  const passOver = (task: TaskWithCategory, match: PassedOverMatch) =>
+    passedOver.set(task.id, [...(passedOver.get(task.id) || []), match]);
+
+  // Whether the rule could take the task, leaving the size of groups aside
+  const fits = (rule: ContextRule, task: TaskWithCategory) =>
+    rule.matches(task, env) && (!rule.groupBy || rule.groupBy(task) !== null);
+
+  let remaining = tasks;
+
+  rules.forEach((rule, index) => {
+    let taken = remaining.filter((task) => {
+      if (!rule.matches(task, env)) return false;
+      if (!excluded.has(exclusionKey(task.id, rule.id))) return true;
+
+      if (fits(rule, task))
+        passOver(task, { ruleId: rule.id, because: "excluded" });
+      return false;
+    });
+
+    if (rule.groupBy) {
+      const groups = new Map<string, TaskWithCategory[]>();
+      for (const task of taken) {
+        const key = rule.groupBy(task);
+        if (key !== null) groups.set(key, [...(groups.get(key) || []), task]);
+      }
+
+      // The first of equally big groups wins
+      const largest = Array.from(groups.values()).reduce(
+        (largest, group) => (group.length > largest.length ? group : largest),
+        [] as TaskWithCategory[]
+      );
+      Array.from(groups.values())
+        .filter((group) => group !== largest)
+        .flat()
+        .forEach((task) =>
+          passOver(task, { ruleId: rule.id, because: "smaller-group" })
+        );
+      taken = largest;
+    }
+
+    if (taken.length === 0) return;
+
+    const takenIds = new Set(taken.map((task) => task.id));
+    remaining = remaining.filter((task) => !takenIds.has(task.id));
+
+    const later = rules.slice(index + 1);
+    const reasons: Record<string, ContextReason> = {};
+    for (const task of taken) {
+      reasons[task.id] = {
+        ruleId: rule.id,
+        explanation:
+          typeof rule.explain === "function"
+            ? rule.explain(task, env)
+            : rule.explain,
+        passedOver: passedOver.get(task.id) || [],
+        // Every task fits the catch-all, so it's not worth mentioning
+        alsoMatches: later
+          .filter(
+            (other) =>
+              other.id !== CATCH_ALL_RULE_ID &&
+              fits(other, task) &&
+              !excluded.has(exclusionKey(task.id, other.id))
+          )
+          .map((other) => other.id),
+      };
+    }
+
+    const { compare } = rule;
+    const sorted = compare
+      ? [...taken].sort((a, b) => compare(a, b, env))
+      : taken;
+
+    contexts.push({
+      id: rule.id,
+      name:
+        typeof rule.name === "function" ? rule.name(sorted, env) : rule.name,
+      priority: rule.priority,
+      tasks: sorted,
+      reasons,
+    });
+  });
+
+  return contexts;
+}
+
+export type ContextSort = "due_date" | "priority" | "created_at" | "title";
+
+// Most urgent first
+export const PRIORITY_RANK: Record<Task["priority"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// Soonest due first with undated tasks last, most urgent first, newest
+// first, and A to Z
+export const CONTEXT_SORTS: Record<
+  ContextSort,
+  NonNullable<ContextRule["compare"]>
+> = {
+  due_date: (a, b, { timeZone }) => {
+    const time = (task: TaskWithCategory) =>
+      dueInstant(task, timeZone)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    return time(a) - time(b);
+  },
+  priority: (a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority],
+  created_at: (a, b) => b.created_at.localeCompare(a.created_at),
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DAY_NAMES = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+export type WorkSchedule = {
+  workDay: boolean;
+  // Where now falls against the peak hours; null on days off or without
+  // peak hours
+  phase: "before" | "peak" | "after" | null;
+  // The first work day after today, null when no day is a work day
+  nextWorkDay: string | null;
+};
+
+/**
+ * Today and now measured against the user's productivity settings. A peak
+ * window ending before it starts runs past midnight.
+ */
+export function workSchedule({
+  now,
+  timeZone,
+  productivity,
+}: ContextEnvironment): WorkSchedule {
+  const today = todayIn(timeZone, now);
+  const workDays = productivity?.work_days;
+  const isWorkDay = (day: string) =>
+    !workDays || workDays.includes(weekdayOf(day));
+
+  let nextWorkDay: string | null = null;
+  for (let days = 1; days <= 7 && !nextWorkDay; days++) {
+    if (isWorkDay(addDays(today, days))) nextWorkDay = addDays(today, days);
+  }
+
+  const workDay = isWorkDay(today);
+  const [start, end] = productivity?.peak_hours || [];
+  if (!workDay || !start || !end || start === end) {
+    return { workDay, phase: null, nextWorkDay };
+  }
+
+  const time = timeIn(now, timeZone);
+  const inPeak =
+    start < end ? time >= start && time < end : time >= start || time < end;
+
+  return {
+    workDay,
+    phase: inPeak ? "peak" : time < start ? "before" : "after",
+    nextWorkDay,
+  };
+}
+
+// Built-in contexts follow the user's day: deep work in their peak hours,
+// lighter tasks around them and planning ahead on days off
+export const BUILT_IN_RULES: ContextRule[] = [
+  {
+    id: "overdue",
+    name: "Overdue",
+    explain: "it's past its due date",
+    priority: "high",
+    matches: (task, { timeZone, now }) => {
+      const due = dueInstant(task, timeZone);
+      return !!due && due < now;
+    },
+    compare: CONTEXT_SORTS.due_date,
+  },
+  {
+    id: "due-today",
+    name: "Due Today",
+    explain: "it's due today",
+    priority: "high",
+    matches: (task, { timeZone, now }) =>
+      dueDay(task, timeZone) === todayIn(timeZone, now),
+    compare: CONTEXT_SORTS.due_date,
+  },
+  {
+    id: "next-work-day",
+    name: (_, env) => {
+      const { nextWorkDay } = workSchedule(env);
+      return nextWorkDay
+        ? `Plan for ${DAY_NAMES[weekdayOf(nextWorkDay) - 1]}`
+        : "Plan for Next Work Day";
+    },
+    priority: "medium",
+    explain:
+      "today is a day off and it's high priority, in progress or due by the next work day",
+    // What's waiting when work picks up again
+    matches: (task, env) => {
+      const { workDay, nextWorkDay } = workSchedule(env);
+      if (workDay) return false;
+
+      const day = dueDay(task, env.timeZone);
+      return (
+        task.priority === "high" ||
+        task.status === "in_progress" ||
+        (!!day && !!nextWorkDay && day <= nextWorkDay)
+      );
+    },
+    compare: CONTEXT_SORTS.due_date,
+  },
+  {
+    id: "peak-hours",
+    name: "Peak Hours: Deep Work",
+    explain: "you're in your peak hours and it's high priority or in progress",
+    priority: "high",
+    matches: (task, env) =>
+      workSchedule(env).phase === "peak" &&
+      (task.priority === "high" || task.status === "in_progress"),
+    compare: (a, b, env) =>
+      CONTEXT_SORTS.priority(a, b, env) || CONTEXT_SORTS.due_date(a, b, env),
+  },
+  {
+    id: "high-priority",
+    name: "High Priority",
+    explain: "it's high priority",
+    priority: "high",
+    matches: (task) => task.priority === "high",
+    compare: CONTEXT_SORTS.due_date,
+  },
+  {
+    id: "time-based",
+    name: (_, env) => {
+      const { phase } = workSchedule(env);
+      if (phase === "before") return "Warm-up";
+      if (phase === "after") return "Wrap-up";
+
+      // No peak hours to go by
+      const hour = Number(timeIn(env.now, env.timeZone).slice(0, 2));
+      if (hour < 12) return "Morning Focus";
+      if (hour < 17) return "Afternoon Tasks";
+      return "Evening Wrap-up";
+    },
+    priority: "medium",
+    explain: "it's in progress",
+    matches: (task) => task.status === "in_progress",
+    compare: CONTEXT_SORTS.priority,
+  },
+  {
+    id: "lighter-tasks",
+    name: "Lighter Tasks",
+    explain: "it's low priority and you're outside your peak hours",
+    priority: "medium",
+    // Outside the peak window there's room for the small stuff
+    matches: (task, env) => {
+      const { phase } = workSchedule(env);
+      return (
+        (phase === "before" || phase === "after") && task.priority === "low"
+      );
+    },
+    compare: CONTEXT_SORTS.due_date,
+  },
+  {
+    id: "top-category",
+    name: (tasks) => `Focus: ${tasks[0].category!.name}`,
+    priority: "medium",
+    explain: (task) =>
+      `its category, ${task.category!.name}, has the most tasks left`,
+    matches: (task) => !!task.category,
+    groupBy: (task) => task.category?.id ?? null,
+    compare: CONTEXT_SORTS.priority,
+  },
+  {
+    id: "recently-created",
+    name: "Recently Added",
+    explain: "it was added in the last week",
+    priority: "low",
+    matches: (task, { now }) =>
+      new Date(task.created_at).getTime() > now.getTime() - WEEK_MS,
+    compare: CONTEXT_SORTS.created_at,
+  },
+  {
+    id: CATCH_ALL_RULE_ID,
+    name: "Other Tasks",
+    explain: "it fits none of the contexts above",
+    priority: "low",
+    matches: () => true,
+    compare: CONTEXT_SORTS.due_date,
+  },
+];
+
+export type ContextDue = "none" | "any" | "overdue" | "today" | "week";
+
+/**
+ * What a task needs to be in a user's context; every condition given has
+ * to hold. Stored as JSON, so only plain values.
+ */
+export type ContextCriteria = {
+  priorities?: Task["priority"][];
+  statuses?: Task["status"][];
+  categoryId?: string;
+  tagId?: string;
+  due?: ContextDue;
+  assignedToMe?: boolean;
+  sort?: ContextSort;
+};
+
+function matchesDue(
+  task: TaskWithCategory,
+  due: ContextDue,
+  { timeZone, now }: ContextEnvironment
+) {
+  const day = dueDay(task, timeZone);
+  if (due === "none") return !day;
+  if (!day) return false;
+
+  const today = todayIn(timeZone, now);
+  switch (due) {
+    case "any":
+      return true;
+    case "overdue":
+      return dueInstant(task, timeZone)! < now;
+    case "today":
+      return day === today;
+    case "week":
+      return day >= today && day <= addDays(today, 6);
+  }
+}
+
+export function matchesCriteria(
+  task: TaskWithCategory,
+  criteria: ContextCriteria,
+  env: ContextEnvironment
+) {
+  return (
+    (!criteria.priorities?.length ||
+      criteria.priorities.includes(task.priority)) &&
+    (!criteria.statuses?.length || criteria.statuses.includes(task.status)) &&
+    (!criteria.categoryId || task.category_id === criteria.categoryId) &&
+    (!criteria.tagId ||
+      !!task.tags?.some((tag) => tag.id === criteria.tagId)) &&
+    (!criteria.assignedToMe ||
+      (!!env.userId && task.assigned_to.includes(env.userId))) &&
+    (!criteria.due || matchesDue(task, criteria.due, env))
+  );
+}
+
+export const ruleFromContext = (context: SmartContext): ContextRule => ({
+  id: `custom-${context.id}`,
+  name: context.name,
+  priority: context.priority,
+  // The task matched, so its own category and tags name the ones asked for
+  explain: (task) =>
+    `it matches your conditions: ${describeCriteria(context.criteria, {
+      categories: task.category ? [task.category] : [],
+      tags: task.tags || [],
+    }).join(", ")}`,
+  matches: (task, env) => matchesCriteria(task, context.criteria, env),
+  compare: context.criteria.sort && CONTEXT_SORTS[context.criteria.sort],
+});
+
+/**
+ * The rules for the Smart Focus page: the user's enabled contexts in their
+ * order, then the built-in ones.
+ */
+export const contextRules = (contexts: SmartContext[]) => [
+  ...contexts
+    .filter((context) => context.enabled)
+    .sort((a, b) => a.position - b.position)
+    .map(ruleFromContext),
+  ...BUILT_IN_RULES,
+];
+
+export const DUE_LABELS: Record<ContextDue, string> = {
+  none: "No due date",
+  any: "Has a due date",
+  overdue: "Overdue",
+  today: "Due today",
+  week: "Due this week",
+};
+
+/**
+ * The conditions of `criteria` in words, e.g. ["Low priority", "No due
+ * date", "Work"].
+ */
+export function describeCriteria(
+  criteria: ContextCriteria,
+  { categories, tags }: { categories: Category[]; tags: Tag[] }
+) {
+  const parts: string[] = [];
+
+  if (criteria.priorities?.length) {
+    parts.push(`${criteria.priorities.join(" or ")} priority`);
+  }
+  if (criteria.statuses?.length) {
+    parts.push(criteria.statuses.join(" or ").replace(/_/g, " "));
+  }
+  if (criteria.categoryId) {
+    parts.push(
+      categories.find((category) => category.id === criteria.categoryId)
+        ?.name || "Deleted category"
+    );
+  }
+  if (criteria.tagId) {
+    const tag = tags.find((t) => t.id === criteria.tagId);
+    parts.push(tag ? `#${tag.name}` : "Deleted tag");
+  }
+  if (criteria.due) parts.push(DUE_LABELS[criteria.due]);
+  if (criteria.assignedToMe) parts.push("Assigned to me");
+
+  return parts.length > 0
+    ? parts.map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    : ["Every open task"];
+}
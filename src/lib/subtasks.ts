@@ -0,0 +1,99 @@
+// src/lib/subtasks.ts
+import type { Subtask, Task } from "@/lib/supabase";
+import type { Repositories } from "@/lib/repositories";
+import { positionAt, renumber } from "@/lib/board";
+import { updateTaskStatus } from "@/lib/recurring-tasks";
+
+/**
+ * Completes `task` when it opted in to following its checklist and every
+ * subtask is done. Returns whether it was completed.
+ */
+export async function completeIfChecklistDone(
+  repositories: Repositories,
+  task: Task
+) {
+  if (!task.complete_with_subtasks || task.status === "completed") {
+    return false;
+  }
+
+  const subtasks = await repositories.subtasks.list(task.id);
+  if (
+    subtasks.length === 0 ||
+    subtasks.some((subtask) => subtask.status !== "completed")
+  ) {
+    return false;
+  }
+
+  // Also schedules the next occurrence of a recurring task
+  await updateTaskStatus(repositories, task, "completed");
+  return true;
+}
+
+/**
+ * Changes the status of a subtask of `task`, completing `task` along with
+ * its last open subtask when it asks for it. Returns whether `task` was
+ * completed.
+ */
+export async function updateSubtaskStatus(
+  repositories: Repositories,
+  task: Task,
+  subtask: Subtask,
+  status: Subtask["status"]
+) {
+  await repositories.subtasks.update(subtask.id, { status });
+
+  return status === "completed"
+    ? completeIfChecklistDone(repositories, task)
+    : false;
+}
+
+/**
+ * Moves `subtask` to slot `index` of `checklist` (in order, without the
+ * subtask itself), renumbering the checklist when there's no room left.
+ */
+export async function moveSubtask(
+  repositories: Repositories,
+  checklist: Subtask[],
+  subtask: Subtask,
+  index: number
+) {
+  let position = positionAt(checklist, index);
+
+  if (position === null) {
+    const renumbered = renumber(checklist, index);
+    position = renumbered.position;
+
+    await Promise.all(
+      Array.from(renumbered.positions, ([id, value]) =>
+        repositories.subtasks.update(id, { position: value })
+      )
+    );
+  }
+
+  return repositories.subtasks.update(subtask.id, { position });
+}
+
+/**
+ * Turns a subtask of `task` into a task of its own, in the same workspace
+ * and with the same category, priority and assignees. Returns the new task.
+ */
+export async function promoteSubtask(
+  repositories: Repositories,
+  task: Task,
+  subtask: Subtask
+) {
+  const promoted = await repositories.tasks.create({
+    title: subtask.title,
+    status: subtask.status,
+    priority: task.priority,
+    category_id: task.category_id,
+    assigned_to: task.assigned_to,
+    workspace_id: task.workspace_id,
+  });
+
+  await repositories.subtasks.remove(subtask.id);
+  // The remaining subtasks may all be done now
+  await completeIfChecklistDone(repositories, task);
+
+  return promoted;
+}
@@ -0,0 +1,29 @@
+// src/lib/supabase-server.ts
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/database.types";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+/**
+ * Supabase client for route handlers that acts as the caller, so every query
+ * still goes through RLS. Expects the browser session's access token in the
+ * Authorization header.
+ */
+export async function createUserClient(request: Request) {
+  const authorization = request.headers.get("Authorization") || "";
+  const accessToken = authorization.replace(/^Bearer\s+/i, "");
+
+  const client = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const {
+    data: { user },
+  } = accessToken
+    ? await client.auth.getUser(accessToken)
+    : { data: { user: null } };
+
+  return { client, user };
+}
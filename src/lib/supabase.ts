@@ -1,41 +1,85 @@
 // src/lib/supabase.ts
 import { createClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/database.types";
+import type { WorkspaceRole } from "@/lib/permissions";
+import type { RecurrenceRule } from "@/lib/recurrence";
+import type { ContextCriteria, ContextPriority } from "@/lib/smart-contexts";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
-export type Task = {
-  id: string;
-  user_id: string;
-  title: string;
-  description?: string;
-  due_date?: string;
-  priority: "low" | "medium" | "high";
-  category_id?: string;
-  status: "pending" | "in_progress" | "completed";
-  created_at: string;
-  updated_at: string;
-  dependencies?: string[];
-  assigned_to?: string[];
+// Row types come from src/lib/database.types.ts, which is generated from
+// supabase/migrations (see README). Only jsonb and text columns with a fixed
+// set of values are narrowed here.
+
+export type Task = Tables<"tasks">;
+
+export type Subtask = Tables<"subtasks">;
+
+export type TaskComment = Tables<"task_comments">;
+
+export type TaskAttachment = Tables<"task_attachments">;
+
+export type Category = Tables<"categories">;
+
+export type Tag = Tables<"tags">;
+
+export type SavedView = Tables<"saved_views">;
+
+export type SmartContext = Omit<
+  Tables<"smart_contexts">,
+  "priority" | "criteria"
+> & {
+  priority: ContextPriority;
+  criteria: ContextCriteria;
 };
 
-export type Category = {
-  id: string;
-  user_id: string;
-  name: string;
-  color: string;
-  created_at: string;
+// A task the user hid from one Smart Context
+export type ContextExclusion = Tables<"smart_context_exclusions">;
+
+// A task the user fixed at a time in their daily plan
+export type PinnedBlock = Tables<"pinned_blocks">;
+
+export type TaskSeries = Omit<Tables<"task_series">, "recurrence"> & {
+  recurrence: RecurrenceRule;
 };
 
-export type Profile = {
-  id: string;
+export type TaskActivity = Omit<Tables<"task_activities">, "activity_type"> & {
+  activity_type: "create" | "update" | "complete";
+};
+
+export type ProductivitySettings = {
+  peak_hours?: string[];
+  work_days?: number[];
+  focus_duration?: number;
+};
+
+// Keys the user rebound, by shortcut action (see src/lib/shortcuts.ts)
+export type ShortcutBindings = Record<string, string>;
+
+export type Profile = Omit<
+  Tables<"profiles">,
+  "productivity_settings" | "keyboard_shortcuts"
+> & {
+  productivity_settings: ProductivitySettings | null;
+  keyboard_shortcuts: ShortcutBindings;
+};
+
+export type Workspace = Tables<"workspaces">;
+
+export type WorkspaceMember = {
+  user_id: string;
+  role: WorkspaceRole;
   username: string;
   avatar_url?: string;
-  productivity_settings?: {
-    peak_hours?: string[];
-    work_days?: number[];
-    focus_duration?: number;
-  };
+};
+
+export type WorkspaceInvitation = Omit<
+  Tables<"workspace_invitations">,
+  "role" | "status"
+> & {
+  role: WorkspaceRole;
+  status: "pending" | "accepted" | "declined" | "revoked";
 };
@@ -0,0 +1,107 @@
+// src/lib/task-risk.ts
+import type { Task, TaskActivity } from "@/lib/supabase";
+import { dueInstant, type DueFields } from "@/lib/dates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Assumed until the user has finished enough tasks to go by
+export const DEFAULT_COMPLETION_MS = 3 * DAY_MS;
+const MIN_SAMPLES = 3;
+
+/**
+ * How long `userId` typically takes from creating a task to completing it:
+ * the median over the tasks they completed, or null without enough history.
+ * Reopened tasks count up to their last completion.
+ */
+export function typicalCompletionTime(
+  activities: TaskActivity[],
+  userId?: string
+): number | null {
+  const created = new Map<string, number>();
+  const completed = new Map<string, number>();
+
+  for (const activity of activities) {
+    const at = new Date(activity.created_at).getTime();
+    if (activity.activity_type === "create") {
+      created.set(activity.task_id, at);
+    } else if (
+      activity.activity_type === "complete" &&
+      (!userId || activity.user_id === userId)
+    ) {
+      completed.set(
+        activity.task_id,
+        Math.max(at, completed.get(activity.task_id) ?? at)
+      );
+    }
+  }
+
+  const durations = Array.from(completed)
+    .filter(([taskId]) => created.has(taskId))
+    .map(([taskId, at]) => at - created.get(taskId)!)
+    .filter((duration) => duration >= 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length < MIN_SAMPLES) return null;
+
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2
+    ? durations[middle]
+    : (durations[middle - 1] + durations[middle]) / 2;
+}
+
+export type RiskLevel = "overdue" | "at_risk" | "on_track";
+
+export type TaskRisk = {
+  // 0 to 100, 100 being overdue
+  score: number;
+  level: RiskLevel;
+};
+
+export type RiskEnvironment = {
+  now: Date;
+  timeZone: string;
+  // From `typicalCompletionTime`; null falls back to the default
+  completionTime: number | null;
+};
+
+// Share of the typical time a task still needs in each status
+const WORK_LEFT: Record<Task["status"], number> = {
+  pending: 1,
+  in_progress: 0.5,
+  completed: 0,
+};
+
+// From here on the work expected to be left no longer fits before the due date
+export const AT_RISK_SCORE = 50;
+
+/**
+ * How likely a task is to miss its due date, null when it's done or has no
+ * due date. Weighs the time left against the time the work is expected to
+ * take, so the score passes 50 once that no longer fits.
+ */
+export function taskRisk(
+  task: DueFields & Pick<Task, "status">,
+  { now, timeZone, completionTime }: RiskEnvironment
+): TaskRisk | null {
+  if (task.status === "completed") return null;
+
+  const due = dueInstant(task, timeZone);
+  if (!due) return null;
+
+  const left = due.getTime() - now.getTime();
+  if (left <= 0) return { score: 100, level: "overdue" };
+
+  const needed =
+    (completionTime ?? DEFAULT_COMPLETION_MS) * WORK_LEFT[task.status];
+  const score = Math.min(99, Math.round((100 * needed) / (needed + left)));
+
+  return { score, level: score >= AT_RISK_SCORE ? "at_risk" : "on_track" };
+}
+
+// Overdue, or likely to be
+export const isAtRisk = (risk: TaskRisk | null) =>
+  !!risk && risk.level !== "on_track";
+
+// Most at risk first, tasks without a due date last
+export const compareRisk = (a: TaskRisk | null, b: TaskRisk | null) =>
+  (b?.score ?? -1) - (a?.score ?? -1);
@@ -0,0 +1,219 @@
+// src/lib/task-views.ts
+import type {
+  TaskPriority,
+  TaskQuery,
+  TaskStatus,
+  TaskWithCategory,
+} from "@/lib/repositories";
+import { dueDateBounds, dueDay, dueInstant } from "@/lib/dates";
+import { compareRisk, isAtRisk, type TaskRisk } from "@/lib/task-risk";
+
+// The filters and order of the task list. They live in the URL's query
+// string, so a view can be bookmarked, shared or saved by name.
+
+// Risk depends on the user's history, so that order is applied after fetching
+export type TaskSortField = NonNullable<TaskQuery["orderBy"]> | "risk";
+
+export type TaskView = {
+  status?: TaskStatus;
+  // Any of these; all priorities when empty
+  priorities: TaskPriority[];
+  categoryId?: string;
+  tagId?: string;
+  assignedToMe: boolean;
+  // Due days in the user's timezone, both inclusive
+  dueFrom?: string;
+  dueTo?: string;
+  overdue: boolean;
+  // Overdue or likely to miss the due date, see src/lib/task-risk.ts
+  atRisk: boolean;
+  text: string;
+  sort: TaskSortField;
+  ascending: boolean;
+};
+
+// Each order starts in the direction that's most useful for it
+export const SORT_OPTIONS: {
+  value: TaskSortField;
+  label: string;
+  ascending: boolean;
+}[] = [
+  { value: "created_at", label: "Newest", ascending: false },
+  { value: "due_date", label: "Due date", ascending: true },
+  { value: "priority", label: "Priority", ascending: false },
+  { value: "title", label: "Title", ascending: true },
+  { value: "updated_at", label: "Recently updated", ascending: false },
+  { value: "risk", label: "Risk", ascending: false },
+];
+
+export const DEFAULT_TASK_VIEW: TaskView = {
+  priorities: [],
+  assignedToMe: false,
+  overdue: false,
+  atRisk: false,
+  text: "",
+  sort: "created_at",
+  ascending: false,
+};
+
+const STATUSES: TaskStatus[] = ["pending", "in_progress", "completed"];
+const PRIORITIES: TaskPriority[] = ["low", "medium", "high"];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const defaultAscending = (sort: TaskSortField) =>
+  SORT_OPTIONS.find((option) => option.value === sort)!.ascending;
+
+const oneOf = <T extends string>(values: T[], value: string | null) =>
+  values.find((v) => v === value);
+
+const dayParam = (value: string | null) =>
+  value && DAY_PATTERN.test(value) ? value : undefined;
+
+/**
+ * The view described by a query string; anything unrecognized is ignored.
+ */
+export function parseTaskView(params: URLSearchParams): TaskView {
+  const sort =
+    oneOf(
+      SORT_OPTIONS.map((option) => option.value),
+      params.get("sort")
+    ) || DEFAULT_TASK_VIEW.sort;
+  const order = params.get("order");
+
+  return {
+    status: oneOf(STATUSES, params.get("status")),
+    priorities: PRIORITIES.filter((priority) =>
+      (params.get("priority") || "").split(",").includes(priority)
+    ),
+    categoryId: params.get("category") || undefined,
+    tagId: params.get("tag") || undefined,
+    assignedToMe: params.get("assignee") === "me",
+    dueFrom: dayParam(params.get("from")),
+    dueTo: dayParam(params.get("to")),
+    overdue: params.get("overdue") === "1",
+    atRisk: params.get("risk") === "1",
+    text: params.get("q") || "",
+    sort,
+    ascending:
+      order === "asc" || order === "desc"
+        ? order === "asc"
+        : defaultAscending(sort),
+  };
+}
+
+/**
+ * The query string for a view, leaving out everything at its default.
+ */
+export function taskViewParams(view: TaskView) {
+  const params = new URLSearchParams();
+
+  if (view.status) params.set("status", view.status);
+  if (view.priorities.length > 0) {
+    params.set("priority", view.priorities.join(","));
+  }
+  if (view.categoryId) params.set("category", view.categoryId);
+  if (view.tagId) params.set("tag", view.tagId);
+  if (view.assignedToMe) params.set("assignee", "me");
+  if (view.dueFrom) params.set("from", view.dueFrom);
+  if (view.dueTo) params.set("to", view.dueTo);
+  if (view.overdue) params.set("overdue", "1");
+  if (view.atRisk) params.set("risk", "1");
+  if (view.text.trim()) params.set("q", view.text.trim());
+  if (view.sort !== DEFAULT_TASK_VIEW.sort) params.set("sort", view.sort);
+  if (view.ascending !== defaultAscending(view.sort)) {
+    params.set("order", view.ascending ? "asc" : "desc");
+  }
+
+  return params;
+}
+
+// How many filters narrow the list down; the order doesn't count
+export const countFilters = (view: TaskView) =>
+  [
+    view.status,
+    view.priorities.length > 0,
+    view.categoryId,
+    view.tagId,
+    view.assignedToMe,
+    view.dueFrom || view.dueTo,
+    view.overdue,
+    view.atRisk,
+    view.text.trim(),
+  ].filter(Boolean).length;
+
+/**
+ * The repository query for a view. Due filters are widened to cover both
+ * kinds of due dates, so results still go through `matchesDueFilters`.
+ */
+export function toTaskQuery(
+  view: TaskView,
+  { userId, timeZone, now }: { userId?: string; timeZone: string; now: Date }
+): Omit<TaskQuery, "workspaceId"> {
+  const { dueFrom, dueBefore } = dueDateBounds(
+    view.dueFrom,
+    view.dueTo,
+    timeZone
+  );
+  // Anything overdue has a due_date before now, whatever the timezone
+  const overdueBefore = view.overdue ? now.toISOString() : undefined;
+
+  return {
+    status: view.status,
+    excludeStatus: view.overdue || view.atRisk ? "completed" : undefined,
+    priorities: view.priorities.length > 0 ? view.priorities : undefined,
+    categoryId: view.categoryId,
+    tagId: view.tagId,
+    assignedTo: view.assignedToMe ? userId : undefined,
+    dueFrom,
+    dueBefore:
+      dueBefore && overdueBefore
+        ? [dueBefore, overdueBefore].sort()[0]
+        : dueBefore || overdueBefore,
+    search: view.text.trim() || undefined,
+    // Equally risky tasks stay in due date order
+    orderBy: view.sort === "risk" ? "due_date" : view.sort,
+    ascending: view.sort === "risk" || view.ascending,
+  };
+}
+
+export function matchesDueFilters(
+  task: TaskWithCategory,
+  view: TaskView,
+  timeZone: string,
+  now: Date
+) {
+  if (view.dueFrom || view.dueTo) {
+    const day = dueDay(task, timeZone);
+    if (!day) return false;
+    if (view.dueFrom && day < view.dueFrom) return false;
+    if (view.dueTo && day > view.dueTo) return false;
+  }
+
+  if (view.overdue) {
+    const due = dueInstant(task, timeZone);
+    if (!due || due >= now || task.status === "completed") return false;
+  }
+
+  return true;
+}
+
+/**
+ * The at-risk filter and risk order, for tasks already fetched for `view`.
+ */
+export function applyRiskView(
+  tasks: TaskWithCategory[],
+  view: TaskView,
+  risks: Map<string, TaskRisk | null>
+) {
+  const risk = (task: TaskWithCategory) => risks.get(task.id) ?? null;
+  const shown = view.atRisk
+    ? tasks.filter((task) => isAtRisk(risk(task)))
+    : tasks;
+
+  if (view.sort !== "risk") return shown;
+
+  // A stable sort keeps the due date order among equal risks
+  return [...shown].sort(
+    (a, b) => compareRisk(risk(a), risk(b)) * (view.ascending ? -1 : 1)
+  );
+}
@@ -0,0 +1,30 @@
+// src/lib/use-time-zone.ts
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRepositories } from "@/lib/repositories/context";
+import { resolveTimeZone } from "@/lib/dates";
+
+/**
+ * The signed-in user's timezone for computing "today" and due times. Uses
+ * the browser's until the profile has loaded.
+ */
+export function useTimeZone() {
+  const { profiles } = useRepositories();
+  const [timeZone, setTimeZone] = useState(() => resolveTimeZone());
+
+  useEffect(() => {
+    const fetchTimeZone = async () => {
+      try {
+        const profile = await profiles.getCurrent();
+        setTimeZone(resolveTimeZone(profile.timezone));
+      } catch (err) {
+        console.error("Error fetching timezone:", err);
+      }
+    };
+
+    fetchTimeZone();
+  }, [profiles]);
+
+  return timeZone;
+}
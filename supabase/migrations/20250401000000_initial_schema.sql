@@ -0,0 +1,264 @@
+-- TaskFlow base schema: profiles, categories, tasks, task activity log and
+-- workspaces, with the triggers and RLS policies the app relies on.
+-- Later migrations in this directory build on top of it.
+
+create extension if not exists pgcrypto;
+
+create type public.task_priority as enum ('low', 'medium', 'high');
+create type public.task_status as enum ('pending', 'in_progress', 'completed');
+
+-- Profiles -----------------------------------------------------------------
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  username text not null,
+  avatar_url text,
+  productivity_settings jsonb not null default jsonb_build_object(
+    'peak_hours', jsonb_build_array('09:00', '14:00'),
+    'work_days', jsonb_build_array(1, 2, 3, 4, 5),
+    'focus_duration', 25
+  ),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Workspaces ---------------------------------------------------------------
+
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  created_by uuid not null default auth.uid() references public.profiles (id),
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  -- References profiles so PostgREST can embed usernames in member lists
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role text not null default 'member',
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx
+  on public.workspace_members (user_id);
+
+-- Categories and tasks -----------------------------------------------------
+
+create table public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  name text not null,
+  color text not null default '#3B82F6',
+  created_at timestamptz not null default now()
+);
+
+create index categories_user_id_idx on public.categories (user_id);
+
+create table public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  title text not null,
+  description text,
+  due_date timestamptz,
+  priority public.task_priority not null default 'medium',
+  status public.task_status not null default 'pending',
+  category_id uuid references public.categories (id) on delete set null,
+  dependencies uuid[] not null default '{}',
+  assigned_to uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index tasks_user_id_idx on public.tasks (user_id);
+create index tasks_category_id_idx on public.tasks (category_id);
+create index tasks_assigned_to_idx on public.tasks using gin (assigned_to);
+
+create table public.task_activities (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  activity_type text not null check (activity_type in ('create', 'update', 'complete')),
+  created_at timestamptz not null default now()
+);
+
+create index task_activities_task_id_idx on public.task_activities (task_id);
+create index task_activities_created_at_idx on public.task_activities (created_at);
+
+-- Triggers -----------------------------------------------------------------
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger profiles_set_updated_at
+  before update on public.profiles
+  for each row execute function public.set_updated_at();
+
+create trigger tasks_set_updated_at
+  before update on public.tasks
+  for each row execute function public.set_updated_at();
+
+-- Feeds the analytics charts: one row per created task, one per completion
+-- and one for any other change.
+create or replace function public.log_task_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'create');
+  elsif new.status = 'completed' and old.status <> 'completed' then
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'complete');
+  else
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'update');
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tasks_log_activity
+  after insert or update on public.tasks
+  for each row execute function public.log_task_activity();
+
+-- The creator of a workspace is its first member
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (new.id, new.created_by, 'owner')
+  on conflict (workspace_id, user_id) do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger workspaces_add_owner
+  after insert on public.workspaces
+  for each row execute function public.add_workspace_owner();
+
+-- Row level security -------------------------------------------------------
+
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members
+    where workspace_id = p_workspace_id
+      and user_id = auth.uid()
+  ) or exists (
+    select 1
+    from public.workspaces
+    where id = p_workspace_id
+      and created_by = auth.uid()
+  );
+$$;
+
+alter table public.profiles enable row level security;
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.categories enable row level security;
+alter table public.tasks enable row level security;
+alter table public.task_activities enable row level security;
+
+create policy "Profiles are visible to signed-in users"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+create policy "Users can create their own profile"
+  on public.profiles for insert
+  with check (id = auth.uid());
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (id = auth.uid());
+
+create policy "Members can view workspaces"
+  on public.workspaces for select
+  using (public.is_workspace_member(id));
+
+create policy "Users can create workspaces"
+  on public.workspaces for insert
+  with check (created_by = auth.uid());
+
+create policy "Owners can update workspaces"
+  on public.workspaces for update
+  using (created_by = auth.uid());
+
+create policy "Owners can delete workspaces"
+  on public.workspaces for delete
+  using (created_by = auth.uid());
+
+create policy "Members can view workspace members"
+  on public.workspace_members for select
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Owners can manage members"
+  on public.workspace_members for insert
+  with check (
+    exists (
+      select 1 from public.workspaces w
+      where w.id = workspace_id and w.created_by = auth.uid()
+    )
+  );
+
+create policy "Owners can remove members"
+  on public.workspace_members for delete
+  using (
+    exists (
+      select 1 from public.workspaces w
+      where w.id = workspace_id and w.created_by = auth.uid()
+    )
+  );
+
+-- Only personal rows exist at this point. Once tasks and categories can belong
+-- to a workspace, 20261019000400_workspace_roles.sql narrows these two to
+-- rows without one; workspace rows go through the role policies alone.
+create policy "Users can manage their own categories"
+  on public.categories for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can manage their own tasks"
+  on public.tasks for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Assignees can view their tasks"
+  on public.tasks for select
+  using (auth.uid() = any (assigned_to));
+
+create policy "Users can view activity on their tasks"
+  on public.task_activities for select
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.tasks t where t.id = task_id)
+  );
+
+-- Realtime -----------------------------------------------------------------
+
+alter publication supabase_realtime
+  add table public.tasks, public.categories, public.workspaces;
@@ -0,0 +1,52 @@
+-- Shared workspace tasks: a task either belongs to its creator (workspace_id
+-- is null) or to a workspace, in which case every member can work on it.
+
+alter table public.tasks
+  add column if not exists workspace_id uuid
+    references public.workspaces (id) on delete cascade;
+
+create index if not exists tasks_workspace_id_idx
+  on public.tasks (workspace_id);
+
+-- Security definer so policies on workspace_members itself can use it
+-- without recursing into their own RLS checks.
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members
+    where workspace_id = p_workspace_id
+      and user_id = auth.uid()
+  ) or exists (
+    select 1
+    from public.workspaces
+    where id = p_workspace_id
+      and created_by = auth.uid()
+  );
+$$;
+
+create policy "Members can view workspace tasks"
+  on public.tasks for select
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
+
+create policy "Members can create workspace tasks"
+  on public.tasks for insert
+  with check (
+    workspace_id is not null and public.is_workspace_member(workspace_id)
+  );
+
+create policy "Members can update workspace tasks"
+  on public.tasks for update
+  using (workspace_id is not null and public.is_workspace_member(workspace_id))
+  with check (
+    workspace_id is not null and public.is_workspace_member(workspace_id)
+  );
+
+create policy "Members can delete workspace tasks"
+  on public.tasks for delete
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
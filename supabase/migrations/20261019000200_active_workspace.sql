@@ -0,0 +1,31 @@
+-- Remember which workspace each user last switched to, and let categories
+-- be shared within a workspace the same way tasks are.
+
+alter table public.profiles
+  add column if not exists active_workspace_id uuid
+    references public.workspaces (id) on delete set null;
+
+alter table public.categories
+  add column if not exists workspace_id uuid
+    references public.workspaces (id) on delete cascade;
+
+create index if not exists categories_workspace_id_idx
+  on public.categories (workspace_id);
+
+create policy "Members can view workspace categories"
+  on public.categories for select
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
+
+create policy "Members can create workspace categories"
+  on public.categories for insert
+  with check (
+    workspace_id is not null and public.is_workspace_member(workspace_id)
+  );
+
+create policy "Members can update workspace categories"
+  on public.categories for update
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
+
+create policy "Members can delete workspace categories"
+  on public.categories for delete
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
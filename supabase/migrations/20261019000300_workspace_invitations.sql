@@ -0,0 +1,136 @@
+-- Email invitations to join a workspace. The owner creates an invitation
+-- row; the recipient opens /invite/<token> and accepts or declines through
+-- the security definer functions below, which are the only way a user can
+-- add themselves to workspace_members.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null,
+  role text not null default 'member',
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by uuid not null default auth.uid() references auth.users (id),
+  expires_at timestamptz not null default now() + interval '7 days',
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workspace_invitations_workspace_id_idx
+  on public.workspace_invitations (workspace_id);
+
+-- Only one open invitation per address and workspace
+create unique index if not exists workspace_invitations_pending_email_idx
+  on public.workspace_invitations (workspace_id, lower(email))
+  where status = 'pending';
+
+alter table public.workspace_invitations enable row level security;
+
+create policy "Owners can view invitations"
+  on public.workspace_invitations for select
+  using (
+    exists (
+      select 1 from public.workspaces w
+      where w.id = workspace_id and w.created_by = auth.uid()
+    )
+  );
+
+create policy "Owners can create invitations"
+  on public.workspace_invitations for insert
+  with check (
+    invited_by = auth.uid()
+    and exists (
+      select 1 from public.workspaces w
+      where w.id = workspace_id and w.created_by = auth.uid()
+    )
+  );
+
+create policy "Owners can revoke invitations"
+  on public.workspace_invitations for update
+  using (
+    exists (
+      select 1 from public.workspaces w
+      where w.id = workspace_id and w.created_by = auth.uid()
+    )
+  )
+  with check (status in ('pending', 'revoked'));
+
+-- Public summary of an invitation, readable by anyone holding the token
+create or replace function public.get_workspace_invitation(p_token text)
+returns table (
+  workspace_name text,
+  inviter_username text,
+  email text,
+  role text,
+  status text,
+  expires_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select w.name, p.username, i.email, i.role, i.status, i.expires_at
+  from public.workspace_invitations i
+  join public.workspaces w on w.id = i.workspace_id
+  left join public.profiles p on p.id = i.invited_by
+  where i.token = p_token;
+$$;
+
+create or replace function public.respond_to_workspace_invitation(
+  p_token text,
+  p_accept boolean
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.workspace_invitations;
+begin
+  if auth.uid() is null then
+    raise exception 'You need to sign in to respond to an invitation';
+  end if;
+
+  select * into v_invitation
+  from public.workspace_invitations
+  where token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+
+  if v_invitation.status <> 'pending' then
+    raise exception 'This invitation has already been %', v_invitation.status;
+  end if;
+
+  if v_invitation.expires_at < now() then
+    raise exception 'This invitation has expired';
+  end if;
+
+  if lower(v_invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'This invitation was sent to a different email address';
+  end if;
+
+  if p_accept then
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (v_invitation.workspace_id, auth.uid(), v_invitation.role)
+    on conflict (workspace_id, user_id) do nothing;
+  end if;
+
+  update public.workspace_invitations
+  set status = case when p_accept then 'accepted' else 'declined' end,
+      responded_at = now()
+  where id = v_invitation.id;
+
+  return v_invitation.workspace_id;
+end;
+$$;
+
+grant execute on function public.get_workspace_invitation(text) to anon, authenticated;
+grant execute on function public.respond_to_workspace_invitation(text, boolean) to authenticated;
@@ -0,0 +1,275 @@
+-- Role-based permissions for workspaces. Mirrors the matrix in
+-- src/lib/permissions.ts:
+--
+--   owner   everything, including deleting and transferring the workspace
+--   admin   edit the workspace, invite and manage members and viewers
+--   member  create, update and delete shared tasks and categories
+--   viewer  read-only
+
+update public.workspace_members
+set role = 'member'
+where role not in ('owner', 'admin', 'member', 'viewer');
+
+alter table public.workspace_members
+  drop constraint if exists workspace_members_role_check;
+
+alter table public.workspace_members
+  add constraint workspace_members_role_check
+    check (role in ('owner', 'admin', 'member', 'viewer'));
+
+alter table public.workspace_invitations
+  drop constraint if exists workspace_invitations_role_check;
+
+alter table public.workspace_invitations
+  add constraint workspace_invitations_role_check
+    check (role in ('admin', 'member', 'viewer'));
+
+-- The caller's role in a workspace, or null when they don't belong to it.
+-- The creator is always the owner, even without a workspace_members row.
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1 from public.workspaces
+      where id = p_workspace_id and created_by = auth.uid()
+    ) then 'owner'
+    else (
+      select role from public.workspace_members
+      where workspace_id = p_workspace_id and user_id = auth.uid()
+    )
+  end;
+$$;
+
+create or replace function public.has_workspace_role(
+  p_workspace_id uuid,
+  p_roles text[]
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.workspace_role(p_workspace_id) = any (p_roles), false);
+$$;
+
+grant execute on function public.workspace_role(uuid) to authenticated;
+
+-- Workspaces
+
+drop policy if exists "Owners can update workspaces" on public.workspaces;
+drop policy if exists "Owners can delete workspaces" on public.workspaces;
+
+create policy "Owners and admins can update workspaces"
+  on public.workspaces for update
+  using (public.has_workspace_role(id, array['owner', 'admin']));
+
+-- Admins may rename a workspace but not take it over: created_by only
+-- changes through transfer_workspace_ownership below
+revoke update on public.workspaces from anon, authenticated;
+grant update (name, description) on public.workspaces to authenticated;
+
+create policy "Owners can delete workspaces"
+  on public.workspaces for delete
+  using (public.has_workspace_role(id, array['owner']));
+
+-- Members
+
+drop policy if exists "Owners can manage members" on public.workspace_members;
+drop policy if exists "Owners can remove members" on public.workspace_members;
+
+create policy "Owners and admins can change roles"
+  on public.workspace_members for update
+  using (
+    public.has_workspace_role(workspace_id, array['owner'])
+      and role <> 'owner'
+    or public.has_workspace_role(workspace_id, array['admin'])
+      and role in ('member', 'viewer')
+  )
+  with check (
+    public.has_workspace_role(workspace_id, array['owner'])
+      and role in ('admin', 'member', 'viewer')
+    or public.has_workspace_role(workspace_id, array['admin'])
+      and role in ('member', 'viewer')
+  );
+
+create policy "Owners and admins can remove members, members can leave"
+  on public.workspace_members for delete
+  using (
+    user_id = auth.uid() and role <> 'owner'
+    or public.has_workspace_role(workspace_id, array['owner'])
+      and role <> 'owner'
+    or public.has_workspace_role(workspace_id, array['admin'])
+      and role in ('member', 'viewer')
+  );
+
+-- Shared tasks and categories: viewers keep read access only. Policies are
+-- OR'd, so the creator's own-row policies must not reach workspace rows, or
+-- anyone could add rows to any workspace and demoted creators keep editing.
+
+drop policy if exists "Users can manage their own tasks" on public.tasks;
+drop policy if exists "Users can manage their own categories" on public.categories;
+
+create policy "Users can manage their own tasks"
+  on public.tasks for all
+  using (workspace_id is null and user_id = auth.uid())
+  with check (workspace_id is null and user_id = auth.uid());
+
+create policy "Users can manage their own categories"
+  on public.categories for all
+  using (workspace_id is null and user_id = auth.uid())
+  with check (workspace_id is null and user_id = auth.uid());
+
+drop policy if exists "Members can create workspace tasks" on public.tasks;
+drop policy if exists "Members can update workspace tasks" on public.tasks;
+drop policy if exists "Members can delete workspace tasks" on public.tasks;
+
+create policy "Contributors can create workspace tasks"
+  on public.tasks for insert
+  with check (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can update workspace tasks"
+  on public.tasks for update
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can delete workspace tasks"
+  on public.tasks for delete
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+drop policy if exists "Members can create workspace categories" on public.categories;
+drop policy if exists "Members can update workspace categories" on public.categories;
+drop policy if exists "Members can delete workspace categories" on public.categories;
+
+create policy "Contributors can create workspace categories"
+  on public.categories for insert
+  with check (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can update workspace categories"
+  on public.categories for update
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can delete workspace categories"
+  on public.categories for delete
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+-- Invitations: admins may invite too, but only members and viewers
+
+drop policy if exists "Owners can view invitations" on public.workspace_invitations;
+drop policy if exists "Owners can create invitations" on public.workspace_invitations;
+drop policy if exists "Owners can revoke invitations" on public.workspace_invitations;
+
+create policy "Owners and admins can view invitations"
+  on public.workspace_invitations for select
+  using (public.has_workspace_role(workspace_id, array['owner', 'admin']));
+
+create policy "Owners and admins can create invitations"
+  on public.workspace_invitations for insert
+  with check (
+    invited_by = auth.uid()
+    and (
+      public.has_workspace_role(workspace_id, array['owner'])
+      or public.has_workspace_role(workspace_id, array['admin'])
+        and role in ('member', 'viewer')
+    )
+  );
+
+-- Revoking is the only direct change to an invitation, so it goes through a
+-- function instead of an update policy, which couldn't stop the rest of the
+-- row (role, email, expiry) from being rewritten along with the status.
+create or replace function public.revoke_workspace_invitation(
+  p_invitation_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.workspace_invitations;
+begin
+  select * into v_invitation
+  from public.workspace_invitations
+  where id = p_invitation_id
+  for update;
+
+  if not found
+    or not public.has_workspace_role(v_invitation.workspace_id, array['owner', 'admin'])
+  then
+    raise exception 'Invitation not found';
+  end if;
+
+  if v_invitation.status <> 'pending' then
+    raise exception 'This invitation has already been %', v_invitation.status;
+  end if;
+
+  update public.workspace_invitations
+  set status = 'revoked'
+  where id = p_invitation_id;
+end;
+$$;
+
+grant execute on function public.revoke_workspace_invitation(uuid) to authenticated;
+
+-- Ownership transfer: the new owner must already be a member; the previous
+-- owner stays on as an admin.
+create or replace function public.transfer_workspace_ownership(
+  p_workspace_id uuid,
+  p_new_owner_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous_owner uuid := auth.uid();
+begin
+  if not public.has_workspace_role(p_workspace_id, array['owner']) then
+    raise exception 'Only the owner can transfer this workspace';
+  end if;
+
+  if not exists (
+    select 1 from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = p_new_owner_id
+  ) then
+    raise exception 'The new owner must be a member of the workspace';
+  end if;
+
+  update public.workspaces
+  set created_by = p_new_owner_id
+  where id = p_workspace_id;
+
+  update public.workspace_members
+  set role = 'owner'
+  where workspace_id = p_workspace_id and user_id = p_new_owner_id;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (p_workspace_id, v_previous_owner, 'admin')
+  on conflict (workspace_id, user_id) do update set role = 'admin';
+end;
+$$;
+
+grant execute on function public.transfer_workspace_ownership(uuid, uuid) to authenticated;
@@ -0,0 +1,50 @@
+-- Server-side counterpart of src/lib/dependencies.ts: a task can't move to
+-- in_progress or completed while one of its prerequisites is still open,
+-- and dependencies can't form a cycle.
+
+create or replace function public.check_task_dependencies()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_open_titles text;
+begin
+  if new.id = any (new.dependencies) then
+    raise exception 'A task cannot depend on itself';
+  end if;
+
+  if new.dependencies is distinct from coalesce(old.dependencies, '{}') then
+    if exists (
+      with recursive reachable (id) as (
+        select unnest(new.dependencies)
+        union
+        select unnest(t.dependencies)
+        from public.tasks t
+        join reachable r on r.id = t.id
+      )
+      select 1 from reachable where id = new.id
+    ) then
+      raise exception 'These dependencies would create a cycle';
+    end if;
+  end if;
+
+  if new.status in ('in_progress', 'completed')
+    and (tg_op = 'INSERT' or new.status is distinct from old.status) then
+    select string_agg(format('"%s"', t.title), ', ')
+    into v_open_titles
+    from public.tasks t
+    where t.id = any (new.dependencies)
+      and t.status <> 'completed';
+
+    if v_open_titles is not null then
+      raise exception 'Task is blocked by %', v_open_titles;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tasks_check_dependencies
+  before insert or update on public.tasks
+  for each row execute function public.check_task_dependencies();
@@ -0,0 +1,161 @@
+-- Recurring tasks. A series holds the template and the recurrence rule
+-- (see src/lib/recurrence.ts for its shape); each occurrence is a regular
+-- task pointing back at it. The next occurrence is created when the current
+-- one is completed.
+
+create table public.task_series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  title text not null,
+  description text,
+  priority public.task_priority not null default 'medium',
+  category_id uuid references public.categories (id) on delete set null,
+  assigned_to uuid[] not null default '{}',
+  recurrence jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index task_series_user_id_idx on public.task_series (user_id);
+create index task_series_workspace_id_idx on public.task_series (workspace_id);
+
+create trigger task_series_set_updated_at
+  before update on public.task_series
+  for each row execute function public.set_updated_at();
+
+-- Stopping a series keeps its occurrences as plain tasks
+alter table public.tasks
+  add column if not exists series_id uuid
+    references public.task_series (id) on delete set null,
+  add column if not exists occurrence_index integer;
+
+-- Also makes creating an occurrence idempotent, see below
+create unique index if not exists tasks_series_occurrence_idx
+  on public.tasks (series_id, occurrence_index);
+
+-- Row level security, mirroring the task policies ---------------------------
+
+alter table public.task_series enable row level security;
+
+create policy "Users can manage their own series"
+  on public.task_series for all
+  using (workspace_id is null and user_id = auth.uid())
+  with check (workspace_id is null and user_id = auth.uid());
+
+create policy "Assignees can view their series"
+  on public.task_series for select
+  using (auth.uid() = any (assigned_to));
+
+create policy "Members can view workspace series"
+  on public.task_series for select
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
+
+create policy "Contributors can create workspace series"
+  on public.task_series for insert
+  with check (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can update workspace series"
+  on public.task_series for update
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can delete workspace series"
+  on public.task_series for delete
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+-- Occurrences ---------------------------------------------------------------
+
+-- Creates occurrence `p_occurrence_index` of a series from its template and
+-- returns its id, or the id of the existing one when it was already
+-- created. Security definer so an assignee completing someone else's task
+-- can create the next occurrence on the owner's behalf.
+create or replace function public.create_task_occurrence(
+  p_series_id uuid,
+  p_occurrence_index integer,
+  p_due_date timestamptz
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.task_series;
+  v_task_id uuid;
+begin
+  select * into v_series
+  from public.task_series
+  where id = p_series_id;
+
+  if not found then
+    raise exception 'Series not found';
+  end if;
+
+  -- Like the task policies: personal series belong to their owner (and
+  -- their assignees), workspace series to the workspace's contributors
+  if not (
+    v_series.workspace_id is null
+      and (
+        v_series.user_id = auth.uid()
+        or auth.uid() = any (v_series.assigned_to)
+      )
+    or (
+      v_series.workspace_id is not null
+      and public.has_workspace_role(
+        v_series.workspace_id,
+        array['owner', 'admin', 'member']
+      )
+    )
+  ) then
+    raise exception 'You cannot add occurrences to this series'
+      using errcode = '42501';
+  end if;
+
+  insert into public.tasks (
+    user_id,
+    workspace_id,
+    series_id,
+    occurrence_index,
+    title,
+    description,
+    priority,
+    category_id,
+    assigned_to,
+    due_date
+  )
+  values (
+    v_series.user_id,
+    v_series.workspace_id,
+    v_series.id,
+    p_occurrence_index,
+    v_series.title,
+    v_series.description,
+    v_series.priority,
+    v_series.category_id,
+    v_series.assigned_to,
+    p_due_date
+  )
+  on conflict (series_id, occurrence_index) do nothing
+  returning id into v_task_id;
+
+  if v_task_id is null then
+    select id into v_task_id
+    from public.tasks
+    where series_id = p_series_id
+      and occurrence_index = p_occurrence_index;
+  end if;
+
+  return v_task_id;
+end;
+$$;
+
+grant execute on function public.create_task_occurrence(uuid, integer, timestamptz) to authenticated;
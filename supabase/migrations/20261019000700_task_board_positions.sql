@@ -0,0 +1,48 @@
+-- Manual ordering of tasks on the board. Positions are fractional so a card
+-- can be moved between two others by updating that card alone; they are
+-- only compared within a status column.
+
+alter table public.tasks
+  add column if not exists position double precision;
+
+-- Existing tasks keep their newest-first order. The activity trigger is
+-- paused so the backfill doesn't show up in the analytics.
+alter table public.tasks disable trigger tasks_log_activity;
+
+update public.tasks
+set position = -extract(epoch from created_at);
+
+alter table public.tasks enable trigger tasks_log_activity;
+
+-- New tasks go to the top of their column
+alter table public.tasks
+  alter column position set default -extract(epoch from clock_timestamp()),
+  alter column position set not null;
+
+create index if not exists tasks_status_position_idx
+  on public.tasks (workspace_id, status, position);
+
+-- Reordering isn't an edit worth charting: skip changes that only move a
+-- task within the board.
+create or replace function public.log_task_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'create');
+  elsif new.status = 'completed' and old.status <> 'completed' then
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'complete');
+  elsif to_jsonb(new) - 'position' - 'updated_at'
+    is distinct from to_jsonb(old) - 'position' - 'updated_at' then
+    insert into public.task_activities (task_id, user_id, activity_type)
+    values (new.id, coalesce(auth.uid(), new.user_id), 'update');
+  end if;
+
+  return new;
+end;
+$$;
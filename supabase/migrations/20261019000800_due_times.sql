@@ -0,0 +1,110 @@
+-- Timezone-aware due dates. A task without a due time is due on a calendar
+-- day, stored as midnight UTC of that day and read back as that UTC date, so
+-- it's the same day for everyone. A task with a due time stores the instant
+-- picked in its author's timezone (see src/lib/dates.ts).
+
+-- IANA name, e.g. "Europe/Paris"; null follows the browser
+alter table public.profiles
+  add column if not exists timezone text;
+
+alter table public.tasks
+  add column if not exists has_due_time boolean not null default false;
+
+-- Dates picked so far were stored as midnight UTC; anything else came with a
+-- time. The activity trigger is paused so the backfill isn't charted.
+alter table public.tasks disable trigger tasks_log_activity;
+
+update public.tasks
+set has_due_time = true
+where due_date is not null
+  and (due_date at time zone 'UTC')::time <> '00:00';
+
+alter table public.tasks enable trigger tasks_log_activity;
+
+-- Occurrences keep the due time of the one they follow
+drop function if exists public.create_task_occurrence(uuid, integer, timestamptz);
+
+create or replace function public.create_task_occurrence(
+  p_series_id uuid,
+  p_occurrence_index integer,
+  p_due_date timestamptz,
+  p_has_due_time boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.task_series;
+  v_task_id uuid;
+begin
+  select * into v_series
+  from public.task_series
+  where id = p_series_id;
+
+  if not found then
+    raise exception 'Series not found';
+  end if;
+
+  -- Like the task policies: personal series belong to their owner (and
+  -- their assignees), workspace series to the workspace's contributors
+  if not (
+    v_series.workspace_id is null
+      and (
+        v_series.user_id = auth.uid()
+        or auth.uid() = any (v_series.assigned_to)
+      )
+    or (
+      v_series.workspace_id is not null
+      and public.has_workspace_role(
+        v_series.workspace_id,
+        array['owner', 'admin', 'member']
+      )
+    )
+  ) then
+    raise exception 'You cannot add occurrences to this series'
+      using errcode = '42501';
+  end if;
+
+  insert into public.tasks (
+    user_id,
+    workspace_id,
+    series_id,
+    occurrence_index,
+    title,
+    description,
+    priority,
+    category_id,
+    assigned_to,
+    due_date,
+    has_due_time
+  )
+  values (
+    v_series.user_id,
+    v_series.workspace_id,
+    v_series.id,
+    p_occurrence_index,
+    v_series.title,
+    v_series.description,
+    v_series.priority,
+    v_series.category_id,
+    v_series.assigned_to,
+    p_due_date,
+    p_has_due_time
+  )
+  on conflict (series_id, occurrence_index) do nothing
+  returning id into v_task_id;
+
+  if v_task_id is null then
+    select id into v_task_id
+    from public.tasks
+    where series_id = p_series_id
+      and occurrence_index = p_occurrence_index;
+  end if;
+
+  return v_task_id;
+end;
+$$;
+
+grant execute on function public.create_task_occurrence(uuid, integer, timestamptz, boolean) to authenticated;
@@ -0,0 +1,72 @@
+-- Subtasks: an ordered checklist inside a task. A subtask can be promoted
+-- to a full task (see src/lib/subtasks.ts), and a task can opt in to being
+-- completed once every subtask is done.
+
+create table public.subtasks (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  title text not null,
+  status public.task_status not null default 'pending',
+  -- Fractional like tasks.position; new subtasks go to the bottom
+  position double precision not null
+    default extract(epoch from clock_timestamp()),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index subtasks_task_id_position_idx
+  on public.subtasks (task_id, position);
+
+create trigger subtasks_set_updated_at
+  before update on public.subtasks
+  for each row execute function public.set_updated_at();
+
+alter table public.tasks
+  add column if not exists complete_with_subtasks boolean not null default false;
+
+-- Row level security --------------------------------------------------------
+
+-- Whether the caller may edit `p_task_id`, mirroring the task policies
+create or replace function public.can_edit_task(p_task_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.tasks t
+    where t.id = p_task_id
+      and (
+        t.workspace_id is null and t.user_id = auth.uid()
+        or (
+          t.workspace_id is not null
+          and public.has_workspace_role(
+            t.workspace_id,
+            array['owner', 'admin', 'member']
+          )
+        )
+      )
+  );
+$$;
+
+grant execute on function public.can_edit_task(uuid) to authenticated;
+
+alter table public.subtasks enable row level security;
+
+create policy "Users can view subtasks of visible tasks"
+  on public.subtasks for select
+  using (exists (select 1 from public.tasks t where t.id = task_id));
+
+create policy "Editors can create subtasks"
+  on public.subtasks for insert
+  with check (public.can_edit_task(task_id));
+
+create policy "Editors can update subtasks"
+  on public.subtasks for update
+  using (public.can_edit_task(task_id))
+  with check (public.can_edit_task(task_id));
+
+create policy "Editors can delete subtasks"
+  on public.subtasks for delete
+  using (public.can_edit_task(task_id));
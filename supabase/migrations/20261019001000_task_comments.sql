@@ -0,0 +1,89 @@
+-- Task comments. Threads are one level deep: a reply points at the comment
+-- that started its thread. Deleting a comment only blanks it (deleted_at),
+-- so replies from other people stay in place.
+
+create table public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  parent_id uuid references public.task_comments (id) on delete cascade,
+  -- Markdown, rendered by src/lib/markdown.ts
+  body text not null,
+  deleted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint task_comments_body_check
+    check (char_length(body) > 0 or deleted_at is not null)
+);
+
+create index task_comments_task_id_idx
+  on public.task_comments (task_id, created_at);
+
+create trigger task_comments_set_updated_at
+  before update on public.task_comments
+  for each row execute function public.set_updated_at();
+
+-- Replies must start from a top-level comment on the same task
+create or replace function public.check_task_comment_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.task_comments c
+    where c.id = new.parent_id
+      and c.task_id = new.task_id
+      and c.parent_id is null
+  ) then
+    raise exception 'Replies must answer a top-level comment on the same task'
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger task_comments_check_parent
+  before insert on public.task_comments
+  for each row execute function public.check_task_comment_parent();
+
+-- Row level security --------------------------------------------------------
+
+-- Anyone who can see a task can read its discussion; commenting follows the
+-- tasks.update permission, so workspace viewers stay read-only.
+alter table public.task_comments enable row level security;
+
+create policy "Users can view comments on visible tasks"
+  on public.task_comments for select
+  using (exists (select 1 from public.tasks t where t.id = task_id));
+
+create policy "Users can comment on tasks they work on"
+  on public.task_comments for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (
+          t.workspace_id is null
+          or public.has_workspace_role(
+            t.workspace_id,
+            array['owner', 'admin', 'member']
+          )
+        )
+    )
+  );
+
+create policy "Users can edit their own comments"
+  on public.task_comments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Editing and deleting only touch the text; a comment can't be moved to
+-- another task or thread
+revoke update on public.task_comments from anon, authenticated;
+grant update (body, deleted_at) on public.task_comments to authenticated;
+
+-- Realtime -----------------------------------------------------------------
+
+alter publication supabase_realtime add table public.task_comments;
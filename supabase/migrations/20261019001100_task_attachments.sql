@@ -0,0 +1,125 @@
+-- File attachments on tasks. Rows here hold the metadata; the files live in
+-- the "attachments" storage bucket, or in the local stand-in behind
+-- /api/attachments (see src/lib/attachment-storage). The row is created
+-- first, so the size limits below apply whichever backend stores the file.
+--
+-- Limits, kept in sync with src/lib/attachments.ts:
+--   10 MB per file, 100 MB per uploader across all their attachments
+
+create table public.task_attachments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  name text not null,
+  content_type text not null default 'application/octet-stream',
+  size bigint not null,
+  -- "<task id>/<random>-<name>", unique across backends
+  storage_path text not null unique,
+  created_at timestamptz not null default now(),
+  constraint task_attachments_size_check
+    check (size > 0 and size <= 10 * 1024 * 1024)
+);
+
+create index task_attachments_task_id_idx
+  on public.task_attachments (task_id, created_at);
+create index task_attachments_user_id_idx
+  on public.task_attachments (user_id);
+
+-- Bytes the caller has uploaded, including attachments on tasks they can no
+-- longer see
+create or replace function public.attachment_usage()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(size), 0)::bigint
+  from public.task_attachments
+  where user_id = auth.uid();
+$$;
+
+grant execute on function public.attachment_usage() to authenticated;
+
+create or replace function public.check_attachment_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serialize uploads per user so two can't both squeeze under the limit
+  perform pg_advisory_xact_lock(hashtext('attachments:' || new.user_id::text));
+
+  if (
+    select coalesce(sum(size), 0) + new.size
+    from public.task_attachments
+    where user_id = new.user_id
+  ) > 100 * 1024 * 1024 then
+    raise exception 'Attachment storage limit reached'
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger task_attachments_check_quota
+  before insert on public.task_attachments
+  for each row execute function public.check_attachment_quota();
+
+-- Row level security --------------------------------------------------------
+
+-- Visible along with the task; added by whoever may edit it; removed by the
+-- uploader or by anyone who may edit the task
+alter table public.task_attachments enable row level security;
+
+create policy "Users can view attachments of visible tasks"
+  on public.task_attachments for select
+  using (exists (select 1 from public.tasks t where t.id = task_id));
+
+create policy "Editors can add attachments"
+  on public.task_attachments for insert
+  with check (user_id = auth.uid() and public.can_edit_task(task_id));
+
+create policy "Uploaders and editors can remove attachments"
+  on public.task_attachments for delete
+  using (user_id = auth.uid() or public.can_edit_task(task_id));
+
+-- Storage -------------------------------------------------------------------
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 10 * 1024 * 1024)
+on conflict (id) do nothing;
+
+-- Objects follow their metadata row, so the rules above apply to the files
+create policy "Users can read attachments of visible tasks"
+  on storage.objects for select
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.task_attachments a
+      where a.storage_path = name
+    )
+  );
+
+create policy "Uploaders can store their attachments"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.task_attachments a
+      where a.storage_path = name and a.user_id = auth.uid()
+    )
+  );
+
+create policy "Uploaders and editors can delete attachments"
+  on storage.objects for delete
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.task_attachments a
+      where a.storage_path = name
+        and (a.user_id = auth.uid() or public.can_edit_task(a.task_id))
+    )
+  );
@@ -0,0 +1,151 @@
+-- Free-form, colored tags. Unlike categories a task can carry any number of
+-- them. Tags are scoped like categories: personal ones belong to their
+-- creator, shared ones to a workspace, and names are unique (ignoring case)
+-- within each scope.
+
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  name text not null,
+  color text not null default '#6B7280',
+  created_at timestamptz not null default now(),
+  constraint tags_name_check check (btrim(name) <> '')
+);
+
+create unique index tags_personal_name_idx
+  on public.tags (user_id, lower(name)) where workspace_id is null;
+create unique index tags_workspace_name_idx
+  on public.tags (workspace_id, lower(name)) where workspace_id is not null;
+
+create table public.task_tags (
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, tag_id)
+);
+
+create index task_tags_tag_id_idx on public.task_tags (tag_id);
+
+-- A task only carries tags from its own scope
+create or replace function public.check_task_tag_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1
+    from public.tasks t
+    join public.tags g on g.id = new.tag_id
+    where t.id = new.task_id
+      and g.workspace_id is not distinct from t.workspace_id
+      and (g.workspace_id is not null or g.user_id = t.user_id)
+  ) then
+    raise exception 'This tag belongs to a different workspace';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger task_tags_check_scope
+  before insert on public.task_tags
+  for each row execute function public.check_task_tag_scope();
+
+-- Moves every task from one tag onto another and deletes the first. Runs as
+-- the caller, so it takes the same rights as deleting the source tag.
+create or replace function public.merge_tags(p_source_id uuid, p_target_id uuid)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_source public.tags;
+  v_target public.tags;
+begin
+  select * into v_source from public.tags where id = p_source_id;
+  select * into v_target from public.tags where id = p_target_id;
+
+  if v_source.id is null or v_target.id is null then
+    raise exception 'Tag not found';
+  end if;
+
+  if v_source.id = v_target.id then
+    raise exception 'A tag cannot be merged into itself';
+  end if;
+
+  if v_source.workspace_id is distinct from v_target.workspace_id
+    or (v_source.workspace_id is null and v_source.user_id <> v_target.user_id)
+  then
+    raise exception 'Only tags from the same workspace can be merged';
+  end if;
+
+  insert into public.task_tags (task_id, tag_id)
+  select task_id, v_target.id
+  from public.task_tags
+  where tag_id = v_source.id
+  on conflict do nothing;
+
+  delete from public.tags where id = v_source.id;
+
+  if not found then
+    raise exception 'You cannot merge this tag'
+      using errcode = '42501';
+  end if;
+end;
+$$;
+
+grant execute on function public.merge_tags(uuid, uuid) to authenticated;
+
+-- Row level security --------------------------------------------------------
+
+-- Tags follow the category rules; tagging a task follows the task
+alter table public.tags enable row level security;
+
+create policy "Users can manage their own tags"
+  on public.tags for all
+  using (workspace_id is null and user_id = auth.uid())
+  with check (workspace_id is null and user_id = auth.uid());
+
+create policy "Members can view workspace tags"
+  on public.tags for select
+  using (workspace_id is not null and public.is_workspace_member(workspace_id));
+
+create policy "Contributors can create workspace tags"
+  on public.tags for insert
+  with check (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can update workspace tags"
+  on public.tags for update
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+create policy "Contributors can delete workspace tags"
+  on public.tags for delete
+  using (
+    workspace_id is not null
+    and public.has_workspace_role(workspace_id, array['owner', 'admin', 'member'])
+  );
+
+alter table public.task_tags enable row level security;
+
+create policy "Users can view tags of visible tasks"
+  on public.task_tags for select
+  using (exists (select 1 from public.tasks t where t.id = task_id));
+
+create policy "Editors can tag tasks"
+  on public.task_tags for insert
+  with check (public.can_edit_task(task_id));
+
+create policy "Editors can untag tasks"
+  on public.task_tags for delete
+  using (public.can_edit_task(task_id));
+
+alter publication supabase_realtime add table public.tags;
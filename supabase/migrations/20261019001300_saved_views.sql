@@ -0,0 +1,31 @@
+-- Named views of the task list. `query` is the query string the list keeps
+-- its filters and order in (see src/lib/task-views.ts), so opening a view
+-- is following a link. Views are private to their creator and listed with
+-- the workspace, or personal space, they were saved in.
+
+create table public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  name text not null,
+  query text not null default '',
+  created_at timestamptz not null default now(),
+  constraint saved_views_name_check check (btrim(name) <> '')
+);
+
+create index saved_views_user_id_idx
+  on public.saved_views (user_id, workspace_id);
+
+-- Row level security --------------------------------------------------------
+
+alter table public.saved_views enable row level security;
+
+create policy "Users can manage their own saved views"
+  on public.saved_views for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (workspace_id is null or public.is_workspace_member(workspace_id))
+  );
+
+alter publication supabase_realtime add table public.saved_views;
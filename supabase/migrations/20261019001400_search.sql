@@ -0,0 +1,161 @@
+-- Full-text search over tasks, comments, categories and workspaces for the
+-- search box in the dashboard. Runs as the caller, so results only include
+-- rows they can see.
+--
+-- Matches in the returned text are wrapped in chr(2) ... chr(3), which
+-- src/lib/search.ts turns into highlights.
+
+create or replace function public.task_search_vector(p_title text, p_description text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(p_description, '')), 'B');
+$$;
+
+create index if not exists tasks_search_idx
+  on public.tasks using gin (public.task_search_vector(title, description));
+
+create index if not exists task_comments_search_idx
+  on public.task_comments using gin (to_tsvector('english', body));
+
+-- Every word of the query, each matching as a prefix so results show up
+-- while typing
+create or replace function public.search_query(p_query text)
+returns tsquery
+language sql
+immutable
+as $$
+  select to_tsquery('english', string_agg(word || ':*', ' & '))
+  from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+  where word <> '';
+$$;
+
+-- `p_text` with its matches marked; the whole text when `p_whole`,
+-- otherwise the best fragments
+create or replace function public.search_headline(
+  p_text text,
+  p_query tsquery,
+  p_whole boolean default false
+)
+returns text
+language sql
+immutable
+as $$
+  select ts_headline(
+    'english',
+    p_text,
+    p_query,
+    format(
+      'StartSel=%s, StopSel=%s, %s',
+      chr(2),
+      chr(3),
+      case
+        when p_whole then 'HighlightAll=true'
+        else 'MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "'
+      end
+    )
+  );
+$$;
+
+-- Up to `p_limit` results of each kind, best first
+create or replace function public.search_all(p_query text, p_limit integer default 8)
+returns table (
+  kind text,
+  id uuid,
+  task_id uuid,
+  workspace_id uuid,
+  title text,
+  snippet text,
+  rank real
+)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select public.search_query(p_query) as query
+  ),
+  hits as (
+    select
+      'task' as kind,
+      t.id,
+      t.id as task_id,
+      t.workspace_id,
+      public.search_headline(t.title, q.query, true) as title,
+      case
+        when t.description is not null
+          and to_tsvector('english', t.description) @@ q.query
+        then public.search_headline(t.description, q.query)
+      end as snippet,
+      ts_rank(public.task_search_vector(t.title, t.description), q.query) as rank
+    from public.tasks t, q
+    where public.task_search_vector(t.title, t.description) @@ q.query
+
+    union all
+
+    select
+      'comment',
+      c.id,
+      c.task_id,
+      t.workspace_id,
+      t.title,
+      public.search_headline(c.body, q.query),
+      -- Below a task matching the same words
+      ts_rank(to_tsvector('english', c.body), q.query) * 0.5
+    from public.task_comments c
+    join public.tasks t on t.id = c.task_id, q
+    where c.deleted_at is null
+      and to_tsvector('english', c.body) @@ q.query
+
+    union all
+
+    select
+      'category',
+      g.id,
+      null,
+      g.workspace_id,
+      public.search_headline(g.name, q.query, true),
+      null,
+      ts_rank(to_tsvector('english', g.name), q.query)
+    from public.categories g, q
+    where to_tsvector('english', g.name) @@ q.query
+
+    union all
+
+    select
+      'workspace',
+      w.id,
+      null,
+      w.id,
+      public.search_headline(w.name, q.query, true),
+      case
+        when w.description is not null
+          and to_tsvector('english', w.description) @@ q.query
+        then public.search_headline(w.description, q.query)
+      end,
+      ts_rank(
+        setweight(to_tsvector('english', w.name), 'A')
+          || setweight(to_tsvector('english', coalesce(w.description, '')), 'B'),
+        q.query
+      )
+    from public.workspaces w, q
+    where (
+      setweight(to_tsvector('english', w.name), 'A')
+        || setweight(to_tsvector('english', coalesce(w.description, '')), 'B')
+    ) @@ q.query
+  ),
+  ranked as (
+    select
+      hits.*,
+      row_number() over (partition by hits.kind order by hits.rank desc) as n
+    from hits
+  )
+  select kind, id, task_id, workspace_id, title, snippet, rank
+  from ranked
+  where n <= p_limit
+  order by rank desc;
+$$;
+
+grant execute on function public.search_all(text, integer) to authenticated;
@@ -0,0 +1,5 @@
+-- Keyboard shortcuts the user rebound, keyed by action (see
+-- src/lib/shortcuts.ts); actions left out keep their default keys.
+
+alter table public.profiles
+  add column if not exists keyboard_shortcuts jsonb not null default '{}'::jsonb;
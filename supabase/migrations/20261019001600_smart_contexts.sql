@@ -0,0 +1,37 @@
+-- Smart Contexts the user defined for the Smart Focus page. `criteria` is
+-- the declarative rule a task has to match (see src/lib/smart-contexts.ts);
+-- contexts are tried in `position` order before the built-in ones. Like
+-- saved views they are private to their creator and listed with the
+-- workspace, or personal space, they were created in.
+
+create table public.smart_contexts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  name text not null,
+  priority text not null default 'medium',
+  criteria jsonb not null default '{}'::jsonb,
+  position integer not null default 0,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint smart_contexts_name_check check (btrim(name) <> ''),
+  constraint smart_contexts_priority_check
+    check (priority in ('high', 'medium', 'low'))
+);
+
+create index smart_contexts_user_id_idx
+  on public.smart_contexts (user_id, workspace_id, position);
+
+-- Row level security --------------------------------------------------------
+
+alter table public.smart_contexts enable row level security;
+
+create policy "Users can manage their own smart contexts"
+  on public.smart_contexts for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (workspace_id is null or public.is_workspace_member(workspace_id))
+  );
+
+alter publication supabase_realtime add table public.smart_contexts;
@@ -0,0 +1,30 @@
+-- Tasks the user never wants to see in a given Smart Context. `context_id`
+-- is the id of the context's rule (see src/lib/smart-contexts.ts): the name
+-- of a built-in one, e.g. 'high-priority', or 'custom-' and the id of one of
+-- the user's own. Excluded tasks fall through to the next context they fit;
+-- rows for contexts deleted since are simply never matched again.
+
+create table public.smart_context_exclusions (
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  context_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, task_id, context_id)
+);
+
+create index smart_context_exclusions_task_id_idx
+  on public.smart_context_exclusions (task_id);
+
+-- Row level security --------------------------------------------------------
+
+alter table public.smart_context_exclusions enable row level security;
+
+create policy "Users can manage their own context exclusions"
+  on public.smart_context_exclusions for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.tasks t where t.id = task_id)
+  );
+
+alter publication supabase_realtime add table public.smart_context_exclusions;
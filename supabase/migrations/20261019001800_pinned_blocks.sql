@@ -0,0 +1,40 @@
+-- Time blocks the user pinned in their daily plan (see src/lib/planner.ts).
+-- The planner packs the remaining open tasks around them. Times are wall
+-- clock "HH:MM" in the user's timezone, on `day` in that timezone, and each
+-- task is pinned at most once a day. Pins are private to the user and apply
+-- whichever workspace they're planning in, since it's the same day.
+
+create table public.pinned_blocks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  day date not null,
+  start_time text not null,
+  end_time text not null,
+  created_at timestamptz not null default now(),
+  constraint pinned_blocks_time_check check (
+    start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+    and end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+    and end_time > start_time
+  ),
+  constraint pinned_blocks_task_day_key unique (user_id, task_id, day)
+);
+
+create index pinned_blocks_user_id_day_idx
+  on public.pinned_blocks (user_id, day);
+
+create index pinned_blocks_task_id_idx on public.pinned_blocks (task_id);
+
+-- Row level security --------------------------------------------------------
+
+alter table public.pinned_blocks enable row level security;
+
+create policy "Users can manage their own pinned blocks"
+  on public.pinned_blocks for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.tasks t where t.id = task_id)
+  );
+
+alter publication supabase_realtime add table public.pinned_blocks;